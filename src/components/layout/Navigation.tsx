@@ -3,6 +3,7 @@ import { moduleRoutes, mathRoutes } from '../../config/routes';
 import {
   Home,
   TrendingUp,
+  Spline,
   Layers,
   Mountain,
   Brain,
@@ -26,6 +27,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 
 const iconMap: Record<string, React.ComponentType<{ size?: number }>> = {
   TrendingUp,
+  Spline,
   Layers,
   Mountain,
   Brain,
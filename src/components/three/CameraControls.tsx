@@ -1,6 +1,26 @@
-import { OrbitControls } from '@react-three/drei';
+import { OrbitControls, OrthographicCamera } from '@react-three/drei';
+import { useThree } from '@react-three/fiber';
+import { WORLD_HALF_WIDTH } from './surface-scale';
+
+interface CameraControlsProps {
+  /** Look straight down through an orthographic camera, with rotation locked. */
+  topDown?: boolean;
+}
+
+export function CameraControls({ topDown = false }: CameraControlsProps) {
+  const size = useThree((s) => s.size);
+
+  if (topDown) {
+    // Fit the surface's world extent, with a margin, into the shorter side of the canvas
+    const zoom = Math.min(size.width, size.height) / (2.2 * WORLD_HALF_WIDTH);
+    return (
+      <>
+        <OrthographicCamera makeDefault position={[0, 20, 0]} up={[0, 0, -1]} zoom={zoom} />
+        <OrbitControls enableRotate={false} enableDamping dampingFactor={0.1} screenSpacePanning />
+      </>
+    );
+  }
 
-export function CameraControls() {
   return (
     <OrbitControls
       enableDamping
@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import {
+  computeGradient,
+  evaluateSurface,
+  getSurfaceInfo,
+  type Surface,
+} from '../../ml/gradient-descent';
+import { surfaceToWorld } from './surface-scale';
+
+interface GradientFieldProps {
+  surfaceType: Surface;
+  /** Arrows per side. */
+  density?: number;
+  color?: string;
+}
+
+/**
+ * Quiver plot of negative-gradient arrows draped over the surface. Lengths are relative to the
+ * steepest arrow, with a floor so the direction stays visible on flat regions.
+ */
+export function GradientField({
+  surfaceType,
+  density = 15,
+  color = '#f8fafc',
+}: GradientFieldProps) {
+  const prevGeoRef = useRef<THREE.BufferGeometry | null>(null);
+
+  const geometry = useMemo(() => {
+    const info = getSurfaceInfo(surfaceType);
+    const spacing = (2 * info.range) / density;
+    const arrows: { x: number; y: number; dx: number; dy: number; mag: number }[] = [];
+    let maxMag = 0;
+    for (let i = 0; i < density; i++) {
+      for (let j = 0; j < density; j++) {
+        const x = -info.range + (i + 0.5) * spacing;
+        const y = -info.range + (j + 0.5) * spacing;
+        const [gx, gy] = computeGradient(x, y, surfaceType);
+        const mag = Math.hypot(gx, gy);
+        if (!Number.isFinite(mag) || mag === 0) continue;
+        arrows.push({ x, y, dx: -gx / mag, dy: -gy / mag, mag });
+        maxMag = Math.max(maxMag, mag);
+      }
+    }
+
+    const onSurface = (x: number, y: number) =>
+      surfaceToWorld(x, y, evaluateSurface(x, y, surfaceType), info, 0.08);
+    const vertices: number[] = [];
+    for (const { x, y, dx, dy, mag } of arrows) {
+      const length = 0.8 * spacing * Math.max(0.3, mag / maxMag);
+      const tip = [x + dx * length, y + dy * length];
+      const head = 0.3 * length;
+      const tail = onSurface(x, y);
+      const end = onSurface(tip[0], tip[1]);
+      vertices.push(tail.x, tail.y, tail.z, end.x, end.y, end.z);
+      // Two barbs swept back 30° either side of the shaft
+      for (const angle of [Math.PI / 6, -Math.PI / 6]) {
+        const bx = -(dx * Math.cos(angle) - dy * Math.sin(angle));
+        const by = -(dx * Math.sin(angle) + dy * Math.cos(angle));
+        const barb = onSurface(tip[0] + bx * head, tip[1] + by * head);
+        vertices.push(end.x, end.y, end.z, barb.x, barb.y, barb.z);
+      }
+    }
+
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    return geo;
+  }, [surfaceType, density]);
+
+  useEffect(() => {
+    const prevGeo = prevGeoRef.current;
+    prevGeoRef.current = geometry;
+    if (prevGeo && prevGeo !== geometry) prevGeo.dispose();
+    return () => {
+      prevGeoRef.current?.dispose();
+    };
+  }, [geometry]);
+
+  return (
+    <lineSegments geometry={geometry}>
+      <lineBasicMaterial color={color} transparent opacity={0.8} />
+    </lineSegments>
+  );
+}
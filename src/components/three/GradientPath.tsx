@@ -2,22 +2,23 @@ import { useMemo, useRef } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import { Line } from '@react-three/drei';
-import { evaluateSurface, type SurfaceType } from '../../ml/gradient-descent';
+import { evaluateSurface, getSurfaceInfo, type Surface } from '../../ml/gradient-descent';
+import { surfaceToWorld } from './surface-scale';
 
 interface GradientPathProps {
   path: [number, number][];
-  surfaceType: SurfaceType;
+  surfaceType: Surface;
+  color?: string;
 }
 
-export function GradientPath({ path, surfaceType }: GradientPathProps) {
+export function GradientPath({ path, surfaceType, color = '#ef4444' }: GradientPathProps) {
   const sphereRef = useRef<THREE.Mesh>(null);
 
   const linePoints = useMemo(() => {
-    return path.map(([x, y]) => {
-      const z = evaluateSurface(x, y, surfaceType);
-      const height = Math.min(z, 20) * 0.3 + 0.15;
-      return new THREE.Vector3(x, height, y);
-    });
+    const info = getSurfaceInfo(surfaceType);
+    return path.map(([x, y]) =>
+      surfaceToWorld(x, y, evaluateSurface(x, y, surfaceType), info, 0.15),
+    );
   }, [path, surfaceType]);
 
   // Animate current position sphere pulsing
@@ -34,20 +35,24 @@ export function GradientPath({ path, surfaceType }: GradientPathProps) {
 
   return (
     <group>
-      {linePoints.length >= 2 && <Line points={linePoints} color="#ef4444" lineWidth={2} />}
+      {linePoints.length >= 2 && <Line points={linePoints} color={color} lineWidth={2} />}
 
       {/* Step spheres */}
       {linePoints.map((pt, i) => (
         <mesh key={i} position={pt}>
           <sphereGeometry args={[0.06, 8, 8]} />
-          <meshStandardMaterial color={i === linePoints.length - 1 ? '#ef4444' : '#f97316'} />
+          <meshStandardMaterial
+            color={color}
+            transparent
+            opacity={i === linePoints.length - 1 ? 1 : 0.6}
+          />
         </mesh>
       ))}
 
       {/* Pulsing current position */}
       <mesh ref={sphereRef}>
         <sphereGeometry args={[0.12, 16, 16]} />
-        <meshStandardMaterial color="#ef4444" emissive="#ef4444" emissiveIntensity={0.5} />
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.5} />
       </mesh>
     </group>
   );
@@ -1,38 +1,68 @@
 import { useEffect, useMemo, useRef } from 'react';
 import * as THREE from 'three';
 import type { ThreeEvent } from '@react-three/fiber';
-import { evaluateSurface, type SurfaceType } from '../../ml/gradient-descent';
+import { evaluateSurface, getSurfaceInfo, type Surface } from '../../ml/gradient-descent';
+import { colorStringToRgb, createPlasmaScale, createViridisScale } from '../../utils/color-scales';
+import { surfaceToWorld, worldToSurface } from './surface-scale';
+
+/** Flat wireframe, or a lit solid mesh coloured by height with the named scale. */
+export type SurfaceShading = 'wireframe' | 'viridis' | 'plasma';
 
 interface LossSurfaceProps {
-  surfaceType: SurfaceType;
+  surfaceType: Surface;
   resolution?: number;
+  /** Overrides the surface's recommended view range. */
   range?: number;
+  shading?: SurfaceShading;
   onSurfaceClick?: (x: number, y: number) => void;
 }
 
 export function LossSurface({
   surfaceType,
   resolution = 60,
-  range = 3,
+  range,
+  shading = 'wireframe',
   onSurfaceClick,
 }: LossSurfaceProps) {
   const prevGeoRef = useRef<THREE.BufferGeometry | null>(null);
+  const baseInfo = getSurfaceInfo(surfaceType);
+  const info = useMemo(
+    () => (range === undefined ? baseInfo : { ...baseInfo, range }),
+    [baseInfo, range],
+  );
 
   const geometry = useMemo(() => {
     const geo = new THREE.BufferGeometry();
     const vertices: number[] = [];
+    const colors: number[] = [];
     const indices: number[] = [];
 
-    const step = (range * 2) / resolution;
+    const step = (info.range * 2) / resolution;
 
     for (let i = 0; i <= resolution; i++) {
       for (let j = 0; j <= resolution; j++) {
-        const x = -range + i * step;
-        const y = -range + j * step;
-        let z = evaluateSurface(x, y, surfaceType);
-        z = Math.min(z, 20);
-        vertices.push(x, z * 0.3, y);
+        const x = -info.range + i * step;
+        const y = -info.range + j * step;
+        const v = surfaceToWorld(x, y, evaluateSurface(x, y, surfaceType), info);
+        vertices.push(v.x, v.y, v.z);
+      }
+    }
+
+    if (shading !== 'wireframe') {
+      // Colour by clipped world height so the scale spans what is on screen
+      let yMin = Infinity;
+      let yMax = -Infinity;
+      for (let k = 1; k < vertices.length; k += 3) {
+        yMin = Math.min(yMin, vertices[k]);
+        yMax = Math.max(yMax, vertices[k]);
+      }
+      const createScale = shading === 'viridis' ? createViridisScale : createPlasmaScale;
+      const scale = createScale([yMin, yMax === yMin ? yMin + 1 : yMax]);
+      for (let k = 1; k < vertices.length; k += 3) {
+        const [r, g, b] = colorStringToRgb(scale(vertices[k]));
+        colors.push(r / 255, g / 255, b / 255);
       }
+      geo.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
     }
 
     for (let i = 0; i < resolution; i++) {
@@ -50,7 +80,7 @@ export function LossSurface({
     geo.setIndex(indices);
     geo.computeVertexNormals();
     return geo;
-  }, [surfaceType, resolution, range]);
+  }, [surfaceType, resolution, info, shading]);
 
   useEffect(() => {
     const prevGeo = prevGeoRef.current;
@@ -65,20 +95,23 @@ export function LossSurface({
     if (!onSurfaceClick) return;
     e.stopPropagation();
     // In the geometry: x maps to data-x, z maps to data-y (y is the height)
-    const dataX = Math.max(-range, Math.min(range, e.point.x));
-    const dataY = Math.max(-range, Math.min(range, e.point.z));
+    const [dataX, dataY] = worldToSurface(e.point, info);
     onSurfaceClick(dataX, dataY);
   };
 
   return (
     <mesh geometry={geometry} onClick={handleClick}>
-      <meshBasicMaterial
-        wireframe
-        color="#38bdf8"
-        transparent
-        opacity={0.6}
-        side={THREE.DoubleSide}
-      />
+      {shading === 'wireframe' ? (
+        <meshBasicMaterial
+          wireframe
+          color="#38bdf8"
+          transparent
+          opacity={0.6}
+          side={THREE.DoubleSide}
+        />
+      ) : (
+        <meshStandardMaterial vertexColors roughness={0.7} side={THREE.DoubleSide} />
+      )}
     </mesh>
   );
 }
@@ -0,0 +1,27 @@
+import * as THREE from 'three';
+import type { SurfaceInfo } from '../../ml/gradient-descent';
+
+/** Every surface is scaled to span [-3, 3] in world units, whatever its own range. */
+export const WORLD_HALF_WIDTH = 3;
+// Height of the z-clip plane in world units
+const MAX_HEIGHT = 6;
+
+/** World position of a surface point; data y runs along world z and the value along world y. */
+export function surfaceToWorld(
+  x: number,
+  y: number,
+  z: number,
+  info: SurfaceInfo,
+  lift = 0,
+): THREE.Vector3 {
+  const scale = WORLD_HALF_WIDTH / info.range;
+  const height = Math.min(z, info.zClip) * (MAX_HEIGHT / info.zClip);
+  return new THREE.Vector3(x * scale, height + lift, y * scale);
+}
+
+/** Data coordinates under a world-space point, clamped to the surface range. */
+export function worldToSurface(point: THREE.Vector3, info: SurfaceInfo): [number, number] {
+  const scale = info.range / WORLD_HALF_WIDTH;
+  const clamp = (v: number) => Math.max(-info.range, Math.min(info.range, v * scale));
+  return [clamp(point.x), clamp(point.z)];
+}
@@ -44,6 +44,15 @@ export const moduleRoutes = [
     icon: 'TrendingUp',
     tech: 'TF.js',
   },
+  {
+    path: '/logistic-regression',
+    component: lazy(() => import('../modules/logistic-regression/LogisticRegressionPage')),
+    title: 'Logistic Regression',
+    description: 'Place labelled points and watch a sigmoid decision boundary learn to split them.',
+    difficulty: 'beginner' as const,
+    icon: 'Spline',
+    tech: 'Pure TS',
+  },
   {
     path: '/kmeans',
     component: lazy(() => import('../modules/kmeans/KMeansPage')),
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeBasins,
+  DIVERGED,
+  resolveSurfaceSpec,
+  toSurfaceSpec,
+  UNCONVERGED,
+  type BasinRequest,
+} from '../basins';
+import { compileExpression } from '../expression';
+import { DEFAULT_OPTIMIZER } from '../optimizers';
+import { DEFAULT_SCHEDULE } from '../lr-schedules';
+import { DEFAULT_NOISE, isExpressionSurface } from '../gradient-descent';
+
+function request(overrides: Partial<BasinRequest>): BasinRequest {
+  return {
+    surface: { kind: 'builtin', type: 'bowl' },
+    optimizer: DEFAULT_OPTIMIZER,
+    learningRate: 0.1,
+    schedule: DEFAULT_SCHEDULE,
+    noise: DEFAULT_NOISE,
+    resolution: 8,
+    maxSteps: 500,
+    ...overrides,
+  };
+}
+
+describe('computeBasins', () => {
+  it('sends every start on the bowl to its single minimum', () => {
+    const map = computeBasins(request({}));
+    expect(map.outcomes).toHaveLength(64);
+    expect(map.range).toBe(3);
+    expect(map.attractors).toEqual([[0, 0]]);
+    expect(Array.from(map.outcomes).every((o) => o === 0)).toBe(true);
+    expect(Array.from(map.steps).every((s) => s > 0 && s < 500)).toBe(true);
+  });
+
+  it('splits himmelblau between its four minima', () => {
+    const map = computeBasins(
+      request({ surface: { kind: 'builtin', type: 'himmelblau' }, learningRate: 0.01 }),
+    );
+    expect(new Set(map.outcomes)).toEqual(new Set([0, 1, 2, 3]));
+    expect(map.attractors).toHaveLength(4);
+  });
+
+  it('marks starts that end up pinned against the edge as diverged', () => {
+    const map = computeBasins(request({ learningRate: 1.1 }));
+    expect(Array.from(map.outcomes).every((o) => o === DIVERGED)).toBe(true);
+  });
+
+  it('clamps overshooting runs to the range like the live runners', () => {
+    // Some booth starts overshoot the edge on the way in but still settle on the minimum
+    const map = computeBasins(
+      request({ surface: { kind: 'builtin', type: 'booth' }, learningRate: 0.05 }),
+    );
+    expect(Array.from(map.outcomes).every((o) => o === 0)).toBe(true);
+  });
+
+  it('marks starts that run out of steps as unconverged', () => {
+    const map = computeBasins(request({ learningRate: 0.001, maxSteps: 5 }));
+    expect(Array.from(map.outcomes).every((o) => o === UNCONVERGED)).toBe(true);
+    expect(Array.from(map.steps).every((s) => s === 5)).toBe(true);
+  });
+
+  it('runs each start with the seeded gradient noise', () => {
+    const noise = { ...DEFAULT_NOISE, type: 'gaussian' as const, variance: 4 };
+    const plain = computeBasins(request({}));
+    const noisy = computeBasins(request({ noise }));
+    expect(noisy.steps).not.toEqual(plain.steps);
+    expect(computeBasins(request({ noise })).steps).toEqual(noisy.steps);
+  });
+
+  it('adds the local minima it finds as extra attractors', () => {
+    const map = computeBasins(
+      request({ surface: { kind: 'builtin', type: 'rastrigin' }, learningRate: 0.002 }),
+    );
+    expect(map.attractors.length).toBeGreaterThan(1);
+    expect(map.attractors[0]).toEqual([0, 0]);
+    expect(Math.max(...map.outcomes)).toBe(map.attractors.length - 1);
+  });
+
+  it('reports progress once per row', () => {
+    const fractions: number[] = [];
+    computeBasins(request({ resolution: 4 }), (f) => fractions.push(f));
+    expect(fractions).toEqual([0.25, 0.5, 0.75, 1]);
+  });
+});
+
+describe('surface specs', () => {
+  it('round-trips built-in surfaces', () => {
+    expect(resolveSurfaceSpec(toSurfaceSpec('booth'))).toBe('booth');
+  });
+
+  it('recompiles expressions from their source', () => {
+    const compiled = compileExpression('(x-1)^2 + y^2');
+    if (!compiled.ok) throw new Error('expected a valid expression');
+    const spec = toSurfaceSpec(compiled.surface);
+    expect(spec).toEqual({ kind: 'expression', source: '(x-1)^2 + y^2' });
+
+    const surface = resolveSurfaceSpec(spec);
+    expect(isExpressionSurface(surface) && surface.evaluate(1, 2)).toBe(4);
+
+    const map = computeBasins(request({ surface: spec }));
+    expect(map.attractors).toHaveLength(1);
+    expect(map.attractors[0][0]).toBeCloseTo(1, 2);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { dbscan, NOISE } from '../dbscan';
+import type { Point2D } from '../types';
+
+const line = (x0: number, count: number): Point2D[] =>
+  Array.from({ length: count }, (_, i) => ({ x: x0 + i * 0.1, y: 0 }));
+
+describe('dbscan', () => {
+  it('finds two dense groups and marks an isolated point as noise', () => {
+    const points = [...line(0, 5), ...line(5, 5), { x: 2.5, y: 3 }];
+    const { labels, kinds, numClusters } = dbscan(points, 0.15, 3);
+    expect(numClusters).toBe(2);
+    expect(new Set(labels.slice(0, 5)).size).toBe(1);
+    expect(new Set(labels.slice(5, 10)).size).toBe(1);
+    expect(labels[0]).not.toBe(labels[5]);
+    expect(labels[10]).toBe(NOISE);
+    expect(kinds[10]).toBe('noise');
+  });
+
+  it('labels line endpoints as border points', () => {
+    const { kinds } = dbscan(line(0, 5), 0.15, 3);
+    expect(kinds).toEqual(['border', 'core', 'core', 'core', 'border']);
+  });
+
+  it('chains through neighbouring core points, unlike k-means', () => {
+    // A ring: every point is close to its neighbours but far from the opposite side
+    const ring = Array.from({ length: 40 }, (_, i) => {
+      const t = (i / 40) * 2 * Math.PI;
+      return { x: Math.cos(t), y: Math.sin(t) };
+    });
+    const { numClusters } = dbscan(ring, 0.2, 3);
+    expect(numClusters).toBe(1);
+  });
+
+  it('treats everything as noise when minPts cannot be met', () => {
+    const { numClusters, kinds } = dbscan(line(0, 3), 0.05, 2);
+    expect(numClusters).toBe(0);
+    expect(kinds.every((k) => k === 'noise')).toBe(true);
+  });
+});
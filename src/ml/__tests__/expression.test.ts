@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileExpression,
+  differentiateExpression,
+  evaluateExpression,
+  parseExpression,
+} from '../expression';
+
+function compile(source: string) {
+  const result = compileExpression(source);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.surface;
+}
+
+function errorFor(source: string) {
+  const result = parseExpression(source);
+  if (result.ok) throw new Error(`expected ${source} to fail`);
+  return result.error;
+}
+
+describe('parseExpression', () => {
+  it('respects operator precedence and associativity', () => {
+    expect(compile('1 + 2 * 3').evaluate(0, 0)).toBe(7);
+    expect(compile('(1 + 2) * 3').evaluate(0, 0)).toBe(9);
+    expect(compile('2 ^ 3 ^ 2').evaluate(0, 0)).toBe(512);
+    expect(compile('-x^2').evaluate(3, 0)).toBe(-9);
+    expect(compile('8 / 4 / 2').evaluate(0, 0)).toBe(1);
+    expect(compile('x - y - 1').evaluate(5, 2)).toBe(2);
+  });
+
+  it('supports functions, constants and scientific notation', () => {
+    expect(compile('sin(pi / 2) + exp(0)').evaluate(0, 0)).toBeCloseTo(2);
+    expect(compile('log(e)').evaluate(0, 0)).toBeCloseTo(1);
+    expect(compile('1.5e2 + .5').evaluate(0, 0)).toBe(150.5);
+    expect(compile('SQRT(X) + abs(Y)').evaluate(4, -3)).toBe(5);
+  });
+
+  it('reports the position of unknown characters', () => {
+    expect(errorFor('x + #')).toEqual({
+      message: "Unexpected character '#' at position 4",
+      position: 4,
+    });
+  });
+
+  it('reports unknown variables and functions', () => {
+    expect(errorFor('x + z').position).toBe(4);
+    expect(errorFor('x + z').message).toContain('only x and y');
+    expect(errorFor('sni(x)').message).toContain("Unknown function 'sni'");
+  });
+
+  it('does not treat inherited object keys as constants', () => {
+    expect(errorFor('constructor').message).toContain("Unknown variable 'constructor'");
+    expect(errorFor('__proto__ + x').message).toContain("Unknown variable '__proto__'");
+    expect(errorFor('x * toString').position).toBe(4);
+  });
+
+  it('reports missing and unmatched parentheses', () => {
+    expect(errorFor('sin(x').message).toContain("Missing ')'");
+    expect(errorFor('sin(x').position).toBe(5);
+    expect(errorFor('x)').message).toContain("Unmatched ')'");
+  });
+
+  it('asks for explicit multiplication', () => {
+    const error = errorFor('2x');
+    expect(error.position).toBe(1);
+    expect(error.message).toContain('use *');
+  });
+
+  it('rejects empty and truncated expressions', () => {
+    expect(errorFor('  ').message).toBe('Expression is empty');
+    expect(errorFor('x +').message).toBe('Unexpected end of expression');
+  });
+});
+
+describe('differentiateExpression', () => {
+  const h = 1e-6;
+  const sources = [
+    'sin(x)*cos(y) + 0.1*(x^2+y^2)',
+    'x^y',
+    'exp(-x^2 - y^2) / (1 + tanh(x*y))',
+    'sqrt(x^2 + y^2 + 1) - log(2 + cos(x))',
+    'tan(x/4) * abs(y)',
+  ];
+
+  for (const source of sources) {
+    it(`matches finite differences for ${source}`, () => {
+      const parsed = parseExpression(source);
+      if (!parsed.ok) throw new Error(parsed.error.message);
+      const { ast } = parsed;
+      for (const [x, y] of [
+        [0.7, 1.3],
+        [1.9, -0.4],
+      ]) {
+        const [v, dx, dy] = differentiateExpression(ast, x, y);
+        expect(v).toBeCloseTo(evaluateExpression(ast, x, y), 12);
+        const fdx =
+          (evaluateExpression(ast, x + h, y) - evaluateExpression(ast, x - h, y)) / (2 * h);
+        const fdy =
+          (evaluateExpression(ast, x, y + h) - evaluateExpression(ast, x, y - h)) / (2 * h);
+        expect(dx).toBeCloseTo(fdx, 5);
+        expect(dy).toBeCloseTo(fdy, 5);
+      }
+    });
+  }
+
+  it('uses the power rule for negative bases with constant exponents', () => {
+    const [dx] = compile('x^3').gradient(-2, 0);
+    expect(dx).toBeCloseTo(12);
+  });
+
+  it('replaces undefined gradients with zero', () => {
+    expect(compile('sqrt(x^2)').gradient(0, 0)).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { featureTransform, orderedFeatures, RAW_FEATURES } from '../features';
+
+describe('featureTransform', () => {
+  it('passes the raw coordinates through by default', () => {
+    expect(featureTransform(RAW_FEATURES)(0.5, -2)).toEqual([0.5, -2]);
+  });
+
+  it('computes the derived features', () => {
+    const transform = featureTransform(['x2', 'y2', 'xy', 'sinx', 'siny']);
+    const [x2, y2, xy, sinx, siny] = transform(0.5, -2);
+    expect(x2).toBeCloseTo(0.25);
+    expect(y2).toBeCloseTo(4);
+    expect(xy).toBeCloseTo(-1);
+    expect(sinx).toBeCloseTo(Math.sin(0.5));
+    expect(siny).toBeCloseTo(Math.sin(-2));
+  });
+
+  it('orders inputs the same way however the features were enabled', () => {
+    expect(featureTransform(['y2', 'x'])(3, 2)).toEqual([3, 4]);
+    expect(orderedFeatures(['xy', 'y', 'x']).map((f) => f.id)).toEqual(['x', 'y', 'xy']);
+  });
+
+  it('separates the circle dataset linearly with x² + y²', () => {
+    const transform = featureTransform(['x2', 'y2']);
+    const radiusSquared = (x: number, y: number) => transform(x, y).reduce((a, b) => a + b, 0);
+    expect(radiusSquared(0.3, 0.4)).toBeCloseTo(0.25);
+    expect(radiusSquared(-0.6, 0.8)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { GaussianMixtureModel, covarianceEllipse, gaussianPdf } from '../gmm';
+import { createRng } from '../../utils/math-utils';
+import type { Point2D } from '../types';
+
+// Two elongated clusters: one stretched along x, one along y
+const clusters: Point2D[] = [
+  ...Array.from({ length: 20 }, (_, i) => ({ x: -1 + i * 0.05, y: -1 + (i % 3) * 0.02 })),
+  ...Array.from({ length: 20 }, (_, i) => ({ x: 1 + (i % 3) * 0.02, y: i * 0.05 })),
+];
+
+describe('gaussianPdf', () => {
+  it('matches the standard normal density at the mean', () => {
+    const pdf = gaussianPdf({ x: 0, y: 0 }, { x: 0, y: 0 }, { xx: 1, xy: 0, yy: 1 });
+    expect(pdf).toBeCloseTo(1 / (2 * Math.PI), 10);
+  });
+
+  it('returns 0 for a degenerate covariance', () => {
+    expect(gaussianPdf({ x: 0, y: 0 }, { x: 0, y: 0 }, { xx: 1, xy: 1, yy: 1 })).toBe(0);
+  });
+});
+
+describe('covarianceEllipse', () => {
+  it('uses standard deviations as semi-axes for an axis-aligned covariance', () => {
+    const e = covarianceEllipse({ xx: 4, xy: 0, yy: 1 });
+    expect(e.rx).toBeCloseTo(2, 10);
+    expect(e.ry).toBeCloseTo(1, 10);
+    expect(e.angle).toBeCloseTo(0, 10);
+  });
+
+  it('rotates 45° for positively correlated equal variances', () => {
+    const e = covarianceEllipse({ xx: 1, xy: 0.5, yy: 1 });
+    expect(e.angle).toBeCloseTo(Math.PI / 4, 10);
+    expect(e.rx).toBeGreaterThan(e.ry);
+  });
+});
+
+describe('GaussianMixtureModel', () => {
+  it('initializes k components with equal weights', () => {
+    const gmm = new GaussianMixtureModel(2, createRng(1));
+    gmm.initialize(clusters);
+    expect(gmm.components).toHaveLength(2);
+    for (const c of gmm.components) expect(c.weight).toBeCloseTo(0.5, 10);
+  });
+
+  it('responsibilities sum to 1 for every point', () => {
+    const gmm = new GaussianMixtureModel(3, createRng(2));
+    gmm.initialize(clusters);
+    for (const r of gmm.eStep(clusters)) {
+      expect(r.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('EM never decreases the log-likelihood', () => {
+    const gmm = new GaussianMixtureModel(2, createRng(3));
+    gmm.initialize(clusters);
+    let prev = gmm.logLikelihood(clusters);
+    for (let i = 0; i < 20; i++) {
+      const { logLikelihood } = gmm.step(clusters);
+      expect(logLikelihood).toBeGreaterThanOrEqual(prev - 1e-9);
+      prev = logLikelihood;
+    }
+  });
+
+  it('recovers the orientation of elongated clusters', () => {
+    const gmm = new GaussianMixtureModel(2, createRng(4));
+    gmm.initialize(clusters);
+    for (let i = 0; i < 100; i++) {
+      if (gmm.step(clusters).converged) break;
+    }
+    const byX = [...gmm.components].sort((a, b) => a.mean.x - b.mean.x);
+    expect(byX[0].cov.xx).toBeGreaterThan(byX[0].cov.yy);
+    expect(byX[1].cov.yy).toBeGreaterThan(byX[1].cov.xx);
+    expect(byX[0].weight).toBeCloseTo(0.5, 2);
+  });
+});
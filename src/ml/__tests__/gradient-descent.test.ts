@@ -1,5 +1,22 @@
 import { describe, it, expect } from 'vitest';
-import { evaluateSurface, computeGradient, gradientStep } from '../gradient-descent';
+import {
+  evaluateSurface,
+  computeGradient,
+  gradientStep,
+  clipGradient,
+  MAX_GRADIENT_NORM,
+  SURFACE_INFO,
+  getSurfaceInfo,
+  nearestMinimum,
+  computeHessian,
+  hessianEigenvalues,
+  quadraticApproximation,
+  createGradientSampler,
+  DEFAULT_NOISE,
+  type GradientNoise,
+  type SurfaceType,
+} from '../gradient-descent';
+import { compileExpression } from '../expression';
 
 describe('evaluateSurface', () => {
   describe('bowl', () => {
@@ -155,3 +172,207 @@ describe('gradientStep', () => {
     expect(y).toBeCloseTo(1, 0);
   });
 });
+
+describe('clipGradient', () => {
+  it('leaves small gradients unchanged', () => {
+    expect(clipGradient([3, 4])).toEqual([3, 4]);
+  });
+
+  it('rescales large gradients to the maximum norm', () => {
+    const [gx, gy] = clipGradient([300, 400]);
+    expect(Math.hypot(gx, gy)).toBeCloseTo(MAX_GRADIENT_NORM, 10);
+    expect(gx / gy).toBeCloseTo(0.75, 10);
+  });
+
+  it('accepts a custom maximum norm', () => {
+    expect(clipGradient([3, 4], 1)).toEqual([0.6, 0.8]);
+  });
+});
+
+describe('benchmark surfaces', () => {
+  const knownMinimumValues: Partial<Record<SurfaceType, number>> = {
+    himmelblau: 0,
+    rastrigin: 0,
+    ackley: 0,
+    'styblinski-tang': -78.33233,
+    booth: 0,
+    'six-hump-camel': -1.0316,
+  };
+
+  for (const [surface, value] of Object.entries(knownMinimumValues) as [SurfaceType, number][]) {
+    it(`${surface} reaches its known value at every listed minimum`, () => {
+      for (const [x, y] of SURFACE_INFO[surface].minima) {
+        expect(evaluateSurface(x, y, surface)).toBeCloseTo(value, 3);
+        const [gx, gy] = computeGradient(x, y, surface);
+        expect(Math.hypot(gx, gy)).toBeLessThan(1e-2);
+      }
+    });
+  }
+
+  it('analytical gradients match finite differences', () => {
+    const h = 1e-6;
+    for (const surface of Object.keys(SURFACE_INFO) as SurfaceType[]) {
+      if (surface === 'beale') continue;
+      for (const [x, y] of [
+        [0.37, -1.21],
+        [-1.6, 0.83],
+      ]) {
+        const [gx, gy] = computeGradient(x, y, surface);
+        const fdx =
+          (evaluateSurface(x + h, y, surface) - evaluateSurface(x - h, y, surface)) / (2 * h);
+        const fdy =
+          (evaluateSurface(x, y + h, surface) - evaluateSurface(x, y - h, surface)) / (2 * h);
+        expect(gx).toBeCloseTo(fdx, 3);
+        expect(gy).toBeCloseTo(fdy, 3);
+      }
+    }
+  });
+
+  it('lists every minimum inside the recommended range', () => {
+    for (const info of Object.values(SURFACE_INFO)) {
+      for (const [x, y] of info.minima) {
+        expect(Math.abs(x)).toBeLessThanOrEqual(info.range);
+        expect(Math.abs(y)).toBeLessThanOrEqual(info.range);
+      }
+    }
+  });
+
+  it('gives expression surfaces a default range and no minima', () => {
+    const result = compileExpression('x^2 + y^2');
+    if (!result.ok) throw new Error(result.error.message);
+    expect(getSurfaceInfo(result.surface)).toEqual({ range: 3, zClip: 20, minima: [] });
+  });
+});
+
+describe('nearestMinimum', () => {
+  it('finds the closest of several minima', () => {
+    const result = nearestMinimum([-3, 3], SURFACE_INFO.himmelblau.minima);
+    expect(result?.index).toBe(1);
+    expect(result?.distance).toBeCloseTo(Math.hypot(0.194882, 0.131312), 5);
+  });
+
+  it('returns null when no minima are known', () => {
+    expect(nearestMinimum([0, 0], [])).toBeNull();
+  });
+});
+
+describe('computeHessian', () => {
+  it('matches finite differences of the gradient on every surface', () => {
+    const h = 1e-5;
+    for (const surface of Object.keys(SURFACE_INFO) as SurfaceType[]) {
+      for (const [x, y] of [
+        [0.37, -1.21],
+        [-1.6, 0.83],
+      ]) {
+        const hessian = computeHessian(x, y, surface);
+        const [gxPlus, gyPlus] = computeGradient(x + h, y, surface);
+        const [gxMinus, gyMinus] = computeGradient(x - h, y, surface);
+        const [, gyUp] = computeGradient(x, y + h, surface);
+        const [, gyDown] = computeGradient(x, y - h, surface);
+        const scale = 1 + Math.abs(hessian.xx) + Math.abs(hessian.yy);
+        expect(hessian.xx / scale).toBeCloseTo((gxPlus - gxMinus) / (2 * h) / scale, 3);
+        expect(hessian.xy / scale).toBeCloseTo((gyPlus - gyMinus) / (2 * h) / scale, 3);
+        expect(hessian.yy / scale).toBeCloseTo((gyUp - gyDown) / (2 * h) / scale, 3);
+      }
+    }
+  });
+
+  it('falls back to finite differences for expression surfaces', () => {
+    const result = compileExpression('x^2 * y + 3 * y^2');
+    if (!result.ok) throw new Error(result.error.message);
+    const hessian = computeHessian(2, 1, result.surface);
+    expect(hessian.xx).toBeCloseTo(2, 5);
+    expect(hessian.xy).toBeCloseTo(4, 5);
+    expect(hessian.yy).toBeCloseTo(6, 5);
+  });
+});
+
+describe('hessianEigenvalues', () => {
+  it('returns opposite signs at a saddle', () => {
+    expect(hessianEigenvalues(computeHessian(0, 0, 'saddle'))).toEqual([2, -2]);
+  });
+
+  it('handles off-diagonal terms, largest first', () => {
+    const [l1, l2] = hessianEigenvalues(computeHessian(0, 0, 'booth'));
+    expect(l1).toBeCloseTo(18);
+    expect(l2).toBeCloseTo(2);
+  });
+});
+
+describe('quadraticApproximation', () => {
+  it('is exact on a quadratic surface', () => {
+    const q = quadraticApproximation(1, -2, 'booth');
+    expect(q(3, 0.5)).toBeCloseTo(evaluateSurface(3, 0.5, 'booth'), 8);
+  });
+
+  it('agrees with the surface to second order near the expansion point', () => {
+    const q = quadraticApproximation(0.5, 0.7, 'rosenbrock');
+    const d = 1e-3;
+    expect(
+      Math.abs(q(0.5 + d, 0.7 - d) - evaluateSurface(0.5 + d, 0.7 - d, 'rosenbrock')),
+    ).toBeLessThan(1e-6);
+  });
+});
+
+describe('createGradientSampler', () => {
+  const noise = (overrides: Partial<GradientNoise>): GradientNoise => ({
+    ...DEFAULT_NOISE,
+    ...overrides,
+  });
+
+  /** Mean squared distance of sampled gradients from the exact one at (1, 1) on the bowl. */
+  function noiseVariance(n: GradientNoise, draws = 2000): number {
+    const sampler = createGradientSampler(n);
+    let sum = 0;
+    for (let i = 0; i < draws; i++) {
+      const [gx, gy] = sampler(1, 1, 'bowl');
+      sum += (gx - 2) ** 2 + (gy - 2) ** 2;
+    }
+    return sum / (2 * draws);
+  }
+
+  it('returns the exact gradient without noise', () => {
+    expect(createGradientSampler(DEFAULT_NOISE)(1, 2, 'bowl')).toEqual([2, 4]);
+  });
+
+  it('repeats the same draws for the same seed', () => {
+    const a = createGradientSampler(noise({ type: 'gaussian', seed: 5 }));
+    const b = createGradientSampler(noise({ type: 'gaussian', seed: 5 }));
+    const c = createGradientSampler(noise({ type: 'gaussian', seed: 6 }));
+    const first = a(1, 1, 'bowl');
+    expect(b(1, 1, 'bowl')).toEqual(first);
+    expect(c(1, 1, 'bowl')).not.toEqual(first);
+  });
+
+  it('adds Gaussian noise with the configured variance', () => {
+    expect(noiseVariance(noise({ type: 'gaussian', variance: 4 }))).toBeCloseTo(4, 0);
+  });
+
+  it('divides the variance by the number of samples averaged', () => {
+    const single = noiseVariance(noise({ type: 'gaussian', variance: 4 }));
+    const averaged = noiseVariance(noise({ type: 'gaussian', variance: 4, samples: 8 }));
+    expect(averaged).toBeGreaterThan(single / 12);
+    expect(averaged).toBeLessThan(single / 5);
+  });
+
+  it('gives less noisy minibatch gradients as the batch grows', () => {
+    const small = noiseVariance(noise({ type: 'minibatch', batchSize: 1 }));
+    const large = noiseVariance(noise({ type: 'minibatch', batchSize: 64 }));
+    expect(large).toBeLessThan(small / 10);
+  });
+
+  it('recovers the exact gradient from the full batch', () => {
+    const sampler = createGradientSampler(
+      noise({ type: 'minibatch', datasetSize: 32, batchSize: 32 }),
+    );
+    const [gx, gy] = sampler(1, 1, 'bowl');
+    expect(gx).toBeCloseTo(2, 10);
+    expect(gy).toBeCloseTo(2, 10);
+  });
+
+  it('is used by gradientStep when given', () => {
+    const sampler = createGradientSampler(noise({ type: 'gaussian', variance: 1 }));
+    const [x1] = gradientStep(1, 1, 0.1, 'bowl', sampler);
+    expect(x1).not.toBe(gradientStep(1, 1, 0.1, 'bowl')[0]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { agglomerate, cutDendrogram, dendrogramOrder, type Linkage } from '../hierarchical';
+import type { Point2D } from '../types';
+
+const points: Point2D[] = [
+  { x: 0, y: 0 },
+  { x: 0.1, y: 0 },
+  { x: 5, y: 0 },
+  { x: 5.2, y: 0 },
+  { x: 10, y: 0 },
+];
+
+describe('agglomerate', () => {
+  it.each<Linkage>(['single', 'complete', 'average', 'ward'])(
+    '%s linkage produces n - 1 non-decreasing merges',
+    (linkage) => {
+      const merges = agglomerate(points, linkage);
+      expect(merges).toHaveLength(points.length - 1);
+      for (let i = 1; i < merges.length; i++) {
+        expect(merges[i].distance).toBeGreaterThanOrEqual(merges[i - 1].distance - 1e-12);
+      }
+      expect(merges[merges.length - 1].size).toBe(points.length);
+    },
+  );
+
+  it('merges the closest pair first', () => {
+    const [first] = agglomerate(points, 'single');
+    expect([first.a, first.b].sort()).toEqual([0, 1]);
+    expect(first.distance).toBeCloseTo(0.1, 10);
+  });
+
+  it('single linkage joins clusters at their nearest members', () => {
+    const merges = agglomerate(points, 'single');
+    // The last merge bridges the gap between x = 0.1 and x = 5
+    expect(merges[merges.length - 1].distance).toBeCloseTo(4.9, 10);
+  });
+
+  it('complete linkage joins clusters at their farthest members', () => {
+    const merges = agglomerate(points, 'complete');
+    // The last merge spans the whole dataset, from x = 0 to x = 10
+    expect(merges[merges.length - 1].distance).toBeCloseTo(10, 10);
+  });
+});
+
+describe('cutDendrogram', () => {
+  const merges = agglomerate(points, 'single');
+
+  it('gives one cluster per point below the first merge', () => {
+    expect(new Set(cutDendrogram(merges, points.length, 0.05)).size).toBe(5);
+  });
+
+  it('gives a single cluster above the last merge', () => {
+    expect(new Set(cutDendrogram(merges, points.length, 100)).size).toBe(1);
+  });
+
+  it('splits into the three groups at an intermediate height', () => {
+    const labels = cutDendrogram(merges, points.length, 1);
+    expect(labels[0]).toBe(labels[1]);
+    expect(labels[2]).toBe(labels[3]);
+    expect(new Set(labels).size).toBe(3);
+  });
+});
+
+describe('dendrogramOrder', () => {
+  it('lists every leaf once with merged pairs adjacent', () => {
+    const merges = agglomerate(points, 'average');
+    const order = dendrogramOrder(merges, points.length);
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4]);
+    expect(Math.abs(order.indexOf(0) - order.indexOf(1))).toBe(1);
+    expect(Math.abs(order.indexOf(2) - order.indexOf(3))).toBe(1);
+  });
+});
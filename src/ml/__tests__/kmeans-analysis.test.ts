@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeK, computeInertia, silhouetteScore } from '../kmeans-analysis';
+import { createRng } from '../../utils/math-utils';
+import type { Point2D } from '../types';
+
+// Three tight, well-separated blobs
+const blobs: Point2D[] = [
+  { x: 0, y: 0 },
+  { x: 0.1, y: 0 },
+  { x: 0, y: 0.1 },
+  { x: 5, y: 5 },
+  { x: 5.1, y: 5 },
+  { x: 5, y: 5.1 },
+  { x: 10, y: 0 },
+  { x: 10.1, y: 0 },
+  { x: 10, y: 0.1 },
+];
+
+describe('computeInertia', () => {
+  it('sums squared distances to the assigned centroid', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 2, y: 0 },
+    ];
+    expect(computeInertia(points, [{ x: 1, y: 0 }], [0, 0])).toBe(2);
+  });
+});
+
+describe('silhouetteScore', () => {
+  it('is close to 1 for tight, separated clusters', () => {
+    const assignments = [0, 0, 0, 1, 1, 1, 2, 2, 2];
+    expect(silhouetteScore(blobs, assignments)).toBeGreaterThan(0.9);
+  });
+
+  it('is negative when points are assigned to the wrong cluster', () => {
+    const assignments = [0, 1, 0, 1, 0, 1, 0, 1, 0];
+    expect(silhouetteScore(blobs, assignments)).toBeLessThan(0);
+  });
+
+  it('scores singleton clusters as 0', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+    ];
+    expect(silhouetteScore(points, [0, 1])).toBe(0);
+  });
+});
+
+describe('analyzeK', () => {
+  it('scores each k from 1 to maxK', () => {
+    const result = analyzeK(blobs, 5, { random: createRng(1) });
+    expect(result.map((r) => r.k)).toEqual([1, 2, 3, 4, 5]);
+    expect(result[0].silhouette).toBeNull();
+  });
+
+  it('inertia does not increase with k', () => {
+    const result = analyzeK(blobs, 6, { random: createRng(2) });
+    for (let i = 1; i < result.length; i++) {
+      expect(result[i].inertia).toBeLessThanOrEqual(result[i - 1].inertia + 1e-9);
+    }
+  });
+
+  it('the silhouette peaks at the true number of clusters', () => {
+    const result = analyzeK(blobs, 6, { random: createRng(3) });
+    const best = result.reduce((a, b) => ((b.silhouette ?? -1) > (a.silhouette ?? -1) ? b : a));
+    expect(best.k).toBe(3);
+  });
+
+  it('caps k at the number of points', () => {
+    expect(analyzeK(blobs.slice(0, 3), 8)).toHaveLength(3);
+  });
+});
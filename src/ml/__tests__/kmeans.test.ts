@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { KMeansAlgorithm } from '../kmeans';
+import { KMeansAlgorithm, type InitMethod } from '../kmeans';
+import { createRng } from '../../utils/math-utils';
 import type { Point2D } from '../types';
 
 describe('KMeansAlgorithm', () => {
@@ -172,4 +173,79 @@ describe('KMeansAlgorithm', () => {
       expect(result.converged).toBe(true);
     });
   });
+
+  describe('initialization methods', () => {
+    const points: Point2D[] = [
+      { x: 0, y: 0 },
+      { x: 0.1, y: 0.1 },
+      { x: 5, y: 5 },
+      { x: 5.1, y: 5 },
+      { x: 10, y: 0 },
+      { x: 10, y: 0.1 },
+    ];
+
+    it.each<InitMethod>(['forgy', 'kmeans++', 'random-partition'])(
+      '%s creates k centroids',
+      (init) => {
+        const km = new KMeansAlgorithm(3, init, createRng(3));
+        km.initialize(points);
+        expect(km.centroids).toHaveLength(3);
+      },
+    );
+
+    it.each<InitMethod>(['forgy', 'kmeans++', 'random-partition'])(
+      '%s is reproducible with a seeded random source',
+      (init) => {
+        const a = new KMeansAlgorithm(3, init, createRng(11));
+        const b = new KMeansAlgorithm(3, init, createRng(11));
+        a.initialize(points);
+        b.initialize(points);
+        expect(a.centroids).toEqual(b.centroids);
+      },
+    );
+
+    it('random-partition starts centroids at partition means', () => {
+      const km = new KMeansAlgorithm(1, 'random-partition', createRng(5));
+      km.initialize(points);
+      const meanX = points.reduce((s, p) => s + p.x, 0) / points.length;
+      const meanY = points.reduce((s, p) => s + p.y, 0) / points.length;
+      expect(km.centroids[0].x).toBeCloseTo(meanX, 10);
+      expect(km.centroids[0].y).toBeCloseTo(meanY, 10);
+    });
+  });
+
+  describe('seedProbabilities', () => {
+    it('is uniform before any centroid is chosen', () => {
+      const km = new KMeansAlgorithm(2, 'kmeans++');
+      expect(
+        km.seedProbabilities([
+          { x: 0, y: 0 },
+          { x: 1, y: 1 },
+        ]),
+      ).toEqual([0.5, 0.5]);
+    });
+
+    it('is proportional to squared distance from the nearest centroid', () => {
+      const km = new KMeansAlgorithm(2, 'kmeans++');
+      km.centroids = [{ x: 0, y: 0 }];
+      const probs = km.seedProbabilities([
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+        { x: 2, y: 0 },
+      ]);
+      expect(probs[0]).toBe(0);
+      expect(probs[1]).toBeCloseTo(1 / 5, 10);
+      expect(probs[2]).toBeCloseTo(4 / 5, 10);
+    });
+
+    it('never picks a point that is already a centroid', () => {
+      const km = new KMeansAlgorithm(2, 'kmeans++', createRng(9));
+      km.centroids = [{ x: 0, y: 0 }];
+      const seed = km.addSeed([
+        { x: 0, y: 0 },
+        { x: 3, y: 4 },
+      ]);
+      expect(seed).toEqual({ x: 3, y: 4 });
+    });
+  });
 });
@@ -1,5 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { LinearRegressionModel } from '../linear-regression';
+import {
+  LinearRegressionModel,
+  computeCoefficientPath,
+  expandFeatures,
+  LINEAR_BASIS,
+  NO_REGULARIZATION,
+  residualGradient,
+  residualLoss,
+  solveNormalEquation,
+  solveOptimum,
+  type Regularization,
+} from '../linear-regression';
 
 describe('LinearRegressionModel', () => {
   describe('constructor', () => {
@@ -129,3 +140,289 @@ describe('LinearRegressionModel', () => {
     });
   });
 });
+
+describe('expandFeatures', () => {
+  it('returns successive powers for the polynomial basis', () => {
+    const features = expandFeatures(2, { type: 'polynomial', size: 3, scale: 1 });
+    expect(features).toEqual([2, 4, 8]);
+  });
+
+  it('divides the input by scale before expanding', () => {
+    const features = expandFeatures(3, { type: 'polynomial', size: 2, scale: 1.5 });
+    expect(features[0]).toBeCloseTo(2, 10);
+    expect(features[1]).toBeCloseTo(4, 10);
+  });
+
+  it('peaks the RBF feature whose centre matches the input', () => {
+    const features = expandFeatures(1, { type: 'rbf', size: 3, scale: 1 });
+    expect(features).toHaveLength(3);
+    expect(features[2]).toBeCloseTo(1, 10);
+    expect(features[2]).toBeGreaterThan(features[1]);
+    expect(features[1]).toBeGreaterThan(features[0]);
+  });
+
+  it('keeps sine features within [-1, 1]', () => {
+    const features = expandFeatures(0.3, { type: 'sine', size: 6, scale: 1 });
+    expect(features).toHaveLength(6);
+    for (const f of features) {
+      expect(Math.abs(f)).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('LinearRegressionModel with a basis', () => {
+  it('allocates one weight per basis function', () => {
+    const model = new LinearRegressionModel(0, 0, { type: 'polynomial', size: 4, scale: 1 });
+    expect(model.weights).toEqual([0, 0, 0, 0]);
+  });
+
+  it('predicts bias plus the weighted features', () => {
+    const model = new LinearRegressionModel(0, 1, { type: 'polynomial', size: 2, scale: 1 });
+    model.weights = [2, 3];
+    // 1 + 2*2 + 3*4
+    expect(model.predict(2)).toBe(17);
+  });
+
+  it('setBasis resets the parameters to match the new basis', () => {
+    const model = new LinearRegressionModel(2, 1);
+    model.setBasis({ type: 'rbf', size: 5, scale: 1 });
+    expect(model.weights).toEqual([0, 0, 0, 0, 0]);
+    expect(model.bias).toBe(0);
+  });
+
+  it('fits a quadratic that a straight line cannot', () => {
+    const points = [-1, -0.5, 0, 0.5, 1].map((x) => ({ x, y: x * x }));
+    const line = new LinearRegressionModel();
+    const quadratic = new LinearRegressionModel(0, 0, { type: 'polynomial', size: 2, scale: 1 });
+    for (let i = 0; i < 2000; i++) {
+      line.trainStep(points, 0.1);
+      quadratic.trainStep(points, 0.1);
+    }
+    expect(quadratic.computeLoss(points)).toBeLessThan(1e-4);
+    expect(line.computeLoss(points)).toBeGreaterThan(0.05);
+  });
+});
+
+describe('regularization', () => {
+  const points = [-1, -0.5, 0, 0.5, 1].map((x) => ({ x, y: 2 * x }));
+
+  it('adds the L2 penalty to the loss', () => {
+    const model = new LinearRegressionModel(2, 0);
+    expect(model.computeLoss(points)).toBeCloseTo(0, 10);
+    expect(model.computeLoss(points, { type: 'l2', lambda: 0.5, l1Ratio: 0.5 })).toBeCloseTo(2, 10);
+  });
+
+  it('adds the L1 penalty to the loss', () => {
+    const model = new LinearRegressionModel(-2, 0);
+    expect(model.computeLoss([], { type: 'l1', lambda: 1, l1Ratio: 0.5 })).toBe(0);
+    expect(model.computeLoss([{ x: 0, y: 0 }], { type: 'l1', lambda: 1, l1Ratio: 0.5 })).toBe(2);
+  });
+
+  it('blends L1 and L2 for elastic net', () => {
+    const model = new LinearRegressionModel(2, 0);
+    const loss = model.computeLoss(points, { type: 'elasticnet', lambda: 1, l1Ratio: 0.25 });
+    // 0.25 * |2| + 0.75 * 2^2
+    expect(loss).toBeCloseTo(3.5, 10);
+  });
+
+  it('shrinks the fitted weight as lambda grows', () => {
+    const fit = (lambda: number) => {
+      const model = new LinearRegressionModel();
+      for (let i = 0; i < 2000; i++) {
+        model.trainStep(points, 0.1, { type: 'l2', lambda, l1Ratio: 0.5 });
+      }
+      return model.weight;
+    };
+    expect(fit(0)).toBeCloseTo(2, 3);
+    expect(fit(0.5)).toBeLessThan(fit(0.1));
+  });
+
+  it('drives weights exactly to zero under a strong L1 penalty', () => {
+    const model = new LinearRegressionModel();
+    for (let i = 0; i < 500; i++) {
+      model.trainStep(points, 0.1, { type: 'l1', lambda: 5, l1Ratio: 0.5 });
+    }
+    expect(model.weight).toBe(0);
+  });
+});
+
+describe('computeCoefficientPath', () => {
+  const ridge: Regularization = { type: 'l2', lambda: 0, l1Ratio: 0.5 };
+  const points = [-1, -0.5, 0, 0.5, 1].map((x) => ({ x, y: x - x * x }));
+  const basis = { type: 'polynomial' as const, size: 2, scale: 1 };
+
+  it('returns one entry per lambda in the order given', () => {
+    const lambdas = [0.01, 1, 0.1];
+    const path = computeCoefficientPath(points, basis, ridge, lambdas);
+    expect(path.map((p) => p.lambda)).toEqual(lambdas);
+    for (const p of path) expect(p.weights).toHaveLength(2);
+  });
+
+  it('has smaller total weight magnitude at larger lambda', () => {
+    const path = computeCoefficientPath(points, basis, ridge, [0.001, 1]);
+    const norm = (w: number[]) => w.reduce((a, b) => a + Math.abs(b), 0);
+    expect(norm(path[1].weights)).toBeLessThan(norm(path[0].weights));
+  });
+});
+
+describe('solveNormalEquation', () => {
+  it('recovers an exact line', () => {
+    const points = [0, 1, 2, 3].map((x) => ({ x, y: 2 * x + 1 }));
+    const solution = solveNormalEquation(points, LINEAR_BASIS);
+    expect(solution).not.toBeNull();
+    expect(solution!.weights[0]).toBeCloseTo(2, 10);
+    expect(solution!.bias).toBeCloseTo(1, 10);
+  });
+
+  it('matches where gradient descent converges', () => {
+    const points = [
+      { x: -1, y: 0.2 },
+      { x: -0.3, y: -0.4 },
+      { x: 0.4, y: 0.9 },
+      { x: 1, y: 0.5 },
+    ];
+    const solution = solveNormalEquation(points, LINEAR_BASIS)!;
+    const model = new LinearRegressionModel();
+    for (let i = 0; i < 3000; i++) model.trainStep(points, 0.1);
+    expect(model.weight).toBeCloseTo(solution.weights[0], 6);
+    expect(model.bias).toBeCloseTo(solution.bias, 6);
+  });
+
+  it('shrinks weights with a ridge term', () => {
+    const points = [0, 1, 2, 3].map((x) => ({ x, y: 2 * x + 1 }));
+    const ols = solveNormalEquation(points, LINEAR_BASIS)!;
+    const ridge = solveNormalEquation(points, LINEAR_BASIS, 0.5)!;
+    expect(Math.abs(ridge.weights[0])).toBeLessThan(Math.abs(ols.weights[0]));
+  });
+
+  it('returns null with fewer points than parameters', () => {
+    const basis = { type: 'polynomial' as const, size: 3, scale: 1 };
+    expect(solveNormalEquation([{ x: 1, y: 1 }], basis)).toBeNull();
+    expect(solveNormalEquation([], LINEAR_BASIS)).toBeNull();
+  });
+});
+
+describe('solveOptimum', () => {
+  const points = [0, 1, 2].map((x) => ({ x, y: x }));
+
+  it('has no closed form for L1 or elastic net', () => {
+    expect(
+      solveOptimum(points, LINEAR_BASIS, { type: 'l1', lambda: 0.1, l1Ratio: 0.5 }),
+    ).toBeNull();
+    expect(
+      solveOptimum(points, LINEAR_BASIS, { type: 'elasticnet', lambda: 0.1, l1Ratio: 0.5 }),
+    ).toBeNull();
+  });
+
+  it('solves the unpenalized and ridge problems', () => {
+    expect(solveOptimum(points, LINEAR_BASIS, NO_REGULARIZATION)).not.toBeNull();
+    expect(
+      solveOptimum(points, LINEAR_BASIS, { type: 'l2', lambda: 0.1, l1Ratio: 0.5 }),
+    ).not.toBeNull();
+  });
+});
+
+describe('robust losses', () => {
+  const huber = { type: 'huber' as const, delta: 1 };
+  const mae = { type: 'mae' as const, delta: 1 };
+
+  it('Huber is quadratic inside delta and linear outside', () => {
+    expect(residualLoss(0.5, huber)).toBeCloseTo(0.125, 10);
+    expect(residualLoss(3, huber)).toBeCloseTo(2.5, 10);
+    expect(residualLoss(-3, huber)).toBeCloseTo(2.5, 10);
+  });
+
+  it('Huber gradient is the residual clipped to delta', () => {
+    expect(residualGradient(0.5, huber)).toBe(0.5);
+    expect(residualGradient(4, huber)).toBe(1);
+    expect(residualGradient(-4, huber)).toBe(-1);
+  });
+
+  it('MAE loss and gradient follow |err| and sign(err)', () => {
+    expect(residualLoss(-2, mae)).toBe(2);
+    expect(residualGradient(-2, mae)).toBe(-1);
+    expect(residualGradient(0.1, mae)).toBe(1);
+  });
+
+  it('matches finite differences for every loss', () => {
+    const h = 1e-6;
+    for (const loss of [huber, mae, { type: 'mse' as const, delta: 1 }]) {
+      for (const err of [-2.3, -0.4, 0.7, 1.9]) {
+        const numeric = (residualLoss(err + h, loss) - residualLoss(err - h, loss)) / (2 * h);
+        expect(residualGradient(err, loss)).toBeCloseTo(numeric, 4);
+      }
+    }
+  });
+
+  it('an outlier pulls the MSE fit much further than the Huber fit', () => {
+    const points = [-1, -0.5, 0, 0.5, 1].map((x) => ({ x, y: x }));
+    points.push({ x: 0.8, y: -4 });
+    const mse = new LinearRegressionModel();
+    const robust = new LinearRegressionModel();
+    robust.loss = { type: 'huber', delta: 0.2 };
+    for (let i = 0; i < 4000; i++) {
+      mse.trainStep(points, 0.05);
+      robust.trainStep(points, 0.05);
+    }
+    expect(Math.abs(robust.weight - 1)).toBeLessThan(Math.abs(mse.weight - 1));
+  });
+});
+
+describe('mini-batch training', () => {
+  const points = [-1, -0.5, 0, 0.5, 1, 1.5].map((x) => ({ x, y: 2 * x }));
+
+  it('uses every point when batchSize is null', () => {
+    const model = new LinearRegressionModel();
+    model.trainStep(points, 0.1);
+    expect(model.lastBatch).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(model.lastSampleGradients).toHaveLength(6);
+  });
+
+  it('samples batchSize points per step', () => {
+    const model = new LinearRegressionModel();
+    model.batchSize = 2;
+    model.trainStep(points, 0.1);
+    expect(model.lastBatch).toHaveLength(2);
+    expect(model.lastSampleGradients).toHaveLength(2);
+  });
+
+  it('visits each point once per pass', () => {
+    const model = new LinearRegressionModel();
+    model.batchSize = 2;
+    const seen: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      model.trainStep(points, 0.01);
+      seen.push(...model.lastBatch);
+    }
+    expect([...seen].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('cycles in order when shuffle is off', () => {
+    const model = new LinearRegressionModel();
+    model.batchSize = 4;
+    model.shuffle = false;
+    model.trainStep(points, 0.01);
+    expect(model.lastBatch).toEqual([0, 1, 2, 3]);
+    model.trainStep(points, 0.01);
+    expect(model.lastBatch).toEqual([4, 5, 0, 1]);
+  });
+
+  it('sample gradients sum to the batch gradient', () => {
+    const model = new LinearRegressionModel(0.5, 0.2);
+    model.batchSize = 3;
+    model.shuffle = false;
+    model.trainStep(points, 0);
+    const dw = model.lastSampleGradients.reduce((a, g) => a + g.dw[0], 0);
+    const expected =
+      [0, 1, 2].reduce((a, i) => a + 2 * (0.5 * points[i].x + 0.2 - points[i].y) * points[i].x, 0) /
+      3;
+    expect(dw).toBeCloseTo(expected, 10);
+  });
+
+  it('still converges with SGD', () => {
+    const model = new LinearRegressionModel();
+    model.batchSize = 1;
+    for (let i = 0; i < 3000; i++) model.trainStep(points, 0.02);
+    expect(model.weight).toBeCloseTo(2, 1);
+  });
+});
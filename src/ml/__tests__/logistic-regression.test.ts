@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { LogisticRegressionModel, sigmoid } from '../logistic-regression';
+import type { Point2D } from '../types';
+
+const separable: Point2D[] = [
+  { x: -1, y: -0.5, label: 0 },
+  { x: -0.8, y: 0.2, label: 0 },
+  { x: -0.5, y: -1, label: 0 },
+  { x: 1, y: 0.5, label: 1 },
+  { x: 0.8, y: -0.2, label: 1 },
+  { x: 0.5, y: 1, label: 1 },
+];
+
+describe('sigmoid', () => {
+  it('is 0.5 at zero and symmetric', () => {
+    expect(sigmoid(0)).toBe(0.5);
+    expect(sigmoid(2) + sigmoid(-2)).toBeCloseTo(1, 10);
+  });
+
+  it('saturates for large inputs', () => {
+    expect(sigmoid(50)).toBeCloseTo(1, 10);
+    expect(sigmoid(-50)).toBeCloseTo(0, 10);
+  });
+});
+
+describe('LogisticRegressionModel', () => {
+  it('predicts 0.5 everywhere when untrained', () => {
+    const model = new LogisticRegressionModel();
+    expect(model.predictProba(1, -1)).toBe(0.5);
+    expect(model.computeLoss(separable)).toBeCloseTo(Math.log(2), 10);
+  });
+
+  it('computeLoss returns 0 for empty points', () => {
+    expect(new LogisticRegressionModel().computeLoss([])).toBe(0);
+  });
+
+  it('computeLoss stays finite for confident wrong predictions', () => {
+    const model = new LogisticRegressionModel(100, 0, 0);
+    const loss = model.computeLoss([{ x: 1, y: 0, label: 0 }]);
+    expect(Number.isFinite(loss)).toBe(true);
+    expect(loss).toBeGreaterThan(10);
+  });
+
+  it('trainStep decreases the loss', () => {
+    const model = new LogisticRegressionModel();
+    const before = model.computeLoss(separable);
+    const after = model.trainStep(separable, 0.5);
+    expect(after).toBeLessThan(before);
+  });
+
+  it('separates linearly separable classes', () => {
+    const model = new LogisticRegressionModel();
+    for (let i = 0; i < 300; i++) model.trainStep(separable, 0.5);
+    expect(model.computeAccuracy(separable)).toBe(1);
+    expect(model.predictProba(1, 1)).toBeGreaterThan(0.5);
+    expect(model.predictProba(-1, -1)).toBeLessThan(0.5);
+  });
+
+  it('treats unlabelled points as class 0', () => {
+    const model = new LogisticRegressionModel(0, 0, -1);
+    expect(model.computeAccuracy([{ x: 0, y: 0 }])).toBe(1);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCHEDULE, scheduledLearningRate, type LRSchedule } from '../lr-schedules';
+
+function schedule(overrides: Partial<LRSchedule>): LRSchedule {
+  return { ...DEFAULT_SCHEDULE, ...overrides };
+}
+
+describe('scheduledLearningRate', () => {
+  it('keeps a constant rate', () => {
+    for (const step of [0, 10, 1000]) {
+      expect(scheduledLearningRate(0.1, step, DEFAULT_SCHEDULE)).toBe(0.1);
+    }
+  });
+
+  it('drops by gamma every stepSize steps for step decay', () => {
+    const s = schedule({ type: 'step', stepSize: 10, gamma: 0.5 });
+    expect(scheduledLearningRate(0.1, 0, s)).toBe(0.1);
+    expect(scheduledLearningRate(0.1, 9, s)).toBe(0.1);
+    expect(scheduledLearningRate(0.1, 10, s)).toBeCloseTo(0.05);
+    expect(scheduledLearningRate(0.1, 25, s)).toBeCloseTo(0.025);
+  });
+
+  it('decays geometrically every step for exponential decay', () => {
+    const s = schedule({ type: 'exponential', decay: 0.9 });
+    expect(scheduledLearningRate(1, 1, s)).toBeCloseTo(0.9);
+    expect(scheduledLearningRate(1, 3, s)).toBeCloseTo(0.729);
+  });
+
+  it('anneals from the base rate to the floor over one cosine period', () => {
+    const s = schedule({ type: 'cosine', period: 100, minFactor: 0.1 });
+    expect(scheduledLearningRate(1, 0, s)).toBeCloseTo(1);
+    expect(scheduledLearningRate(1, 50, s)).toBeCloseTo(0.55);
+    expect(scheduledLearningRate(1, 100, s)).toBeCloseTo(0.1);
+    expect(scheduledLearningRate(1, 500, s)).toBeCloseTo(0.1);
+  });
+
+  it('restarts the cosine at the start of every period', () => {
+    const s = schedule({ type: 'cosine-restarts', period: 20 });
+    expect(scheduledLearningRate(1, 19, s)).toBeLessThan(0.01);
+    expect(scheduledLearningRate(1, 20, s)).toBeCloseTo(1);
+    expect(scheduledLearningRate(1, 30, s)).toBeCloseTo(scheduledLearningRate(1, 10, s));
+  });
+
+  it('ramps up linearly during warmup, then starts the schedule', () => {
+    const s = schedule({ type: 'step', stepSize: 5, gamma: 0.5, warmupSteps: 4 });
+    expect(scheduledLearningRate(0.2, 0, s)).toBeCloseTo(0.05);
+    expect(scheduledLearningRate(0.2, 3, s)).toBeCloseTo(0.2);
+    expect(scheduledLearningRate(0.2, 8, s)).toBeCloseTo(0.2);
+    expect(scheduledLearningRate(0.2, 9, s)).toBeCloseTo(0.1);
+  });
+});
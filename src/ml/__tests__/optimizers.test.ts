@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_OPTIMIZER, Optimizer, type OptimizerType } from '../optimizers';
+
+// f(x, y) = x² + 10y², an elongated bowl with its minimum at the origin
+const grad = ([x, y]: number[]) => [2 * x, 20 * y];
+const loss = ([x, y]: number[]) => x * x + 10 * y * y;
+const hessian = () => [
+  [2, 0],
+  [0, 20],
+];
+
+// f(x, y) = x² − y², a saddle at the origin
+const saddleGrad = ([x, y]: number[]) => [2 * x, -2 * y];
+const saddleHessian = () => [
+  [2, 0],
+  [0, -2],
+];
+
+function run(type: OptimizerType, lr: number, steps: number): number[] {
+  const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type });
+  let p = [1, 1];
+  for (let i = 0; i < steps; i++) p = optimizer.step(p, grad, lr, hessian);
+  return p;
+}
+
+describe('Optimizer', () => {
+  it('sgd takes a plain gradient step', () => {
+    const optimizer = new Optimizer();
+    expect(optimizer.step([1, 1], grad, 0.01)).toEqual([0.98, 0.8]);
+  });
+
+  it('momentum accumulates velocity across steps', () => {
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'momentum', momentum: 0.5 });
+    const constant = () => [1];
+    const first = optimizer.step([0], constant, 1);
+    const second = optimizer.step(first, constant, 1);
+    expect(first).toEqual([-1]);
+    // v = 0.5 · 1 + 1
+    expect(second).toEqual([-2.5]);
+  });
+
+  it('nesterov evaluates the gradient at the look-ahead point', () => {
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'nesterov', momentum: 0.9 });
+    const seen: number[][] = [];
+    const recording = (p: number[]) => {
+      seen.push([...p]);
+      return [1];
+    };
+    const p1 = optimizer.step([0], recording, 0.1);
+    optimizer.step(p1, recording, 0.1);
+    // Second call looks ahead by lr · momentum · v = 0.1 · 0.9 · 1
+    expect(seen[1][0]).toBeCloseTo(p1[0] - 0.09, 10);
+  });
+
+  it('adam takes steps of roughly the learning rate regardless of gradient scale', () => {
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'adam' });
+    const [x] = optimizer.step([0], () => [1000], 0.1);
+    expect(x).toBeCloseTo(-0.1, 6);
+  });
+
+  it('adagrad shrinks its step size as squared gradients accumulate', () => {
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'adagrad' });
+    const constant = () => [1];
+    const p1 = optimizer.step([0], constant, 1);
+    const p2 = optimizer.step(p1, constant, 1);
+    expect(Math.abs(p2[0] - p1[0])).toBeLessThan(Math.abs(p1[0]));
+  });
+
+  it.each<[OptimizerType, number]>([
+    ['sgd', 0.04],
+    ['momentum', 0.02],
+    ['nesterov', 0.02],
+    ['rmsprop', 0.01],
+    ['adam', 0.05],
+    ['adagrad', 0.3],
+    ['damped-newton', 0.5],
+    ['lbfgs', 0.5],
+  ])('%s reduces the loss on an elongated bowl', (type, lr) => {
+    const end = run(type, lr, 200);
+    expect(loss(end)).toBeLessThan(0.01 * loss([1, 1]));
+  });
+
+  it('reset clears the accumulated state', () => {
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'momentum' });
+    optimizer.step([1, 1], grad, 0.01);
+    optimizer.reset();
+    expect(optimizer.stepCount).toBe(0);
+    expect(optimizer.step([1, 1], grad, 0.01)).toEqual([0.98, 0.8]);
+  });
+
+  it('newton reaches the minimum of a quadratic in one step', () => {
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'newton' });
+    const [x, y] = optimizer.step([1, 1], grad, 0.01, hessian);
+    expect(x).toBeCloseTo(0, 10);
+    expect(y).toBeCloseTo(0, 10);
+  });
+
+  it('newton needs a Hessian', () => {
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'newton' });
+    expect(() => optimizer.step([1, 1], grad, 0.01)).toThrow('newton needs a Hessian');
+  });
+
+  it.each<OptimizerType>(['newton', 'damped-newton'])(
+    '%s falls back to a gradient step when the Hessian is singular',
+    (type) => {
+      const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type, damping: 0 });
+      const flat = () => [
+        [0, 0],
+        [0, 0],
+      ];
+      expect(optimizer.step([1, 1], grad, 0.01, flat)).toEqual([0.98, 0.8]);
+    },
+  );
+
+  it('newton jumps onto a saddle while damped newton moves away from it', () => {
+    const newton = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'newton' });
+    const [nx, ny] = newton.step([1, 0.5], saddleGrad, 0.1, saddleHessian);
+    expect(nx).toBeCloseTo(0, 10);
+    expect(ny).toBeCloseTo(0, 10);
+
+    const damped = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'damped-newton' });
+    const [, dy] = damped.step([1, 0.5], saddleGrad, 0.1, saddleHessian);
+    expect(Math.abs(dy)).toBeGreaterThan(0.5);
+  });
+
+  it('lbfgs is faster than sgd once it has curvature history', () => {
+    expect(loss(run('lbfgs', 1, 10))).toBeLessThan(loss(run('sgd', 0.09, 10)));
+  });
+
+  it('lbfgs first step has length learningRate', () => {
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'lbfgs' });
+    const [x, y] = optimizer.step([1, 1], grad, 0.1);
+    expect(Math.hypot(1 - x, 1 - y)).toBeCloseTo(0.1, 10);
+  });
+});
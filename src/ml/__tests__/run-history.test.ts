@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { parseRunFile, serializeRunFile, type RunFile } from '../run-history';
+import { DEFAULT_OPTIMIZER } from '../optimizers';
+import { DEFAULT_SCHEDULE } from '../lr-schedules';
+import { DEFAULT_NOISE } from '../gradient-descent';
+
+const file: RunFile = {
+  version: 1,
+  surface: { kind: 'builtin', type: 'bowl' },
+  start: [1, 1],
+  runs: [
+    {
+      name: 'SGD',
+      color: '#ef4444',
+      optimizer: DEFAULT_OPTIMIZER,
+      learningRate: 0.1,
+      schedule: DEFAULT_SCHEDULE,
+      noise: DEFAULT_NOISE,
+      path: [
+        [1, 1],
+        [0.8, 0.8],
+      ],
+      gradients: [
+        [2, 2],
+        [1.6, 1.6],
+      ],
+      losses: [2, 1.28],
+      learningRates: [0.1],
+      convergedAt: null,
+    },
+  ],
+};
+
+function withRun(overrides: Record<string, unknown>): string {
+  return JSON.stringify({ ...file, runs: [{ ...file.runs[0], ...overrides }] });
+}
+
+describe('run files', () => {
+  it('round-trips through JSON', () => {
+    expect(parseRunFile(serializeRunFile(file))).toEqual({ ok: true, file });
+  });
+
+  it('keeps expression surfaces as their source', () => {
+    const text = JSON.stringify({ ...file, surface: { kind: 'expression', source: 'x^2+y^2' } });
+    const result = parseRunFile(text);
+    expect(result.ok && result.file.surface).toEqual({ kind: 'expression', source: 'x^2+y^2' });
+  });
+
+  it('fills optimizer and schedule fields missing from the file with defaults', () => {
+    const result = parseRunFile(
+      withRun({ optimizer: { type: 'adam' }, schedule: { type: 'cosine' } }),
+    );
+    if (!result.ok) throw new Error(result.error);
+    expect(result.file.runs[0].optimizer).toEqual({ ...DEFAULT_OPTIMIZER, type: 'adam' });
+    expect(result.file.runs[0].schedule.period).toBe(DEFAULT_SCHEDULE.period);
+
+    const noiseless = parseRunFile(withRun({ noise: undefined }));
+    expect(noiseless.ok && noiseless.file.runs[0].noise).toEqual(DEFAULT_NOISE);
+  });
+
+  it('rejects text that is not a run file', () => {
+    expect(parseRunFile('not json')).toEqual({ ok: false, error: 'File is not valid JSON' });
+    expect(parseRunFile('{"version": 2}').ok).toBe(false);
+    expect(parseRunFile(JSON.stringify({ ...file, runs: [] }))).toEqual({
+      ok: false,
+      error: 'File contains no runs',
+    });
+  });
+
+  it('rejects unknown surfaces and optimizers', () => {
+    const surface = parseRunFile(
+      JSON.stringify({ ...file, surface: { kind: 'builtin', type: 'volcano' } }),
+    );
+    expect(surface).toEqual({ ok: false, error: "Unknown surface 'volcano'" });
+    expect(parseRunFile(withRun({ optimizer: { type: 'magic' } })).ok).toBe(false);
+    expect(parseRunFile(withRun({ optimizer: { type: 'toString' } })).ok).toBe(false);
+    expect(parseRunFile(withRun({ schedule: { type: 'constructor' } })).ok).toBe(false);
+    expect(parseRunFile(withRun({ noise: { type: '__proto__' } })).ok).toBe(false);
+  });
+
+  it('rejects config fields that are not finite numbers', () => {
+    expect(parseRunFile(withRun({ optimizer: { type: 'momentum', momentum: '0.9' } }))).toEqual({
+      ok: false,
+      error: 'runs[0].optimizer.momentum must be a finite number',
+    });
+    expect(parseRunFile(withRun({ schedule: { type: 'step', gamma: null } })).ok).toBe(false);
+    expect(parseRunFile(withRun({ noise: { type: 'gaussian', variance: null } })).ok).toBe(false);
+  });
+
+  it('rejects config fields outside their allowed range', () => {
+    expect(parseRunFile(withRun({ schedule: { type: 'cosine', period: 0 } }))).toEqual({
+      ok: false,
+      error: 'runs[0].schedule.period must be a positive integer',
+    });
+    expect(parseRunFile(withRun({ schedule: { type: 'step', stepSize: 2.5 } }))).toEqual({
+      ok: false,
+      error: 'runs[0].schedule.stepSize must be a positive integer',
+    });
+    expect(parseRunFile(withRun({ optimizer: { type: 'lbfgs', historySize: 0 } }))).toEqual({
+      ok: false,
+      error: 'runs[0].optimizer.historySize must be a positive integer',
+    });
+    expect(parseRunFile(withRun({ optimizer: { type: 'adam', epsilon: -1e-8 } }))).toEqual({
+      ok: false,
+      error: 'runs[0].optimizer.epsilon must be a positive number',
+    });
+    expect(parseRunFile(withRun({ schedule: { type: 'constant', warmupSteps: -1 } }))).toEqual({
+      ok: false,
+      error: 'runs[0].schedule.warmupSteps must be a non-negative integer',
+    });
+    expect(parseRunFile(withRun({ noise: { type: 'minibatch', batchSize: 0.5 } }))).toEqual({
+      ok: false,
+      error: 'runs[0].noise.batchSize must be a positive integer',
+    });
+    expect(parseRunFile(withRun({ noise: { type: 'gaussian', variance: -1 } })).ok).toBe(false);
+    expect(parseRunFile(withRun({ schedule: { type: 'cosine', minFactor: 0 } })).ok).toBe(true);
+  });
+
+  it('rejects histories whose arrays disagree in length', () => {
+    const result = parseRunFile(withRun({ losses: [2] }));
+    expect(result).toEqual({
+      ok: false,
+      error: 'runs[0] needs one gradient and loss per path point',
+    });
+    expect(parseRunFile(withRun({ learningRates: [] })).ok).toBe(false);
+  });
+
+  it('names the field holding a bad value', () => {
+    const result = parseRunFile(
+      withRun({
+        path: [
+          [1, 1],
+          [0.8, 'a'],
+        ],
+      }),
+    );
+    expect(result).toEqual({ ok: false, error: 'runs[0].path[1][1] must be a finite number' });
+  });
+});
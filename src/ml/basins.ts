@@ -0,0 +1,152 @@
+import {
+  clipGradient,
+  computeGradient,
+  computeHessian,
+  CONVERGENCE_TOLERANCE,
+  createGradientSampler,
+  getSurfaceInfo,
+  isExpressionSurface,
+  MINIMUM_TOLERANCE,
+  type GradientNoise,
+  type Surface,
+  type SurfaceType,
+} from './gradient-descent';
+import { compileExpression } from './expression';
+import { clipsGradient, Optimizer, type HessianFn, type OptimizerConfig } from './optimizers';
+import { scheduledLearningRate, type LRSchedule } from './lr-schedules';
+
+/** Outcome codes for starts that did not settle on an attractor. */
+export const DIVERGED = -1;
+export const UNCONVERGED = -2;
+
+/**
+ * Structured-cloneable description of a surface. Expression surfaces hold closures, so they
+ * cross to a worker as their source and are recompiled there.
+ */
+export type SurfaceSpec =
+  | { kind: 'builtin'; type: SurfaceType }
+  | { kind: 'expression'; source: string };
+
+export function toSurfaceSpec(surface: Surface): SurfaceSpec {
+  return isExpressionSurface(surface)
+    ? { kind: 'expression', source: surface.source }
+    : { kind: 'builtin', type: surface };
+}
+
+export function resolveSurfaceSpec(spec: SurfaceSpec): Surface {
+  if (spec.kind === 'builtin') return spec.type;
+  const result = compileExpression(spec.source);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.surface;
+}
+
+export interface BasinRequest {
+  surface: SurfaceSpec;
+  optimizer: OptimizerConfig;
+  learningRate: number;
+  schedule: LRSchedule;
+  /** Every start draws noisy gradients from a fresh sampler, as a runner restarted there would. */
+  noise: GradientNoise;
+  /** Starts per side; the map has resolution² cells. */
+  resolution: number;
+  maxSteps: number;
+}
+
+export interface BasinMap {
+  resolution: number;
+  range: number;
+  /**
+   * Points runs settled on: the surface's known minima first, then any other stationary points
+   * found, such as local minima.
+   */
+  attractors: [number, number][];
+  /** Per cell, an index into `attractors`, or DIVERGED / UNCONVERGED. Row-major from (-range, -range). */
+  outcomes: Int16Array;
+  /** Steps each start took to converge or produce a non-finite value; maxSteps otherwise. */
+  steps: Uint16Array;
+}
+
+/** Index of the attractor within tolerance of `p`, adding a new one if there is none. */
+function matchAttractor(p: [number, number], attractors: [number, number][]): number {
+  for (let i = 0; i < attractors.length; i++) {
+    if (Math.hypot(p[0] - attractors[i][0], p[1] - attractors[i][1]) <= MINIMUM_TOLERANCE) {
+      return i;
+    }
+  }
+  attractors.push(p);
+  return attractors.length - 1;
+}
+
+/** Whether `p` sits on the boundary of the square [-range, range]². */
+function onEdge([x, y]: number[], range: number): boolean {
+  return Math.abs(x) >= range || Math.abs(y) >= range;
+}
+
+/**
+ * Start the optimizer from the centre of every cell of a grid over the surface's range and record
+ * where each run ends up. Positions are clamped to the range after every step, as the live runners
+ * are, so a run that overshoots the edge can still come back and converge. A run diverges when it
+ * produces a non-finite value, or when it runs out of steps pinned against the edge.
+ */
+export function computeBasins(
+  request: BasinRequest,
+  onProgress?: (fraction: number) => void,
+): BasinMap {
+  const { resolution: n, maxSteps, learningRate, schedule } = request;
+  const surface = resolveSurfaceSpec(request.surface);
+  const { range, minima } = getSurfaceInfo(surface);
+  const attractors = minima.map(([x, y]): [number, number] => [x, y]);
+  const outcomes = new Int16Array(n * n);
+  const steps = new Uint16Array(n * n);
+
+  const optimizer = new Optimizer(request.optimizer);
+  let sampler = createGradientSampler(request.noise);
+  const gradFn = clipsGradient(request.optimizer.type)
+    ? ([x, y]: number[]) => clipGradient(sampler(x, y, surface))
+    : ([x, y]: number[]) => sampler(x, y, surface);
+  const hessianFn: HessianFn = ([x, y]) => {
+    const { xx, xy, yy } = computeHessian(x, y, surface);
+    return [
+      [xx, xy],
+      [xy, yy],
+    ];
+  };
+  const cell = (2 * range) / n;
+
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      optimizer.reset();
+      sampler = createGradientSampler(request.noise);
+      let p = [-range + (col + 0.5) * cell, -range + (row + 0.5) * cell];
+      let outcome = UNCONVERGED;
+      let t = 0;
+      while (t < maxSteps) {
+        const [nx, ny] = optimizer.step(
+          p,
+          gradFn,
+          scheduledLearningRate(learningRate, t, schedule),
+          hessianFn,
+        );
+        t++;
+        if (!Number.isFinite(nx) || !Number.isFinite(ny)) {
+          outcome = DIVERGED;
+          break;
+        }
+        const x = Math.max(-range, Math.min(range, nx));
+        const y = Math.max(-range, Math.min(range, ny));
+        p = [x, y];
+        const [gx, gy] = computeGradient(x, y, surface);
+        if (Math.hypot(gx, gy) < CONVERGENCE_TOLERANCE) {
+          outcome = matchAttractor([x, y], attractors);
+          break;
+        }
+      }
+      if (outcome === UNCONVERGED && onEdge(p, range)) outcome = DIVERGED;
+      outcomes[row * n + col] = outcome;
+      steps[row * n + col] = t;
+    }
+    onProgress?.((row + 1) / n);
+  }
+
+  return { resolution: n, range, attractors, outcomes, steps };
+}
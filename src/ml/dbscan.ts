@@ -0,0 +1,62 @@
+import type { Point2D } from './types';
+
+/**
+ * - `core`: at least minPts points (itself included) within eps
+ * - `border`: not core, but within eps of a core point
+ * - `noise`: neither; left unclustered
+ */
+export type PointKind = 'core' | 'border' | 'noise';
+
+export interface DBSCANResult {
+  /** Cluster index per point, or -1 for noise. */
+  labels: number[];
+  kinds: PointKind[];
+  numClusters: number;
+}
+
+export const NOISE = -1;
+
+function regionQuery(points: Point2D[], index: number, eps: number): number[] {
+  const p = points[index];
+  const eps2 = eps * eps;
+  const neighbors: number[] = [];
+  for (let j = 0; j < points.length; j++) {
+    const dx = points[j].x - p.x;
+    const dy = points[j].y - p.y;
+    if (dx * dx + dy * dy <= eps2) neighbors.push(j);
+  }
+  return neighbors;
+}
+
+/** Density-based clustering: grow clusters outward from core points. */
+export function dbscan(points: Point2D[], eps: number, minPts: number): DBSCANResult {
+  const n = points.length;
+  const neighborhoods = points.map((_, i) => regionQuery(points, i, eps));
+  const isCore = neighborhoods.map((nb) => nb.length >= minPts);
+  const labels = new Array<number>(n).fill(NOISE);
+  let numClusters = 0;
+
+  for (let i = 0; i < n; i++) {
+    if (!isCore[i] || labels[i] !== NOISE) continue;
+    const cluster = numClusters++;
+    labels[i] = cluster;
+    const queue = [i];
+    while (queue.length > 0) {
+      const current = queue.pop()!;
+      // Border points join the cluster but do not expand it
+      if (!isCore[current]) continue;
+      for (const j of neighborhoods[current]) {
+        if (labels[j] === NOISE) {
+          labels[j] = cluster;
+          queue.push(j);
+        }
+      }
+    }
+  }
+
+  const kinds = labels.map<PointKind>((label, i) => {
+    if (isCore[i]) return 'core';
+    return label === NOISE ? 'noise' : 'border';
+  });
+  return { labels, kinds, numClusters };
+}
@@ -0,0 +1,365 @@
+/**
+ * Parser and evaluator for user-typed surfaces such as `sin(x)*cos(y) + 0.1*(x^2+y^2)`.
+ * Expressions are parsed into a small syntax tree — nothing is passed to `eval` — and
+ * gradients come from forward-mode automatic differentiation over that tree.
+ */
+
+const FUNCTIONS = ['sin', 'cos', 'tan', 'tanh', 'exp', 'log', 'sqrt', 'abs'] as const;
+type FunctionName = (typeof FUNCTIONS)[number];
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export type ExprNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: 'x' | 'y' }
+  | { kind: 'negate'; arg: ExprNode }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExprNode; right: ExprNode }
+  | { kind: 'call'; fn: FunctionName; arg: ExprNode };
+
+/** A parse failure and the character offset it was found at. */
+export interface ExpressionError {
+  message: string;
+  position: number;
+}
+
+export type ParseResult = { ok: true; ast: ExprNode } | { ok: false; error: ExpressionError };
+
+/** A parsed expression usable anywhere a built-in surface is. */
+export interface ExpressionSurface {
+  source: string;
+  evaluate: (x: number, y: number) => number;
+  gradient: (x: number, y: number) => [number, number];
+}
+
+export type CompileResult =
+  | { ok: true; surface: ExpressionSurface }
+  | { ok: false; error: ExpressionError };
+
+interface Token {
+  type: 'number' | 'name' | 'op' | 'lparen' | 'rparen' | 'end';
+  text: string;
+  position: number;
+}
+
+class ParseError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new ParseError(`Malformed number at position ${i}`, i);
+      tokens.push({ type: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (/[a-zA-Z_]/.test(ch)) {
+      const match = /^[a-zA-Z_]\w*/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', text: match[0], position: i });
+      i += match[0].length;
+    } else if ('+-*/^'.includes(ch)) {
+      tokens.push({ type: 'op', text: ch, position: i });
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', text: ch, position: i });
+      i++;
+    } else {
+      throw new ParseError(`Unexpected character '${ch}' at position ${i}`, i);
+    }
+  }
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser. Precedence from loosest to tightest: `+ -`, `* /`, unary minus,
+ * then `^`, which is right-associative so `-x^2` is `-(x^2)` and `2^3^2` is `2^(3^2)`.
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  parse(): ExprNode {
+    if (this.current.type === 'end') throw new ParseError('Expression is empty', 0);
+    const node = this.parseSum();
+    const tok = this.current;
+    if (tok.type === 'rparen') {
+      throw new ParseError(`Unmatched ')' at position ${tok.position}`, tok.position);
+    }
+    if (tok.type !== 'end') {
+      throw new ParseError(
+        `Expected an operator at position ${tok.position} — use * for multiplication`,
+        tok.position,
+      );
+    }
+    return node;
+  }
+
+  private parseSum(): ExprNode {
+    let left = this.parseProduct();
+    while (this.current.type === 'op' && (this.current.text === '+' || this.current.text === '-')) {
+      const op = this.current.text as '+' | '-';
+      this.index++;
+      left = { kind: 'binary', op, left, right: this.parseProduct() };
+    }
+    return left;
+  }
+
+  private parseProduct(): ExprNode {
+    let left = this.parseUnary();
+    while (this.current.type === 'op' && (this.current.text === '*' || this.current.text === '/')) {
+      const op = this.current.text as '*' | '/';
+      this.index++;
+      left = { kind: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExprNode {
+    if (this.current.type === 'op' && (this.current.text === '-' || this.current.text === '+')) {
+      const negate = this.current.text === '-';
+      this.index++;
+      const arg = this.parseUnary();
+      return negate ? { kind: 'negate', arg } : arg;
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExprNode {
+    const base = this.parseAtom();
+    if (this.current.type === 'op' && this.current.text === '^') {
+      this.index++;
+      return { kind: 'binary', op: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parseAtom(): ExprNode {
+    const tok = this.current;
+    switch (tok.type) {
+      case 'number':
+        this.index++;
+        return { kind: 'number', value: Number(tok.text) };
+      case 'lparen': {
+        this.index++;
+        const inner = this.parseSum();
+        this.expectClosing(tok.position);
+        return inner;
+      }
+      case 'name':
+        this.index++;
+        return this.parseName(tok);
+      case 'end':
+        throw new ParseError('Unexpected end of expression', tok.position);
+      default:
+        throw new ParseError(
+          `Expected a number, variable or '(' at position ${tok.position}`,
+          tok.position,
+        );
+    }
+  }
+
+  private parseName(tok: Token): ExprNode {
+    const name = tok.text.toLowerCase();
+    if (name === 'x' || name === 'y') return { kind: 'variable', name };
+    if (Object.hasOwn(CONSTANTS, name)) return { kind: 'number', value: CONSTANTS[name] };
+    if ((FUNCTIONS as readonly string[]).includes(name)) {
+      const open = this.current;
+      if (open.type !== 'lparen') {
+        throw new ParseError(
+          `Expected '(' after ${name} at position ${open.position}`,
+          open.position,
+        );
+      }
+      this.index++;
+      const arg = this.parseSum();
+      this.expectClosing(open.position);
+      return { kind: 'call', fn: name as FunctionName, arg };
+    }
+    if (this.current.type === 'lparen') {
+      throw new ParseError(
+        `Unknown function '${tok.text}' at position ${tok.position} — try ${FUNCTIONS.join(', ')}`,
+        tok.position,
+      );
+    }
+    throw new ParseError(
+      `Unknown variable '${tok.text}' at position ${tok.position} — only x and y are allowed`,
+      tok.position,
+    );
+  }
+
+  private expectClosing(openPosition: number) {
+    if (this.current.type !== 'rparen') {
+      throw new ParseError(
+        `Missing ')' for the '(' at position ${openPosition}`,
+        this.current.position,
+      );
+    }
+    this.index++;
+  }
+}
+
+export function parseExpression(source: string): ParseResult {
+  try {
+    return { ok: true, ast: new Parser(tokenize(source)).parse() };
+  } catch (err) {
+    if (err instanceof ParseError) {
+      return { ok: false, error: { message: err.message, position: err.position } };
+    }
+    throw err;
+  }
+}
+
+function applyFunction(fn: FunctionName, u: number): number {
+  switch (fn) {
+    case 'sin':
+      return Math.sin(u);
+    case 'cos':
+      return Math.cos(u);
+    case 'tan':
+      return Math.tan(u);
+    case 'tanh':
+      return Math.tanh(u);
+    case 'exp':
+      return Math.exp(u);
+    case 'log':
+      return Math.log(u);
+    case 'sqrt':
+      return Math.sqrt(u);
+    case 'abs':
+      return Math.abs(u);
+  }
+}
+
+/** Derivative of `fn` at `u`, given the function value `fu` already computed there. */
+function functionDerivative(fn: FunctionName, u: number, fu: number): number {
+  switch (fn) {
+    case 'sin':
+      return Math.cos(u);
+    case 'cos':
+      return -Math.sin(u);
+    case 'tan':
+      return 1 + fu * fu;
+    case 'tanh':
+      return 1 - fu * fu;
+    case 'exp':
+      return fu;
+    case 'log':
+      return 1 / u;
+    case 'sqrt':
+      return 0.5 / fu;
+    case 'abs':
+      return Math.sign(u);
+  }
+}
+
+export function evaluateExpression(node: ExprNode, x: number, y: number): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return node.name === 'x' ? x : y;
+    case 'negate':
+      return -evaluateExpression(node.arg, x, y);
+    case 'call':
+      return applyFunction(node.fn, evaluateExpression(node.arg, x, y));
+    case 'binary': {
+      const a = evaluateExpression(node.left, x, y);
+      const b = evaluateExpression(node.right, x, y);
+      switch (node.op) {
+        case '+':
+          return a + b;
+        case '-':
+          return a - b;
+        case '*':
+          return a * b;
+        case '/':
+          return a / b;
+        case '^':
+          return a ** b;
+      }
+    }
+  }
+}
+
+/** Value and partial derivatives with respect to x and y. */
+type Dual = [value: number, dx: number, dy: number];
+
+/** Forward-mode automatic differentiation: carry both partials alongside every value. */
+export function differentiateExpression(node: ExprNode, x: number, y: number): Dual {
+  switch (node.kind) {
+    case 'number':
+      return [node.value, 0, 0];
+    case 'variable':
+      return node.name === 'x' ? [x, 1, 0] : [y, 0, 1];
+    case 'negate': {
+      const [v, dx, dy] = differentiateExpression(node.arg, x, y);
+      return [-v, -dx, -dy];
+    }
+    case 'call': {
+      const [u, dx, dy] = differentiateExpression(node.arg, x, y);
+      const fu = applyFunction(node.fn, u);
+      const d = functionDerivative(node.fn, u, fu);
+      return [fu, d * dx, d * dy];
+    }
+    case 'binary': {
+      const [a, adx, ady] = differentiateExpression(node.left, x, y);
+      const [b, bdx, bdy] = differentiateExpression(node.right, x, y);
+      switch (node.op) {
+        case '+':
+          return [a + b, adx + bdx, ady + bdy];
+        case '-':
+          return [a - b, adx - bdx, ady - bdy];
+        case '*':
+          return [a * b, adx * b + a * bdx, ady * b + a * bdy];
+        case '/':
+          return [a / b, (adx * b - a * bdx) / (b * b), (ady * b - a * bdy) / (b * b)];
+        case '^': {
+          const v = a ** b;
+          // Constant exponents use the power rule, which also works for negative bases
+          if (bdx === 0 && bdy === 0) {
+            const d = b * a ** (b - 1);
+            return [v, d * adx, d * ady];
+          }
+          const logA = Math.log(a);
+          return [v, v * (bdx * logA + (b * adx) / a), v * (bdy * logA + (b * ady) / a)];
+        }
+      }
+    }
+  }
+}
+
+export function compileExpression(source: string): CompileResult {
+  const parsed = parseExpression(source);
+  if (!parsed.ok) return parsed;
+  const { ast } = parsed;
+  return {
+    ok: true,
+    surface: {
+      source,
+      evaluate: (x, y) => evaluateExpression(ast, x, y),
+      gradient: (x, y) => {
+        const [, dx, dy] = differentiateExpression(ast, x, y);
+        // Undefined derivatives (e.g. sqrt at 0) leave the optimizer where it is
+        return [Number.isFinite(dx) ? dx : 0, Number.isFinite(dy) ? dy : 0];
+      },
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/** Derived inputs that can be fed to the network in place of, or alongside, the raw coordinates. */
+export type InputFeature = 'x' | 'y' | 'x2' | 'y2' | 'xy' | 'sinx' | 'siny';
+
+export interface FeatureInfo {
+  id: InputFeature;
+  label: string;
+  compute: (x: number, y: number) => number;
+}
+
+/** Every feature, in the order they are fed to the network. */
+export const INPUT_FEATURES: FeatureInfo[] = [
+  { id: 'x', label: 'x', compute: (x) => x },
+  { id: 'y', label: 'y', compute: (_, y) => y },
+  { id: 'x2', label: 'x²', compute: (x) => x * x },
+  { id: 'y2', label: 'y²', compute: (_, y) => y * y },
+  { id: 'xy', label: 'xy', compute: (x, y) => x * y },
+  { id: 'sinx', label: 'sin x', compute: (x) => Math.sin(x) },
+  { id: 'siny', label: 'sin y', compute: (_, y) => Math.sin(y) },
+];
+
+export const RAW_FEATURES: InputFeature[] = ['x', 'y'];
+
+/** The enabled features in network input order, whatever order they were enabled in. */
+export function orderedFeatures(features: InputFeature[]): FeatureInfo[] {
+  return INPUT_FEATURES.filter((f) => features.includes(f.id));
+}
+
+/** A transform from a point to the network's input vector for the enabled features. */
+export function featureTransform(features: InputFeature[]): (x: number, y: number) => number[] {
+  const enabled = orderedFeatures(features);
+  return (x, y) => enabled.map((f) => f.compute(x, y));
+}
@@ -0,0 +1,161 @@
+import type { Point2D } from './types';
+import { KMeansAlgorithm } from './kmeans';
+
+/** Symmetric 2×2 covariance matrix [[xx, xy], [xy, yy]]. */
+export interface Covariance2D {
+  xx: number;
+  xy: number;
+  yy: number;
+}
+
+export interface GaussianComponent {
+  mean: Point2D;
+  cov: Covariance2D;
+  /** Mixing weight; the weights of all components sum to 1. */
+  weight: number;
+}
+
+/** Semi-axes (in standard deviations) and rotation of a covariance ellipse. */
+export interface CovarianceEllipse {
+  rx: number;
+  ry: number;
+  angle: number;
+}
+
+// Added to each variance so a component cannot collapse onto a single point
+const COVARIANCE_FLOOR = 1e-4;
+const LOG_LIKELIHOOD_TOLERANCE = 1e-6;
+
+/** Density of a 2D Gaussian at `p`. */
+export function gaussianPdf(p: Point2D, mean: Point2D, cov: Covariance2D): number {
+  const det = cov.xx * cov.yy - cov.xy * cov.xy;
+  if (det <= 0) return 0;
+  const dx = p.x - mean.x;
+  const dy = p.y - mean.y;
+  // Mahalanobis distance using the closed-form 2×2 inverse
+  const m = (cov.yy * dx * dx - 2 * cov.xy * dx * dy + cov.xx * dy * dy) / det;
+  return Math.exp(-0.5 * m) / (2 * Math.PI * Math.sqrt(det));
+}
+
+/** Eigen-decomposition of a covariance matrix, for drawing it as an ellipse. */
+export function covarianceEllipse(cov: Covariance2D): CovarianceEllipse {
+  const trace = cov.xx + cov.yy;
+  const diff = Math.sqrt(((cov.xx - cov.yy) / 2) ** 2 + cov.xy ** 2);
+  const l1 = trace / 2 + diff;
+  const l2 = trace / 2 - diff;
+  return {
+    rx: Math.sqrt(Math.max(l1, 0)),
+    ry: Math.sqrt(Math.max(l2, 0)),
+    angle: 0.5 * Math.atan2(2 * cov.xy, cov.xx - cov.yy),
+  };
+}
+
+/** Gaussian mixture with full covariances, fitted by expectation–maximization. */
+export class GaussianMixtureModel {
+  k: number;
+  components: GaussianComponent[];
+  private random: () => number;
+  private lastLogLikelihood = -Infinity;
+
+  constructor(k: number, random: () => number = Math.random) {
+    this.k = k;
+    this.components = [];
+    this.random = random;
+  }
+
+  /** Start from k-means++ means, each with the covariance of the whole dataset and equal weight. */
+  initialize(points: Point2D[]): void {
+    const seeder = new KMeansAlgorithm(this.k, 'kmeans++', this.random);
+    seeder.initialize(points);
+    const n = points.length;
+    const mx = points.reduce((s, p) => s + p.x, 0) / n;
+    const my = points.reduce((s, p) => s + p.y, 0) / n;
+    const cov = { xx: COVARIANCE_FLOOR, xy: 0, yy: COVARIANCE_FLOOR };
+    for (const p of points) {
+      cov.xx += (p.x - mx) ** 2 / n;
+      cov.xy += ((p.x - mx) * (p.y - my)) / n;
+      cov.yy += (p.y - my) ** 2 / n;
+    }
+    this.components = seeder.centroids.map((mean) => ({
+      mean,
+      cov: { ...cov },
+      weight: 1 / seeder.centroids.length,
+    }));
+    this.lastLogLikelihood = -Infinity;
+  }
+
+  /** E-step: posterior probability of each component for each point. */
+  eStep(points: Point2D[]): number[][] {
+    return points.map((p) => {
+      const densities = this.components.map((c) => c.weight * gaussianPdf(p, c.mean, c.cov));
+      const total = densities.reduce((a, b) => a + b, 0);
+      // A point far from every component would otherwise divide by zero
+      if (total === 0) return this.components.map(() => 1 / this.components.length);
+      return densities.map((d) => d / total);
+    });
+  }
+
+  /** M-step: re-estimate weights, means and covariances from the responsibilities. */
+  mStep(points: Point2D[], responsibilities: number[][]): void {
+    const n = points.length;
+    this.components = this.components.map((prev, c) => {
+      let nk = 0;
+      let mx = 0;
+      let my = 0;
+      for (let i = 0; i < n; i++) {
+        const r = responsibilities[i][c];
+        nk += r;
+        mx += r * points[i].x;
+        my += r * points[i].y;
+      }
+      // A component that owns no points keeps its previous parameters
+      if (nk < 1e-10) return prev;
+      mx /= nk;
+      my /= nk;
+      const cov = { xx: COVARIANCE_FLOOR, xy: 0, yy: COVARIANCE_FLOOR };
+      for (let i = 0; i < n; i++) {
+        const r = responsibilities[i][c];
+        const dx = points[i].x - mx;
+        const dy = points[i].y - my;
+        cov.xx += (r * dx * dx) / nk;
+        cov.xy += (r * dx * dy) / nk;
+        cov.yy += (r * dy * dy) / nk;
+      }
+      return { mean: { x: mx, y: my }, cov, weight: nk / n };
+    });
+  }
+
+  /** Mean log-likelihood of the points under the current mixture. */
+  logLikelihood(points: Point2D[]): number {
+    if (points.length === 0) return 0;
+    let sum = 0;
+    for (const p of points) {
+      let density = 0;
+      for (const c of this.components) density += c.weight * gaussianPdf(p, c.mean, c.cov);
+      sum += Math.log(Math.max(density, 1e-300));
+    }
+    return sum / points.length;
+  }
+
+  /** One EM iteration. Responsibilities are recomputed for the updated components. */
+  step(points: Point2D[]): {
+    components: GaussianComponent[];
+    responsibilities: number[][];
+    logLikelihood: number;
+    converged: boolean;
+  } {
+    if (this.components.length === 0) {
+      this.initialize(points);
+    }
+    this.mStep(points, this.eStep(points));
+    const logLikelihood = this.logLikelihood(points);
+    const converged = Math.abs(logLikelihood - this.lastLogLikelihood) < LOG_LIKELIHOOD_TOLERANCE;
+    this.lastLogLikelihood = logLikelihood;
+    return {
+      components: this.components,
+      responsibilities: this.eStep(points),
+      logLikelihood,
+      converged,
+    };
+  }
+}
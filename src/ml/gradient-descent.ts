@@ -1,6 +1,89 @@
-export type SurfaceType = 'bowl' | 'saddle' | 'rosenbrock' | 'beale';
+import type { ExpressionSurface } from './expression';
+import { createRng, randomGaussian } from '../utils/math-utils';
 
-export function evaluateSurface(x: number, y: number, surfaceType: SurfaceType): number {
+export type SurfaceType =
+  | 'bowl'
+  | 'saddle'
+  | 'rosenbrock'
+  | 'beale'
+  | 'himmelblau'
+  | 'rastrigin'
+  | 'ackley'
+  | 'styblinski-tang'
+  | 'booth'
+  | 'six-hump-camel';
+
+/** A built-in surface or one compiled from a user-typed expression. */
+export type Surface = SurfaceType | ExpressionSurface;
+
+export function isExpressionSurface(surface: Surface): surface is ExpressionSurface {
+  return typeof surface !== 'string';
+}
+
+export interface SurfaceInfo {
+  /** Half-width of the square view, so x and y both span [-range, range]. */
+  range: number;
+  /** Values above this are flattened when drawing, so steep walls do not hide the basin. */
+  zClip: number;
+  /** Known global minima. */
+  minima: [number, number][];
+}
+
+export const SURFACE_INFO: Record<SurfaceType, SurfaceInfo> = {
+  bowl: { range: 3, zClip: 20, minima: [[0, 0]] },
+  saddle: { range: 3, zClip: 20, minima: [] },
+  rosenbrock: { range: 3, zClip: 20, minima: [[1, 1]] },
+  beale: { range: 4.5, zClip: 50, minima: [[3, 0.5]] },
+  himmelblau: {
+    range: 5,
+    zClip: 200,
+    minima: [
+      [3, 2],
+      [-2.805118, 3.131312],
+      [-3.77931, -3.283186],
+      [3.584428, -1.848126],
+    ],
+  },
+  rastrigin: { range: 5.12, zClip: 80, minima: [[0, 0]] },
+  ackley: { range: 5, zClip: 15, minima: [[0, 0]] },
+  'styblinski-tang': { range: 5, zClip: 100, minima: [[-2.903534, -2.903534]] },
+  booth: { range: 5, zClip: 200, minima: [[1, 3]] },
+  'six-hump-camel': {
+    range: 2,
+    zClip: 8,
+    minima: [
+      [0.0898, -0.7126],
+      [-0.0898, 0.7126],
+    ],
+  },
+};
+
+const EXPRESSION_INFO: SurfaceInfo = { range: 3, zClip: 20, minima: [] };
+
+export function getSurfaceInfo(surface: Surface): SurfaceInfo {
+  return isExpressionSurface(surface) ? EXPRESSION_INFO : SURFACE_INFO[surface];
+}
+
+/** Index of the closest known minimum and the distance to it, or null if none are known. */
+export function nearestMinimum(
+  [x, y]: [number, number],
+  minima: [number, number][],
+): { index: number; distance: number } | null {
+  if (minima.length === 0) return null;
+  let index = 0;
+  let distance = Infinity;
+  for (let i = 0; i < minima.length; i++) {
+    const d = Math.hypot(x - minima[i][0], y - minima[i][1]);
+    if (d < distance) {
+      index = i;
+      distance = d;
+    }
+  }
+  return { index, distance };
+}
+
+export function evaluateSurface(x: number, y: number, surfaceType: Surface): number {
+  if (isExpressionSurface(surfaceType)) return surfaceType.evaluate(x, y);
   switch (surfaceType) {
     case 'bowl':
       return x * x + y * y;
@@ -14,10 +97,26 @@ export function evaluateSurface(x: number, y: number, surfaceType: SurfaceType):
       const c = (2.625 - x + x * y * y * y) ** 2;
       return a + b + c;
     }
+    case 'himmelblau':
+      return (x * x + y - 11) ** 2 + (x + y * y - 7) ** 2;
+    case 'rastrigin':
+      return 20 + x * x - 10 * Math.cos(2 * Math.PI * x) + y * y - 10 * Math.cos(2 * Math.PI * y);
+    case 'ackley': {
+      const r = Math.sqrt(0.5 * (x * x + y * y));
+      const c = 0.5 * (Math.cos(2 * Math.PI * x) + Math.cos(2 * Math.PI * y));
+      return -20 * Math.exp(-0.2 * r) - Math.exp(c) + Math.E + 20;
+    }
+    case 'styblinski-tang':
+      return 0.5 * (x ** 4 - 16 * x * x + 5 * x + y ** 4 - 16 * y * y + 5 * y);
+    case 'booth':
+      return (x + 2 * y - 7) ** 2 + (2 * x + y - 5) ** 2;
+    case 'six-hump-camel':
+      return (4 - 2.1 * x * x + x ** 4 / 3) * x * x + x * y + (-4 + 4 * y * y) * y * y;
   }
 }
 
-export function computeGradient(x: number, y: number, surfaceType: SurfaceType): [number, number] {
+export function computeGradient(x: number, y: number, surfaceType: Surface): [number, number] {
+  if (isExpressionSurface(surfaceType)) return surfaceType.gradient(x, y);
   switch (surfaceType) {
     case 'bowl':
       return [2 * x, 2 * y];
@@ -33,22 +132,229 @@ export function computeGradient(x: number, y: number, surfaceType: SurfaceType):
         (evaluateSurface(x, y + h, surfaceType) - evaluateSurface(x, y - h, surfaceType)) / (2 * h);
       return [dfdx, dfdy];
     }
+    case 'himmelblau': {
+      const a = x * x + y - 11;
+      const b = x + y * y - 7;
+      return [4 * x * a + 2 * b, 2 * a + 4 * y * b];
+    }
+    case 'rastrigin':
+      return [
+        2 * x + 20 * Math.PI * Math.sin(2 * Math.PI * x),
+        2 * y + 20 * Math.PI * Math.sin(2 * Math.PI * y),
+      ];
+    case 'ackley': {
+      const r = Math.sqrt(0.5 * (x * x + y * y));
+      const c = Math.exp(0.5 * (Math.cos(2 * Math.PI * x) + Math.cos(2 * Math.PI * y)));
+      // The cone at the origin has no gradient; treat its tip as flat
+      const radial = r === 0 ? 0 : (2 * Math.exp(-0.2 * r)) / r;
+      return [
+        radial * x + Math.PI * Math.sin(2 * Math.PI * x) * c,
+        radial * y + Math.PI * Math.sin(2 * Math.PI * y) * c,
+      ];
+    }
+    case 'styblinski-tang':
+      return [0.5 * (4 * x ** 3 - 32 * x + 5), 0.5 * (4 * y ** 3 - 32 * y + 5)];
+    case 'booth': {
+      const a = x + 2 * y - 7;
+      const b = 2 * x + y - 5;
+      return [2 * a + 4 * b, 4 * a + 2 * b];
+    }
+    case 'six-hump-camel':
+      return [8 * x - 8.4 * x ** 3 + 2 * x ** 5 + y, x - 8 * y + 16 * y ** 3];
+  }
+}
+
+/** Symmetric 2×2 matrix of second partial derivatives. */
+export interface Hessian2D {
+  xx: number;
+  xy: number;
+  yy: number;
+}
+
+/** Second derivatives: analytical where they have a tidy form, central differences otherwise. */
+export function computeHessian(x: number, y: number, surfaceType: Surface): Hessian2D {
+  if (!isExpressionSurface(surfaceType)) {
+    switch (surfaceType) {
+      case 'bowl':
+        return { xx: 2, xy: 0, yy: 2 };
+      case 'saddle':
+        return { xx: 2, xy: 0, yy: -2 };
+      case 'rosenbrock':
+        return { xx: 2 - 400 * (y - x * x) + 800 * x * x, xy: -400 * x, yy: 200 };
+      case 'himmelblau':
+        return {
+          xx: 12 * x * x + 4 * y - 42,
+          xy: 4 * (x + y),
+          yy: 4 * x + 12 * y * y - 26,
+        };
+      case 'rastrigin': {
+        const c = 40 * Math.PI * Math.PI;
+        return {
+          xx: 2 + c * Math.cos(2 * Math.PI * x),
+          xy: 0,
+          yy: 2 + c * Math.cos(2 * Math.PI * y),
+        };
+      }
+      case 'styblinski-tang':
+        return { xx: 6 * x * x - 16, xy: 0, yy: 6 * y * y - 16 };
+      case 'booth':
+        return { xx: 10, xy: 8, yy: 10 };
+      case 'six-hump-camel':
+        return { xx: 8 - 25.2 * x * x + 10 * x ** 4, xy: 1, yy: -8 + 48 * y * y };
+      case 'beale':
+      case 'ackley':
+        break;
+    }
   }
+  const h = 1e-4;
+  const [gxPlus, gyPlus] = computeGradient(x + h, y, surfaceType);
+  const [gxMinus, gyMinus] = computeGradient(x - h, y, surfaceType);
+  const [gxUp, gyUp] = computeGradient(x, y + h, surfaceType);
+  const [gxDown, gyDown] = computeGradient(x, y - h, surfaceType);
+  return {
+    xx: (gxPlus - gxMinus) / (2 * h),
+    // Average both mixed partials so the result is exactly symmetric
+    xy: ((gyPlus - gyMinus) / (2 * h) + (gxUp - gxDown) / (2 * h)) / 2,
+    yy: (gyUp - gyDown) / (2 * h),
+  };
 }
 
+/** Eigenvalues of a Hessian, largest first. Opposite signs mean the point is saddle-shaped. */
+export function hessianEigenvalues({ xx, xy, yy }: Hessian2D): [number, number] {
+  const mean = (xx + yy) / 2;
+  const radius = Math.sqrt(((xx - yy) / 2) ** 2 + xy * xy);
+  return [mean + radius, mean - radius];
+}
+
+/** Second-order Taylor model of the surface around (x0, y0), evaluated at (x, y). */
+export function quadraticApproximation(
+  x0: number,
+  y0: number,
+  surfaceType: Surface,
+): (x: number, y: number) => number {
+  const f = evaluateSurface(x0, y0, surfaceType);
+  const [gx, gy] = computeGradient(x0, y0, surfaceType);
+  const { xx, xy, yy } = computeHessian(x0, y0, surfaceType);
+  return (x, y) => {
+    const dx = x - x0;
+    const dy = y - y0;
+    return f + gx * dx + gy * dy + 0.5 * (xx * dx * dx + 2 * xy * dx * dy + yy * dy * dy);
+  };
+}
+
+/** A run has converged once the gradient norm falls below this. */
+export const CONVERGENCE_TOLERANCE = 1e-3;
+
+/** A converged run counts as having found a minimum when it stops this close to it. */
+export const MINIMUM_TOLERANCE = 0.05;
+
+/** Gradient norm above which steps are scaled down, so steep surfaces do not blow up. */
+export const MAX_GRADIENT_NORM = 50;
+
+export function clipGradient(
+  [gx, gy]: [number, number],
+  maxNorm = MAX_GRADIENT_NORM,
+): [number, number] {
+  const mag = Math.sqrt(gx * gx + gy * gy);
+  if (mag <= maxNorm) return [gx, gy];
+  return [(gx / mag) * maxNorm, (gy / mag) * maxNorm];
+}
+
+export type NoiseType = 'none' | 'gaussian' | 'minibatch';
+
+/** How gradients are corrupted to imitate stochastic training. */
+export interface GradientNoise {
+  type: NoiseType;
+  /**
+   * Gaussian: variance added to each gradient component. Minibatch: variance of the per-example
+   * gradients around the full-batch gradient.
+   */
+  variance: number;
+  /** Number of examples in the simulated dataset. */
+  datasetSize: number;
+  /** Examples drawn without replacement for each minibatch gradient. */
+  batchSize: number;
+  /** Noisy gradients averaged per step; averaging n divides the noise variance by n. */
+  samples: number;
+  seed: number;
+}
+
+export const DEFAULT_NOISE: GradientNoise = {
+  type: 'none',
+  variance: 1,
+  datasetSize: 256,
+  batchSize: 16,
+  samples: 1,
+  seed: 1,
+};
+
+/** Draws noisy gradients, advancing its own seeded random stream on every call. */
+export type GradientSampler = (x: number, y: number, surface: Surface) => [number, number];
+
+/**
+ * Build a sampler for `noise`. The minibatch model treats the surface as the mean loss over a
+ * simulated dataset whose examples each add a fixed linear term, so a minibatch gradient is the
+ * true gradient plus the mean offset of the examples drawn. Those offsets sum to zero, so the full
+ * batch recovers the exact gradient.
+ */
+export function createGradientSampler(noise: GradientNoise): GradientSampler {
+  const random = createRng(noise.seed);
+  const std = Math.sqrt(noise.variance);
+  const samples = Math.max(1, Math.round(noise.samples));
+
+  let drawNoise: () => [number, number];
+  if (noise.type === 'gaussian') {
+    drawNoise = () => [randomGaussian(0, std, random), randomGaussian(0, std, random)];
+  } else if (noise.type === 'minibatch') {
+    const n = Math.max(1, Math.round(noise.datasetSize));
+    const batch = Math.min(n, Math.max(1, Math.round(noise.batchSize)));
+    const offsets = Array.from({ length: n }, () => [
+      randomGaussian(0, std, random),
+      randomGaussian(0, std, random),
+    ]);
+    for (const axis of [0, 1]) {
+      const mean = offsets.reduce((sum, o) => sum + o[axis], 0) / n;
+      for (const o of offsets) o[axis] -= mean;
+    }
+    const order = Array.from({ length: n }, (_, i) => i);
+    drawNoise = () => {
+      // Partial Fisher–Yates: the first `batch` entries become a uniform sample
+      let ox = 0;
+      let oy = 0;
+      for (let i = 0; i < batch; i++) {
+        const j = i + Math.floor(random() * (n - i));
+        [order[i], order[j]] = [order[j], order[i]];
+        ox += offsets[order[i]][0];
+        oy += offsets[order[i]][1];
+      }
+      return [ox / batch, oy / batch];
+    };
+  } else {
+    drawNoise = () => [0, 0];
+  }
+
+  return (x, y, surface) => {
+    const [gx, gy] = computeGradient(x, y, surface);
+    let nx = 0;
+    let ny = 0;
+    for (let s = 0; s < samples; s++) {
+      const [dx, dy] = drawNoise();
+      nx += dx;
+      ny += dy;
+    }
+    return [gx + nx / samples, gy + ny / samples];
+  };
+}
+
+/** One plain gradient descent step, using noisy gradients from `sampler` when given. */
 export function gradientStep(
   x: number,
   y: number,
   learningRate: number,
-  surfaceType: SurfaceType,
+  surfaceType: Surface,
+  sampler?: GradientSampler,
 ): [number, number] {
-  let [gx, gy] = computeGradient(x, y, surfaceType);
-  // Clip gradient magnitude to prevent divergence on steep surfaces
-  const mag = Math.sqrt(gx * gx + gy * gy);
-  const maxMag = 50;
-  if (mag > maxMag) {
-    gx = (gx / mag) * maxMag;
-    gy = (gy / mag) * maxMag;
-  }
+  const gradient = sampler ? sampler(x, y, surfaceType) : computeGradient(x, y, surfaceType);
+  const [gx, gy] = clipGradient(gradient);
   return [x - learningRate * gx, y - learningRate * gy];
 }
@@ -0,0 +1,136 @@
+import type { Point2D } from './types';
+
+export type Linkage = 'single' | 'complete' | 'average' | 'ward';
+
+/**
+ * One merge in the dendrogram. Node ids below n are the original points; the merge at index i
+ * creates node n + i.
+ */
+export interface Merge {
+  a: number;
+  b: number;
+  /** Linkage distance at which the two nodes were joined. */
+  distance: number;
+  /** Number of points under the new node. */
+  size: number;
+}
+
+/**
+ * Lance–Williams update: distance from the cluster formed by merging i and j to another cluster k,
+ * given the three pairwise distances and cluster sizes.
+ */
+function linkageDistance(
+  linkage: Linkage,
+  dik: number,
+  djk: number,
+  dij: number,
+  ni: number,
+  nj: number,
+  nk: number,
+): number {
+  switch (linkage) {
+    case 'single':
+      return Math.min(dik, djk);
+    case 'complete':
+      return Math.max(dik, djk);
+    case 'average':
+      return (ni * dik + nj * djk) / (ni + nj);
+    case 'ward': {
+      const total = ni + nj + nk;
+      return Math.sqrt(((ni + nk) * dik * dik + (nj + nk) * djk * djk - nk * dij * dij) / total);
+    }
+  }
+}
+
+/** Bottom-up clustering: repeatedly merge the two closest clusters until one remains. */
+export function agglomerate(points: Point2D[], linkage: Linkage): Merge[] {
+  const n = points.length;
+  const dist = points.map((p) => points.map((q) => Math.hypot(p.x - q.x, p.y - q.y)));
+  // Slot i holds the current cluster's node id and size; inactive slots have been merged away
+  const nodeIds = points.map((_, i) => i);
+  const sizes = new Array<number>(n).fill(1);
+  const active = new Array<boolean>(n).fill(true);
+  const merges: Merge[] = [];
+
+  for (let step = 0; step < n - 1; step++) {
+    let bi = -1;
+    let bj = -1;
+    let best = Infinity;
+    for (let i = 0; i < n; i++) {
+      if (!active[i]) continue;
+      for (let j = i + 1; j < n; j++) {
+        if (active[j] && dist[i][j] < best) {
+          best = dist[i][j];
+          bi = i;
+          bj = j;
+        }
+      }
+    }
+
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === bi || k === bj) continue;
+      const d = linkageDistance(
+        linkage,
+        dist[bi][k],
+        dist[bj][k],
+        best,
+        sizes[bi],
+        sizes[bj],
+        sizes[k],
+      );
+      dist[bi][k] = d;
+      dist[k][bi] = d;
+    }
+
+    merges.push({ a: nodeIds[bi], b: nodeIds[bj], distance: best, size: sizes[bi] + sizes[bj] });
+    nodeIds[bi] = n + step;
+    sizes[bi] += sizes[bj];
+    active[bj] = false;
+  }
+  return merges;
+}
+
+/** Flat cluster labels from cutting the dendrogram at `height`: merges above it are undone. */
+export function cutDendrogram(merges: Merge[], n: number, height: number): number[] {
+  // Union-find over points, applying only the merges below the cut
+  const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  merges.forEach((m, i) => {
+    if (m.distance <= height) {
+      parent[find(m.a)] = n + i;
+      parent[find(m.b)] = n + i;
+    }
+  });
+
+  const labels = new Array<number>(n);
+  const clusterOf = new Map<number, number>();
+  for (let i = 0; i < n; i++) {
+    const root = find(i);
+    if (!clusterOf.has(root)) clusterOf.set(root, clusterOf.size);
+    labels[i] = clusterOf.get(root)!;
+  }
+  return labels;
+}
+
+/** Leaf order that keeps every subtree contiguous, for laying out the dendrogram. */
+export function dendrogramOrder(merges: Merge[], n: number): number[] {
+  if (n === 0) return [];
+  const order: number[] = [];
+  const stack = [n + merges.length - 1];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node < n) {
+      order.push(node);
+    } else {
+      const m = merges[node - n];
+      stack.push(m.b, m.a);
+    }
+  }
+  return order;
+}
@@ -0,0 +1,107 @@
+import type { Point2D } from './types';
+import { KMeansAlgorithm, type InitMethod } from './kmeans';
+
+/** Quality of the best clustering found for one value of k. */
+export interface KAnalysisPoint {
+  k: number;
+  /** Sum of squared distances from each point to its centroid. */
+  inertia: number;
+  /** Mean silhouette score in [-1, 1]; null for k = 1, where it is undefined. */
+  silhouette: number | null;
+}
+
+export interface KAnalysisOptions {
+  restarts?: number;
+  init?: InitMethod;
+  maxIterations?: number;
+  random?: () => number;
+}
+
+export function computeInertia(
+  points: Point2D[],
+  centroids: Point2D[],
+  assignments: number[],
+): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const c = centroids[assignments[i]];
+    sum += (points[i].x - c.x) ** 2 + (points[i].y - c.y) ** 2;
+  }
+  return sum;
+}
+
+/**
+ * Mean silhouette (b − a) / max(a, b), where a is a point's mean distance to its own cluster and
+ * b its mean distance to the nearest other cluster. Points alone in their cluster score 0.
+ */
+export function silhouetteScore(points: Point2D[], assignments: number[]): number {
+  const n = points.length;
+  if (n === 0) return 0;
+  const numClusters = Math.max(...assignments) + 1;
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const sums = new Array<number>(numClusters).fill(0);
+    const counts = new Array<number>(numClusters).fill(0);
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      sums[assignments[j]] += Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y);
+      counts[assignments[j]]++;
+    }
+    const own = assignments[i];
+    if (counts[own] === 0) continue;
+    const a = sums[own] / counts[own];
+    let b = Infinity;
+    for (let c = 0; c < numClusters; c++) {
+      if (c !== own && counts[c] > 0) b = Math.min(b, sums[c] / counts[c]);
+    }
+    if (b === Infinity) continue;
+    const denom = Math.max(a, b);
+    total += denom > 0 ? (b - a) / denom : 0;
+  }
+  return total / n;
+}
+
+/** Run k-means to convergence and return the final centroids with matching assignments. */
+function fit(
+  points: Point2D[],
+  k: number,
+  init: InitMethod,
+  maxIterations: number,
+  random: () => number,
+) {
+  const algo = new KMeansAlgorithm(k, init, random);
+  algo.initialize(points);
+  let result = algo.step(points);
+  for (let i = 1; i < maxIterations && !result.converged; i++) {
+    result = algo.step(points);
+  }
+  return { centroids: algo.centroids, assignments: algo.assignPoints(points, algo.centroids) };
+}
+
+/**
+ * Cluster the points for k = 1..maxK, keeping the lowest-inertia run out of `restarts`, and score
+ * each k for the elbow and silhouette plots. k is capped at the number of points.
+ */
+export function analyzeK(
+  points: Point2D[],
+  maxK: number,
+  options: KAnalysisOptions = {},
+): KAnalysisPoint[] {
+  const { restarts = 5, init = 'kmeans++', maxIterations = 100, random = Math.random } = options;
+  const results: KAnalysisPoint[] = [];
+  for (let k = 1; k <= Math.min(maxK, points.length); k++) {
+    let best: { inertia: number; assignments: number[] } | null = null;
+    for (let r = 0; r < restarts; r++) {
+      const { centroids, assignments } = fit(points, k, init, maxIterations, random);
+      const inertia = computeInertia(points, centroids, assignments);
+      if (!best || inertia < best.inertia) best = { inertia, assignments };
+    }
+    if (!best) break;
+    results.push({
+      k,
+      inertia: best.inertia,
+      silhouette: k > 1 ? silhouetteScore(points, best.assignments) : null,
+    });
+  }
+  return results;
+}
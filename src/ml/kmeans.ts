@@ -1,20 +1,94 @@
 import type { Point2D } from './types';
 
+/**
+ * How the first centroids are chosen:
+ * - `forgy`: k distinct data points, uniformly at random
+ * - `kmeans++`: each new centroid is sampled with probability proportional to its squared
+ *   distance from the nearest centroid so far (D² sampling)
+ * - `random-partition`: every point gets a random cluster and the centroids start at the means
+ */
+export type InitMethod = 'forgy' | 'kmeans++' | 'random-partition';
+
 export class KMeansAlgorithm {
   k: number;
   centroids: Point2D[];
+  init: InitMethod;
+  private random: () => number;
 
-  constructor(k: number) {
+  constructor(k: number, init: InitMethod = 'forgy', random: () => number = Math.random) {
     this.k = k;
     this.centroids = [];
+    this.init = init;
+    this.random = random;
   }
 
   initialize(points: Point2D[]): void {
-    const indices = new Set<number>();
-    while (indices.size < this.k && indices.size < points.length) {
-      indices.add(Math.floor(Math.random() * points.length));
+    switch (this.init) {
+      case 'forgy': {
+        const indices = new Set<number>();
+        while (indices.size < this.k && indices.size < points.length) {
+          indices.add(Math.floor(this.random() * points.length));
+        }
+        this.centroids = Array.from(indices).map((i) => ({ x: points[i].x, y: points[i].y }));
+        break;
+      }
+      case 'kmeans++':
+        this.centroids = [];
+        while (this.centroids.length < Math.min(this.k, points.length)) {
+          this.addSeed(points);
+        }
+        break;
+      case 'random-partition': {
+        const labels = points.map(() => Math.floor(this.random() * this.k));
+        this.centroids = Array.from({ length: this.k }, (_, c) => {
+          const members = points.filter((_, i) => labels[i] === c);
+          // An empty partition falls back to a random point
+          if (members.length === 0) {
+            const p = points[Math.floor(this.random() * points.length)];
+            return { x: p.x, y: p.y };
+          }
+          return {
+            x: members.reduce((sum, p) => sum + p.x, 0) / members.length,
+            y: members.reduce((sum, p) => sum + p.y, 0) / members.length,
+          };
+        });
+        break;
+      }
+    }
+  }
+
+  /** k-means++ probability of picking each point as the next centroid. Uniform before the first. */
+  seedProbabilities(points: Point2D[]): number[] {
+    if (points.length === 0) return [];
+    if (this.centroids.length === 0) return points.map(() => 1 / points.length);
+    const d2 = points.map((p) => {
+      let min = Infinity;
+      for (const c of this.centroids) {
+        min = Math.min(min, (p.x - c.x) ** 2 + (p.y - c.y) ** 2);
+      }
+      return min;
+    });
+    const total = d2.reduce((a, b) => a + b, 0);
+    // Every point sits on a centroid already; fall back to uniform
+    if (total === 0) return points.map(() => 1 / points.length);
+    return d2.map((d) => d / total);
+  }
+
+  /** Add one k-means++ centroid by D² sampling and return it. */
+  addSeed(points: Point2D[]): Point2D {
+    const probs = this.seedProbabilities(points);
+    let r = this.random();
+    let index = probs.length - 1;
+    for (let i = 0; i < probs.length; i++) {
+      r -= probs[i];
+      if (r < 0) {
+        index = i;
+        break;
+      }
     }
-    this.centroids = Array.from(indices).map((i) => ({ x: points[i].x, y: points[i].y }));
+    const seed = { x: points[index].x, y: points[index].y };
+    this.centroids.push(seed);
+    return seed;
   }
 
   assignPoints(points: Point2D[], centroids: Point2D[]): number[] {
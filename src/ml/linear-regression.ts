@@ -1,40 +1,311 @@
 import type { Point2D } from './types';
+import { shuffleInPlace, solveLinearSystem } from '../utils/math-utils';
+
+export type BasisType = 'polynomial' | 'rbf' | 'sine';
+
+export interface BasisConfig {
+  type: BasisType;
+  /**
+   * Number of basis functions. For `polynomial` this is also the degree; for `rbf` and `sine` it
+   * is the number of bumps or waves.
+   */
+  size: number;
+  /** Inputs are divided by `scale` before expansion so high powers stay near [-1, 1]. */
+  scale: number;
+}
+
+export const LINEAR_BASIS: BasisConfig = { type: 'polynomial', size: 1, scale: 1 };
+
+export type LossType = 'mse' | 'mae' | 'huber';
+
+export interface LossConfig {
+  type: LossType;
+  /** Residual size at which Huber switches from quadratic to linear. */
+  delta: number;
+}
+
+export const MSE_LOSS: LossConfig = { type: 'mse', delta: 1 };
+
+export type PenaltyType = 'none' | 'l1' | 'l2' | 'elasticnet';
+
+export interface Regularization {
+  type: PenaltyType;
+  lambda: number;
+  /** Fraction of the penalty that is L1 when `type` is `elasticnet`. */
+  l1Ratio: number;
+}
+
+export const NO_REGULARIZATION: Regularization = { type: 'none', lambda: 0, l1Ratio: 0.5 };
+
+export interface RegressionParams {
+  weights: number[];
+  bias: number;
+}
+
+/** One sampled point's share of a mini-batch gradient. */
+export interface SampleGradient {
+  dw: number[];
+  db: number;
+}
+
+export interface CoefficientPathPoint {
+  lambda: number;
+  weights: number[];
+}
+
+/** Split a regularization setting into its L1 and L2 strengths. */
+function penaltyStrengths(reg: Regularization): [number, number] {
+  switch (reg.type) {
+    case 'none':
+      return [0, 0];
+    case 'l1':
+      return [reg.lambda, 0];
+    case 'l2':
+      return [0, reg.lambda];
+    case 'elasticnet':
+      return [reg.lambda * reg.l1Ratio, reg.lambda * (1 - reg.l1Ratio)];
+  }
+}
+
+/** Loss contributed by a single residual. */
+export function residualLoss(err: number, loss: LossConfig): number {
+  switch (loss.type) {
+    case 'mse':
+      return err * err;
+    case 'mae':
+      return Math.abs(err);
+    case 'huber': {
+      const a = Math.abs(err);
+      return a <= loss.delta ? 0.5 * err * err : loss.delta * (a - 0.5 * loss.delta);
+    }
+  }
+}
+
+/** Derivative of `residualLoss` with respect to the residual. */
+export function residualGradient(err: number, loss: LossConfig): number {
+  switch (loss.type) {
+    case 'mse':
+      return 2 * err;
+    case 'mae':
+      return Math.sign(err);
+    case 'huber':
+      return Math.max(-loss.delta, Math.min(loss.delta, err));
+  }
+}
+
+export function expandFeatures(x: number, basis: BasisConfig): number[] {
+  const u = x / basis.scale;
+  const features = new Array<number>(basis.size);
+  switch (basis.type) {
+    case 'polynomial': {
+      let power = 1;
+      for (let i = 0; i < basis.size; i++) {
+        power *= u;
+        features[i] = power;
+      }
+      break;
+    }
+    case 'rbf': {
+      // Gaussian bumps with evenly spaced centres over [-1, 1]
+      const width = basis.size > 1 ? 2 / (basis.size - 1) : 1;
+      for (let i = 0; i < basis.size; i++) {
+        const center = basis.size > 1 ? -1 + i * width : 0;
+        const d = (u - center) / width;
+        features[i] = Math.exp(-0.5 * d * d);
+      }
+      break;
+    }
+    case 'sine':
+      // Sine series on [-1, 1], shifted so the basis is not purely odd
+      for (let i = 0; i < basis.size; i++) {
+        features[i] = Math.sin(((i + 1) * Math.PI * (u + 1)) / 2);
+      }
+      break;
+  }
+  return features;
+}
 
 export class LinearRegressionModel {
-  weight: number;
+  weights: number[];
   bias: number;
+  basis: BasisConfig;
+  loss: LossConfig = MSE_LOSS;
+  /** Points per step; null trains on the full batch. */
+  batchSize: number | null = null;
+  /** Reshuffle the visiting order each pass instead of cycling through the points in order. */
+  shuffle = true;
+  /** Indices of the points used by the most recent step. */
+  lastBatch: number[] = [];
+  lastSampleGradients: SampleGradient[] = [];
+  private order: number[] = [];
+  private cursor = 0;
 
-  constructor(weight = 0, bias = 0) {
-    this.weight = weight;
+  constructor(weight = 0, bias = 0, basis: BasisConfig = LINEAR_BASIS) {
+    this.basis = basis;
+    this.weights = new Array<number>(basis.size).fill(0);
+    this.weights[0] = weight;
     this.bias = bias;
   }
 
+  /** First-feature weight; the slope when using the default linear basis. */
+  get weight(): number {
+    return this.weights[0];
+  }
+
+  set weight(value: number) {
+    this.weights[0] = value;
+  }
+
+  setBasis(basis: BasisConfig): void {
+    this.basis = basis;
+    this.weights = new Array<number>(basis.size).fill(0);
+    this.bias = 0;
+  }
+
+  private nextBatch(n: number): number[] {
+    if (this.batchSize === null || this.batchSize >= n) {
+      return Array.from({ length: n }, (_, i) => i);
+    }
+    if (this.order.length !== n) {
+      this.order = Array.from({ length: n }, (_, i) => i);
+      this.cursor = n;
+    }
+    const batch: number[] = [];
+    while (batch.length < this.batchSize) {
+      if (this.cursor >= n) {
+        this.cursor = 0;
+        if (this.shuffle) shuffleInPlace(this.order);
+      }
+      batch.push(this.order[this.cursor++]);
+    }
+    return batch;
+  }
+
   predict(x: number): number {
-    return this.weight * x + this.bias;
+    const features = expandFeatures(x, this.basis);
+    let y = this.bias;
+    for (let i = 0; i < features.length; i++) {
+      y += this.weights[i] * features[i];
+    }
+    return y;
   }
 
-  computeLoss(points: Point2D[]): number {
+  /** Mean residual loss plus the penalty on the weights (the bias is never penalized). */
+  computeLoss(points: Point2D[], regularization: Regularization = NO_REGULARIZATION): number {
     if (points.length === 0) return 0;
     let sum = 0;
     for (const p of points) {
-      const err = this.predict(p.x) - p.y;
-      sum += err * err;
+      sum += residualLoss(this.predict(p.x) - p.y, this.loss);
+    }
+    const [l1, l2] = penaltyStrengths(regularization);
+    let penalty = 0;
+    for (const w of this.weights) {
+      penalty += l1 * Math.abs(w) + l2 * w * w;
     }
-    return sum / points.length;
+    return sum / points.length + penalty;
   }
 
-  trainStep(points: Point2D[], learningRate: number): number {
+  trainStep(
+    points: Point2D[],
+    learningRate: number,
+    regularization: Regularization = NO_REGULARIZATION,
+  ): number {
     if (points.length === 0) return 0;
-    const n = points.length;
-    let dw = 0;
+    const batch = this.nextBatch(points.length);
+    const m = batch.length;
+    const dw = new Array<number>(this.weights.length).fill(0);
     let db = 0;
-    for (const p of points) {
-      const err = this.predict(p.x) - p.y;
-      dw += (2 / n) * err * p.x;
-      db += (2 / n) * err;
+    this.lastSampleGradients = [];
+    for (const idx of batch) {
+      const p = points[idx];
+      const features = expandFeatures(p.x, this.basis);
+      const g = residualGradient(this.predict(p.x) - p.y, this.loss) / m;
+      const sample = { dw: features.map((f) => g * f), db: g };
+      for (let i = 0; i < features.length; i++) {
+        dw[i] += sample.dw[i];
+      }
+      db += g;
+      this.lastSampleGradients.push(sample);
+    }
+    this.lastBatch = batch;
+    const [l1, l2] = penaltyStrengths(regularization);
+    for (let i = 0; i < dw.length; i++) {
+      const w = this.weights[i] - learningRate * (dw[i] + 2 * l2 * this.weights[i]);
+      // L1 is applied as a soft-threshold (proximal) step so weights can reach exactly zero
+      const shrink = learningRate * l1;
+      this.weights[i] = Math.sign(w) * Math.max(Math.abs(w) - shrink, 0);
     }
-    this.weight -= learningRate * dw;
     this.bias -= learningRate * db;
-    return this.computeLoss(points);
+    // Loss is reported over the full dataset, not just the sampled batch
+    return this.computeLoss(points, regularization);
+  }
+}
+
+/**
+ * Fit the model once per lambda and record the weights. Lambdas are visited from strongest to
+ * weakest, warm-starting each fit from the previous one, and returned in the order given.
+ */
+export function computeCoefficientPath(
+  points: Point2D[],
+  basis: BasisConfig,
+  regularization: Regularization,
+  lambdas: number[],
+  learningRate = 0.05,
+  iterations = 800,
+): CoefficientPathPoint[] {
+  const model = new LinearRegressionModel(0, 0, basis);
+  const order = lambdas.map((_, i) => i).sort((a, b) => lambdas[b] - lambdas[a]);
+  const path = new Array<CoefficientPathPoint>(lambdas.length);
+  for (const i of order) {
+    const reg = { ...regularization, lambda: lambdas[i] };
+    for (let t = 0; t < iterations; t++) {
+      model.trainStep(points, learningRate, reg);
+    }
+    path[i] = { lambda: lambdas[i], weights: [...model.weights] };
+  }
+  return path;
+}
+
+/**
+ * Exact minimizer of the MSE plus an optional L2 penalty, from the normal equations
+ * (XᵀX + nλI)θ = Xᵀy with the bias as an unpenalized extra column.
+ * Returns null when the system is singular, e.g. fewer points than parameters.
+ */
+export function solveNormalEquation(
+  points: Point2D[],
+  basis: BasisConfig,
+  ridge = 0,
+): RegressionParams | null {
+  if (points.length === 0) return null;
+  const d = basis.size + 1;
+  const xtx = Array.from({ length: d }, () => new Array<number>(d).fill(0));
+  const xty = new Array<number>(d).fill(0);
+  for (const p of points) {
+    const row = [...expandFeatures(p.x, basis), 1];
+    for (let i = 0; i < d; i++) {
+      xty[i] += row[i] * p.y;
+      for (let j = 0; j < d; j++) xtx[i][j] += row[i] * row[j];
+    }
+  }
+  for (let i = 0; i < basis.size; i++) xtx[i][i] += points.length * ridge;
+  const theta = solveLinearSystem(xtx, xty);
+  if (!theta) return null;
+  return { weights: theta.slice(0, basis.size), bias: theta[basis.size] };
+}
+
+/** Closed-form optimum for the given penalty; L1 and elastic net have none. */
+export function solveOptimum(
+  points: Point2D[],
+  basis: BasisConfig,
+  regularization: Regularization,
+): RegressionParams | null {
+  switch (regularization.type) {
+    case 'none':
+      return solveNormalEquation(points, basis);
+    case 'l2':
+      return solveNormalEquation(points, basis, regularization.lambda);
+    case 'l1':
+    case 'elasticnet':
+      return null;
   }
 }
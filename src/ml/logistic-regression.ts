@@ -0,0 +1,67 @@
+import type { Point2D } from './types';
+
+const EPSILON = 1e-7;
+
+export function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/** Binary logistic regression on 2D points, using `label` (0 or 1) as the target. */
+export class LogisticRegressionModel {
+  weights: [number, number];
+  bias: number;
+
+  constructor(w1 = 0, w2 = 0, bias = 0) {
+    this.weights = [w1, w2];
+    this.bias = bias;
+  }
+
+  logit(x: number, y: number): number {
+    return this.weights[0] * x + this.weights[1] * y + this.bias;
+  }
+
+  predictProba(x: number, y: number): number {
+    return sigmoid(this.logit(x, y));
+  }
+
+  /** Mean binary cross-entropy. */
+  computeLoss(points: Point2D[]): number {
+    if (points.length === 0) return 0;
+    let sum = 0;
+    for (const p of points) {
+      const prob = Math.min(1 - EPSILON, Math.max(EPSILON, this.predictProba(p.x, p.y)));
+      const t = p.label ?? 0;
+      sum -= t * Math.log(prob) + (1 - t) * Math.log(1 - prob);
+    }
+    return sum / points.length;
+  }
+
+  computeAccuracy(points: Point2D[]): number {
+    if (points.length === 0) return 0;
+    let correct = 0;
+    for (const p of points) {
+      const predicted = this.predictProba(p.x, p.y) >= 0.5 ? 1 : 0;
+      if (predicted === (p.label ?? 0)) correct++;
+    }
+    return correct / points.length;
+  }
+
+  trainStep(points: Point2D[], learningRate: number): number {
+    if (points.length === 0) return 0;
+    const n = points.length;
+    let dw1 = 0;
+    let dw2 = 0;
+    let db = 0;
+    for (const p of points) {
+      // d(BCE)/d(logit) simplifies to prediction minus target
+      const err = this.predictProba(p.x, p.y) - (p.label ?? 0);
+      dw1 += (err * p.x) / n;
+      dw2 += (err * p.y) / n;
+      db += err / n;
+    }
+    this.weights[0] -= learningRate * dw1;
+    this.weights[1] -= learningRate * dw2;
+    this.bias -= learningRate * db;
+    return this.computeLoss(points);
+  }
+}
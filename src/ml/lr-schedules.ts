@@ -0,0 +1,52 @@
+export type ScheduleType = 'constant' | 'step' | 'exponential' | 'cosine' | 'cosine-restarts';
+
+export interface LRSchedule {
+  type: ScheduleType;
+  /** Steps between drops for step decay. */
+  stepSize: number;
+  /** Factor the rate is multiplied by at each step-decay drop. */
+  gamma: number;
+  /** Factor the rate is multiplied by every step for exponential decay. */
+  decay: number;
+  /** Length of one cosine cycle, in steps. */
+  period: number;
+  /** Floor of the cosine schedules as a fraction of the base rate. */
+  minFactor: number;
+  /** Steps of linear ramp-up from zero before the schedule starts; 0 disables warmup. */
+  warmupSteps: number;
+}
+
+export const DEFAULT_SCHEDULE: LRSchedule = {
+  type: 'constant',
+  stepSize: 50,
+  gamma: 0.5,
+  decay: 0.99,
+  period: 100,
+  minFactor: 0,
+  warmupSteps: 0,
+};
+
+/** Learning rate for the update at `step` (counting from 0) given the base rate. */
+export function scheduledLearningRate(base: number, step: number, schedule: LRSchedule): number {
+  const { warmupSteps } = schedule;
+  if (step < warmupSteps) return (base * (step + 1)) / warmupSteps;
+  // The decay schedules start counting once warmup is over
+  const t = step - warmupSteps;
+  switch (schedule.type) {
+    case 'constant':
+      return base;
+    case 'step':
+      return base * schedule.gamma ** Math.floor(t / schedule.stepSize);
+    case 'exponential':
+      return base * schedule.decay ** t;
+    case 'cosine':
+      return cosineAnneal(base, Math.min(t, schedule.period), schedule);
+    case 'cosine-restarts':
+      return cosineAnneal(base, t % schedule.period, schedule);
+  }
+}
+
+function cosineAnneal(base: number, t: number, schedule: LRSchedule): number {
+  const min = base * schedule.minFactor;
+  return min + (base - min) * 0.5 * (1 + Math.cos((Math.PI * t) / schedule.period));
+}
@@ -1,38 +1,63 @@
 import * as tf from '@tensorflow/tfjs';
-import type { NetworkArchitecture } from './types';
+import type { NetworkArchitecture, NetworkLayer, NetworkOptimizerType } from './types';
 import { createPredictionGrid } from '../utils/tensor-utils';
+import { shuffleInPlace } from '../utils/math-utils';
+import { featureTransform, RAW_FEATURES, type InputFeature } from './features';
 
-export function createNetwork(architecture: NetworkArchitecture): tf.LayersModel {
-  const model = tf.sequential();
+function outputUnits(model: tf.LayersModel): number {
+  return model.outputs[0].shape[1] ?? 1;
+}
 
-  // First hidden layer needs inputShape
-  const firstLayer = architecture.layers[0];
-  if (firstLayer) {
-    model.add(
-      tf.layers.dense({
-        units: firstLayer.units,
-        activation: firstLayer.activation,
-        inputShape: [architecture.inputSize],
-      }),
-    );
+/**
+ * A hidden layer as tfjs layers: the dense layer with any kernel regularizer, then batch
+ * normalization between it and its activation, then dropout.
+ */
+function addHiddenLayer(
+  model: tf.Sequential,
+  layer: NetworkLayer,
+  kernelInitializer: ReturnType<typeof tf.initializers.glorotUniform> | undefined,
+  inputShape?: number[],
+) {
+  const l1 = layer.l1 ?? 0;
+  const l2 = layer.l2 ?? 0;
+  model.add(
+    tf.layers.dense({
+      units: layer.units,
+      activation: layer.batchNorm ? 'linear' : layer.activation,
+      kernelRegularizer: l1 > 0 || l2 > 0 ? tf.regularizers.l1l2({ l1, l2 }) : undefined,
+      kernelInitializer,
+      ...(inputShape ? { inputShape } : {}),
+    }),
+  );
+  if (layer.batchNorm) {
+    model.add(tf.layers.batchNormalization());
+    model.add(tf.layers.activation({ activation: layer.activation }));
   }
-
-  // Remaining hidden layers
-  for (let i = 1; i < architecture.layers.length; i++) {
-    const layer = architecture.layers[i];
-    model.add(
-      tf.layers.dense({
-        units: layer.units,
-        activation: layer.activation,
-      }),
-    );
+  if (layer.dropout) {
+    model.add(tf.layers.dropout({ rate: layer.dropout }));
   }
+}
+
+/**
+ * Build the network. With a `seed`, each dense layer's initial weights are drawn from its own
+ * seeded stream, so the same seed and architecture always start from the same weights.
+ */
+export function createNetwork(architecture: NetworkArchitecture, seed?: number): tf.LayersModel {
+  const model = tf.sequential();
+  const initializer = (i: number) =>
+    seed === undefined ? undefined : tf.initializers.glorotUniform({ seed: seed + i });
+
+  // First hidden layer needs inputShape
+  architecture.layers.forEach((layer, i) =>
+    addHiddenLayer(model, layer, initializer(i), i === 0 ? [architecture.inputSize] : undefined),
+  );
 
   // Output layer (needs inputShape if no hidden layers)
   model.add(
     tf.layers.dense({
       units: architecture.outputSize,
       activation: architecture.outputActivation,
+      kernelInitializer: initializer(architecture.layers.length),
       ...(architecture.layers.length === 0 ? { inputShape: [architecture.inputSize] } : {}),
     }),
   );
@@ -40,73 +65,167 @@ export function createNetwork(architecture: NetworkArchitecture): tf.LayersModel
   return model;
 }
 
-export function trainStep(
+/** Softmax outputs are scored against one-hot labels, a sigmoid unit against the raw 0/1 label. */
+function labelTensor(ys: number[], units: number): tf.Tensor {
+  return units > 1
+    ? tf.tidy(() => tf.oneHot(tf.tensor1d(ys, 'int32'), units))
+    : tf.tensor2d(ys, [ys.length, 1]);
+}
+
+/** Cross-entropy of the predicted probabilities; both output activations are already applied. */
+function classificationLoss(labels: tf.Tensor, pred: tf.Tensor, multiclass: boolean): tf.Scalar {
+  return (
+    multiclass
+      ? tf.metrics.categoricalCrossentropy(labels, pred)
+      : tf.metrics.binaryCrossentropy(labels, pred)
+  ).mean() as tf.Scalar;
+}
+
+function classificationAccuracy(labels: tf.Tensor, pred: tf.Tensor, multiclass: boolean): number {
+  return tf.tidy(() => {
+    const correct = multiclass
+      ? pred.argMax(1).equal(labels.argMax(1)).sum()
+      : pred.round().equal(labels).sum();
+    return correct.dataSync()[0] / labels.shape[0];
+  });
+}
+
+export function createOptimizer(type: NetworkOptimizerType, learningRate: number): tf.Optimizer {
+  switch (type) {
+    case 'sgd':
+      return tf.train.sgd(learningRate);
+    case 'momentum':
+      return tf.train.momentum(learningRate, 0.9);
+    case 'rmsprop':
+      return tf.train.rmsprop(learningRate);
+    case 'adam':
+      return tf.train.adam(learningRate);
+    case 'adagrad':
+      return tf.train.adagrad(learningRate);
+  }
+}
+
+/**
+ * One pass over the data in shuffled mini-batches of `batchSize`, the last batch taking what is
+ * left. The optimizer is passed in so its momentum and moment estimates carry across epochs.
+ * Dropout and batch normalization run in training mode, and the layers' regularization penalties
+ * are added to the loss being minimised. The reported loss is the cross-entropy alone, averaged
+ * over the batches as they were seen, so it compares directly with the validation loss; accuracy
+ * is measured after the pass. Batches are drawn with `random`, so a seeded generator gives the
+ * same batch order on every run.
+ */
+export function trainEpoch(
   model: tf.LayersModel,
+  optimizer: tf.Optimizer,
   xs: number[][],
   ys: number[],
-  learningRate: number,
+  batchSize: number,
+  random: () => number = Math.random,
 ): { loss: number; accuracy: number } {
-  const optimizer = tf.train.sgd(learningRate);
+  const units = outputUnits(model);
+  const multiclass = units > 1;
+  const order = shuffleInPlace(
+    Array.from({ length: xs.length }, (_, i) => i),
+    random,
+  );
+  const size = Math.max(1, Math.min(Math.round(batchSize), xs.length));
 
-  const xTensor = tf.tensor2d(xs);
-  const yTensor = tf.tensor2d(ys, [ys.length, 1]);
-
-  let lossVal = 0;
-  let accVal = 0;
-
-  // Compute accuracy outside minimize to avoid leaking intermediate tensors
-  // inside the gradient tape
-  optimizer.minimize(() => {
-    const pred = model.predict(xTensor) as tf.Tensor;
-    const loss = tf.losses.sigmoidCrossEntropy(yTensor, pred);
-    lossVal = loss.dataSync()[0];
-    return loss as tf.Scalar;
-  });
+  let lossSum = 0;
+  for (let start = 0; start < order.length; start += size) {
+    const batch = order.slice(start, start + size);
+    const xTensor = tf.tensor2d(batch.map((i) => xs[i]));
+    const yTensor = labelTensor(
+      batch.map((i) => ys[i]),
+      units,
+    );
 
-  // Compute accuracy separately with tf.tidy to avoid tensor leaks
-  accVal = tf.tidy(() => {
-    const pred = model.predict(xTensor) as tf.Tensor;
-    const rounded = pred.round();
-    const correct = rounded.equal(yTensor).sum();
-    return correct.dataSync()[0] / ys.length;
-  });
+    // Compute accuracy outside minimize to avoid leaking intermediate tensors
+    // inside the gradient tape
+    optimizer.minimize(() => {
+      const pred = model.apply(xTensor, { training: true }) as tf.Tensor;
+      const loss = classificationLoss(yTensor, pred, multiclass);
+      lossSum += loss.dataSync()[0] * batch.length;
+      return model.calculateLosses().reduce((total, penalty) => total.add(penalty), loss);
+    });
+
+    xTensor.dispose();
+    yTensor.dispose();
+  }
 
+  const xTensor = tf.tensor2d(xs);
+  const yTensor = labelTensor(ys, units);
+  const pred = model.predict(xTensor) as tf.Tensor;
+  const accVal = classificationAccuracy(yTensor, pred, multiclass);
+
+  pred.dispose();
   xTensor.dispose();
   yTensor.dispose();
-  optimizer.dispose();
 
-  return { loss: lossVal, accuracy: accVal };
+  return { loss: lossSum / xs.length, accuracy: accVal };
 }
 
+/** Loss and accuracy on held-out data, without updating the weights. */
+export function evaluate(
+  model: tf.LayersModel,
+  xs: number[][],
+  ys: number[],
+): { loss: number; accuracy: number } {
+  const units = outputUnits(model);
+  const multiclass = units > 1;
+  const xTensor = tf.tensor2d(xs);
+  const yTensor = labelTensor(ys, units);
+  const pred = model.predict(xTensor) as tf.Tensor;
+  try {
+    const loss = tf.tidy(() => classificationLoss(yTensor, pred, multiclass).dataSync()[0]);
+    return { loss, accuracy: classificationAccuracy(yTensor, pred, multiclass) };
+  } finally {
+    pred.dispose();
+    xTensor.dispose();
+    yTensor.dispose();
+  }
+}
+
+/**
+ * Class probabilities over a resolution × resolution grid, row-major from (rangeX[0], rangeY[0])
+ * with the classes innermost. A sigmoid output is expanded to two classes. Each grid point goes
+ * through the same feature transform as the training data.
+ */
 export function predictGrid(
   model: tf.LayersModel,
   resolution: number,
   rangeX: [number, number] = [-1.5, 1.5],
   rangeY: [number, number] = [-1.5, 1.5],
+  features: InputFeature[] = RAW_FEATURES,
 ): Float32Array {
   // Use manual dispose instead of tidy since we need dataSync before disposal
-  const grid = createPredictionGrid(resolution, rangeX, rangeY);
+  const grid = createPredictionGrid(resolution, rangeX, rangeY, featureTransform(features));
   let predictions: tf.Tensor | null = null;
   try {
     predictions = model.predict(grid) as tf.Tensor;
     const data = predictions.dataSync() as Float32Array;
-    return new Float32Array(data);
+    if (outputUnits(model) > 1) return new Float32Array(data);
+    const probabilities = new Float32Array(data.length * 2);
+    for (let i = 0; i < data.length; i++) {
+      probabilities[2 * i] = 1 - data[i];
+      probabilities[2 * i + 1] = data[i];
+    }
+    return probabilities;
   } finally {
     grid.dispose();
     predictions?.dispose();
   }
 }
 
+/**
+ * Kernel and bias of each dense layer, in order. Batch normalization, activation and dropout
+ * layers are skipped so the entries line up with the architecture's layers.
+ */
 export function getWeights(model: tf.LayersModel): number[][][] {
   const weights: number[][][] = [];
   for (const layer of model.layers) {
-    const layerWeights: number[][] = [];
-    const tensors = layer.getWeights();
-    for (const w of tensors) {
-      layerWeights.push(Array.from(w.dataSync()));
-      w.dispose();
-    }
-    weights.push(layerWeights);
+    if (layer.getClassName() !== 'Dense') continue;
+    // getWeights hands back the layer's own variables, so they must not be disposed here
+    weights.push(layer.getWeights().map((w) => Array.from(w.dataSync())));
   }
   return weights;
 }
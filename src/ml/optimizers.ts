@@ -0,0 +1,233 @@
+import { solveLinearSystem } from '../utils/math-utils';
+
+export type OptimizerType =
+  | 'sgd'
+  | 'momentum'
+  | 'nesterov'
+  | 'rmsprop'
+  | 'adam'
+  | 'adagrad'
+  | 'newton'
+  | 'damped-newton'
+  | 'lbfgs';
+
+export interface OptimizerConfig {
+  type: OptimizerType;
+  /** Velocity decay for momentum and Nesterov. */
+  momentum: number;
+  /** Squared-gradient decay for RMSProp. */
+  rho: number;
+  /** Adam's first- and second-moment decay rates. */
+  beta1: number;
+  beta2: number;
+  /** Added to the denominator of the adaptive methods to avoid dividing by zero. */
+  epsilon: number;
+  /** Smallest curvature damped Newton allows; the Hessian is shifted until it is this convex. */
+  damping: number;
+  /** Number of recent (step, gradient change) pairs L-BFGS keeps. */
+  historySize: number;
+}
+
+export const DEFAULT_OPTIMIZER: OptimizerConfig = {
+  type: 'sgd',
+  momentum: 0.9,
+  rho: 0.9,
+  beta1: 0.9,
+  beta2: 0.999,
+  epsilon: 1e-8,
+  damping: 0.1,
+  historySize: 5,
+};
+
+export type GradientFn = (params: number[]) => number[];
+export type HessianFn = (params: number[]) => number[][];
+
+/** Second-order methods need `step` to be given a Hessian. */
+export function needsHessian(type: OptimizerType): boolean {
+  return type === 'newton' || type === 'damped-newton';
+}
+
+/**
+ * Whether steep gradients should be clipped before reaching the optimizer. Newton and L-BFGS
+ * divide the gradient by their curvature estimate, so a clipped gradient would land them short.
+ */
+export function clipsGradient(type: OptimizerType): boolean {
+  return !needsHessian(type) && type !== 'lbfgs';
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** Lower bound on the smallest eigenvalue of a symmetric matrix, from Gershgorin's theorem. */
+function minEigenvalueBound(h: number[][]): number {
+  let bound = Infinity;
+  for (let i = 0; i < h.length; i++) {
+    let offDiagonal = 0;
+    for (let j = 0; j < h.length; j++) if (j !== i) offDiagonal += Math.abs(h[i][j]);
+    bound = Math.min(bound, h[i][i] - offDiagonal);
+  }
+  return bound;
+}
+
+interface CurvaturePair {
+  s: number[];
+  y: number[];
+  rho: number;
+}
+
+/**
+ * Optimizer that keeps its own state between calls. The first-order methods keep velocity,
+ * squared-gradient averages and a step count. Newton and damped Newton are second-order: they
+ * hold no curvature state and are handed the Hessian at each step. L-BFGS is quasi-Newton: it
+ * estimates curvature from its last few (step, gradient change) pairs, remembering the previous
+ * parameters and gradient to form the next pair. Call `reset` when the parameters jump
+ * somewhere new.
+ */
+export class Optimizer {
+  config: OptimizerConfig;
+  private velocity: number[] = [];
+  private sqAvg: number[] = [];
+  private t = 0;
+  private history: CurvaturePair[] = [];
+  private prevParams: number[] | null = null;
+  private prevGrad: number[] | null = null;
+
+  constructor(config: OptimizerConfig = DEFAULT_OPTIMIZER) {
+    this.config = config;
+  }
+
+  reset(): void {
+    this.velocity = [];
+    this.sqAvg = [];
+    this.t = 0;
+    this.history = [];
+    this.prevParams = null;
+    this.prevGrad = null;
+  }
+
+  /** Number of updates applied since the last reset. */
+  get stepCount(): number {
+    return this.t;
+  }
+
+  /**
+   * Return the parameters after one update. The gradient is requested through `gradFn` because
+   * Nesterov evaluates it at a look-ahead point rather than at `params`. Newton's method takes a
+   * full step and ignores `learningRate`; the other methods scale their step by it.
+   */
+  step(
+    params: number[],
+    gradFn: GradientFn,
+    learningRate: number,
+    hessianFn?: HessianFn,
+  ): number[] {
+    const { type, momentum, rho, beta1, beta2, epsilon, damping } = this.config;
+    const n = params.length;
+    if (this.velocity.length !== n) {
+      this.velocity = new Array<number>(n).fill(0);
+      this.sqAvg = new Array<number>(n).fill(0);
+    }
+    this.t++;
+    const v = this.velocity;
+    const s = this.sqAvg;
+
+    switch (type) {
+      case 'sgd': {
+        const g = gradFn(params);
+        return params.map((p, i) => p - learningRate * g[i]);
+      }
+      case 'momentum': {
+        const g = gradFn(params);
+        for (let i = 0; i < n; i++) v[i] = momentum * v[i] + g[i];
+        return params.map((p, i) => p - learningRate * v[i]);
+      }
+      case 'nesterov': {
+        const g = gradFn(params.map((p, i) => p - learningRate * momentum * v[i]));
+        for (let i = 0; i < n; i++) v[i] = momentum * v[i] + g[i];
+        return params.map((p, i) => p - learningRate * v[i]);
+      }
+      case 'rmsprop': {
+        const g = gradFn(params);
+        for (let i = 0; i < n; i++) s[i] = rho * s[i] + (1 - rho) * g[i] * g[i];
+        return params.map((p, i) => p - (learningRate * g[i]) / (Math.sqrt(s[i]) + epsilon));
+      }
+      case 'adam': {
+        const g = gradFn(params);
+        const c1 = 1 - beta1 ** this.t;
+        const c2 = 1 - beta2 ** this.t;
+        for (let i = 0; i < n; i++) {
+          v[i] = beta1 * v[i] + (1 - beta1) * g[i];
+          s[i] = beta2 * s[i] + (1 - beta2) * g[i] * g[i];
+        }
+        return params.map(
+          (p, i) => p - (learningRate * (v[i] / c1)) / (Math.sqrt(s[i] / c2) + epsilon),
+        );
+      }
+      case 'adagrad': {
+        const g = gradFn(params);
+        for (let i = 0; i < n; i++) s[i] += g[i] * g[i];
+        return params.map((p, i) => p - (learningRate * g[i]) / (Math.sqrt(s[i]) + epsilon));
+      }
+      case 'newton':
+      case 'damped-newton': {
+        if (!hessianFn) throw new Error(`${type} needs a Hessian`);
+        const g = gradFn(params);
+        const h = hessianFn(params).map((row) => [...row]);
+        let scale = 1;
+        if (type === 'damped-newton') {
+          // Shift the Hessian until it is safely convex, so the step always goes downhill
+          const shift = Math.max(0, damping - minEigenvalueBound(h));
+          for (let i = 0; i < n; i++) h[i][i] += shift;
+          scale = learningRate;
+        }
+        const d = solveLinearSystem(h, g);
+        // A singular Hessian has no Newton step; fall back to plain gradient descent
+        if (!d) return params.map((p, i) => p - learningRate * g[i]);
+        return params.map((p, i) => p - scale * d[i]);
+      }
+      case 'lbfgs':
+        return this.lbfgsStep(params, gradFn(params), learningRate);
+    }
+  }
+
+  /** Two-loop recursion: apply the inverse-Hessian estimate built from recent steps to `g`. */
+  private lbfgsStep(params: number[], g: number[], learningRate: number): number[] {
+    const { prevParams, prevGrad } = this;
+    if (prevParams && prevGrad) {
+      const s = params.map((p, i) => p - prevParams[i]);
+      const y = g.map((gi, i) => gi - prevGrad[i]);
+      const sy = dot(s, y);
+      // Only keep pairs with positive curvature so the estimate stays positive definite
+      if (sy > 1e-10) {
+        this.history.push({ s, y, rho: 1 / sy });
+        if (this.history.length > this.config.historySize) this.history.shift();
+      }
+    }
+    this.prevParams = params;
+    this.prevGrad = g;
+
+    const q = [...g];
+    const alphas: number[] = [];
+    for (let k = this.history.length - 1; k >= 0; k--) {
+      const { s, y, rho } = this.history[k];
+      const a = rho * dot(s, q);
+      alphas[k] = a;
+      for (let i = 0; i < q.length; i++) q[i] -= a * y[i];
+    }
+    const newest = this.history[this.history.length - 1];
+    // Without history, limit the first step to length learningRate
+    const gamma = newest
+      ? dot(newest.s, newest.y) / dot(newest.y, newest.y)
+      : Math.min(1, 1 / Math.sqrt(dot(g, g)));
+    const r = q.map((qi) => gamma * qi);
+    for (let k = 0; k < this.history.length; k++) {
+      const { s, y, rho } = this.history[k];
+      const b = rho * dot(y, r);
+      for (let i = 0; i < r.length; i++) r[i] += s[i] * (alphas[k] - b);
+    }
+    return params.map((p, i) => p - learningRate * r[i]);
+  }
+}
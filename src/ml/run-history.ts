@@ -0,0 +1,262 @@
+import {
+  DEFAULT_NOISE,
+  SURFACE_INFO,
+  type GradientNoise,
+  type NoiseType,
+  type SurfaceType,
+} from './gradient-descent';
+import { compileExpression } from './expression';
+import { DEFAULT_OPTIMIZER, type OptimizerConfig, type OptimizerType } from './optimizers';
+import { DEFAULT_SCHEDULE, type LRSchedule, type ScheduleType } from './lr-schedules';
+import type { SurfaceSpec } from './basins';
+
+/**
+ * Everything recorded about one optimizer's descent. `path`, `gradients` and `losses` hold one
+ * entry per visited point, starting with the start point; `learningRates` one per step taken.
+ */
+export interface RecordedRun {
+  name: string;
+  color: string;
+  optimizer: OptimizerConfig;
+  learningRate: number;
+  schedule: LRSchedule;
+  noise: GradientNoise;
+  path: [number, number][];
+  gradients: [number, number][];
+  losses: number[];
+  learningRates: number[];
+  convergedAt: number | null;
+}
+
+/** A shareable set of runs on one surface, as written to and read from JSON. */
+export interface RunFile {
+  version: 1;
+  surface: SurfaceSpec;
+  start: [number, number];
+  runs: RecordedRun[];
+}
+
+export type RunFileResult = { ok: true; file: RunFile } | { ok: false; error: string };
+
+const OPTIMIZER_TYPES: Record<OptimizerType, true> = {
+  sgd: true,
+  momentum: true,
+  nesterov: true,
+  rmsprop: true,
+  adam: true,
+  adagrad: true,
+  newton: true,
+  'damped-newton': true,
+  lbfgs: true,
+};
+
+const SCHEDULE_TYPES: Record<ScheduleType, true> = {
+  constant: true,
+  step: true,
+  exponential: true,
+  cosine: true,
+  'cosine-restarts': true,
+};
+
+const NOISE_TYPES: Record<NoiseType, true> = {
+  none: true,
+  gaussian: true,
+  minibatch: true,
+};
+
+class RunFileError extends Error {}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readNumber(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new RunFileError(`${field} must be a finite number`);
+  }
+  return value;
+}
+
+type FieldRule = 'positive' | 'nonNegative' | 'integer' | 'count' | 'nonNegativeCount';
+
+const FIELD_RULES: Record<FieldRule, { test: (value: number) => boolean; description: string }> = {
+  positive: { test: (v) => v > 0, description: 'a positive number' },
+  nonNegative: { test: (v) => v >= 0, description: 'a non-negative number' },
+  integer: { test: (v) => Number.isInteger(v), description: 'an integer' },
+  count: { test: (v) => Number.isInteger(v) && v > 0, description: 'a positive integer' },
+  nonNegativeCount: {
+    test: (v) => Number.isInteger(v) && v >= 0,
+    description: 'a non-negative integer',
+  },
+};
+
+/**
+ * A numeric config field; fields missing from older files fall back to the default. A `rule`
+ * rejects values the optimizer cannot run with, such as a zero period or a fractional batch size.
+ */
+function readField(
+  record: Record<string, unknown>,
+  key: string,
+  fallback: number,
+  field: string,
+  rule?: FieldRule,
+): number {
+  if (record[key] === undefined) return fallback;
+  const name = `${field}.${key}`;
+  const value = readNumber(record[key], name);
+  if (rule && !FIELD_RULES[rule].test(value)) {
+    throw new RunFileError(`${name} must be ${FIELD_RULES[rule].description}`);
+  }
+  return value;
+}
+
+function readOptimizer(value: unknown, field: string): OptimizerConfig {
+  if (!isRecord(value) || !Object.hasOwn(OPTIMIZER_TYPES, String(value.type))) {
+    throw new RunFileError(`${field} has an unknown type`);
+  }
+  const d = DEFAULT_OPTIMIZER;
+  return {
+    type: value.type as OptimizerType,
+    momentum: readField(value, 'momentum', d.momentum, field),
+    rho: readField(value, 'rho', d.rho, field),
+    beta1: readField(value, 'beta1', d.beta1, field),
+    beta2: readField(value, 'beta2', d.beta2, field),
+    epsilon: readField(value, 'epsilon', d.epsilon, field, 'positive'),
+    damping: readField(value, 'damping', d.damping, field, 'nonNegative'),
+    historySize: readField(value, 'historySize', d.historySize, field, 'count'),
+  };
+}
+
+function readSchedule(value: unknown, field: string): LRSchedule {
+  if (!isRecord(value) || !Object.hasOwn(SCHEDULE_TYPES, String(value.type))) {
+    throw new RunFileError(`${field} has an unknown type`);
+  }
+  const d = DEFAULT_SCHEDULE;
+  return {
+    type: value.type as ScheduleType,
+    stepSize: readField(value, 'stepSize', d.stepSize, field, 'count'),
+    gamma: readField(value, 'gamma', d.gamma, field, 'positive'),
+    decay: readField(value, 'decay', d.decay, field, 'positive'),
+    period: readField(value, 'period', d.period, field, 'count'),
+    minFactor: readField(value, 'minFactor', d.minFactor, field, 'nonNegative'),
+    warmupSteps: readField(value, 'warmupSteps', d.warmupSteps, field, 'nonNegativeCount'),
+  };
+}
+
+function readNoise(value: unknown, field: string): GradientNoise {
+  // Files from before gradient noise existed have no noise at all
+  if (value === undefined) return DEFAULT_NOISE;
+  if (!isRecord(value) || !Object.hasOwn(NOISE_TYPES, String(value.type))) {
+    throw new RunFileError(`${field} has an unknown type`);
+  }
+  const d = DEFAULT_NOISE;
+  return {
+    type: value.type as NoiseType,
+    variance: readField(value, 'variance', d.variance, field, 'nonNegative'),
+    datasetSize: readField(value, 'datasetSize', d.datasetSize, field, 'count'),
+    batchSize: readField(value, 'batchSize', d.batchSize, field, 'count'),
+    samples: readField(value, 'samples', d.samples, field, 'count'),
+    seed: readField(value, 'seed', d.seed, field, 'integer'),
+  };
+}
+
+function readPoint(value: unknown, field: string): [number, number] {
+  if (!Array.isArray(value) || value.length !== 2) {
+    throw new RunFileError(`${field} must be an [x, y] point`);
+  }
+  return [readNumber(value[0], `${field}[0]`), readNumber(value[1], `${field}[1]`)];
+}
+
+function readPoints(value: unknown, field: string): [number, number][] {
+  if (!Array.isArray(value)) throw new RunFileError(`${field} must be an array of [x, y] points`);
+  return value.map((p, i) => readPoint(p, `${field}[${i}]`));
+}
+
+function readNumbers(value: unknown, field: string): number[] {
+  if (!Array.isArray(value)) throw new RunFileError(`${field} must be an array of numbers`);
+  return value.map((v, i) => readNumber(v, `${field}[${i}]`));
+}
+
+function readSurface(value: unknown): SurfaceSpec {
+  if (isRecord(value) && value.kind === 'builtin' && typeof value.type === 'string') {
+    if (!Object.hasOwn(SURFACE_INFO, value.type))
+      throw new RunFileError(`Unknown surface '${value.type}'`);
+    return { kind: 'builtin', type: value.type as SurfaceType };
+  }
+  if (isRecord(value) && value.kind === 'expression' && typeof value.source === 'string') {
+    const compiled = compileExpression(value.source);
+    if (!compiled.ok)
+      throw new RunFileError(`Invalid surface expression: ${compiled.error.message}`);
+    return { kind: 'expression', source: value.source };
+  }
+  throw new RunFileError('surface must be a built-in surface or an expression');
+}
+
+function readRun(value: unknown, index: number): RecordedRun {
+  const field = `runs[${index}]`;
+  if (!isRecord(value)) throw new RunFileError(`${field} must be an object`);
+  const optimizer = readOptimizer(value.optimizer, `${field}.optimizer`);
+  const schedule = readSchedule(value.schedule, `${field}.schedule`);
+  const noise = readNoise(value.noise, `${field}.noise`);
+
+  const path = readPoints(value.path, `${field}.path`);
+  const gradients = readPoints(value.gradients, `${field}.gradients`);
+  const losses = readNumbers(value.losses, `${field}.losses`);
+  const learningRates = readNumbers(value.learningRates, `${field}.learningRates`);
+  if (path.length === 0) throw new RunFileError(`${field}.path is empty`);
+  if (gradients.length !== path.length || losses.length !== path.length) {
+    throw new RunFileError(`${field} needs one gradient and loss per path point`);
+  }
+  if (learningRates.length !== path.length - 1) {
+    throw new RunFileError(`${field} needs one learning rate per step`);
+  }
+
+  return {
+    name: typeof value.name === 'string' ? value.name : `Run ${index + 1}`,
+    color: typeof value.color === 'string' ? value.color : '#ef4444',
+    optimizer,
+    learningRate: readNumber(value.learningRate, `${field}.learningRate`),
+    schedule,
+    noise,
+    path,
+    gradients,
+    losses,
+    learningRates,
+    convergedAt:
+      value.convergedAt == null ? null : readNumber(value.convergedAt, `${field}.convergedAt`),
+  };
+}
+
+export function serializeRunFile(file: RunFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+/** Parse and validate a file written by `serializeRunFile`. */
+export function parseRunFile(text: string): RunFileResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'File is not valid JSON' };
+  }
+  try {
+    if (!isRecord(data) || data.version !== 1) {
+      throw new RunFileError('Not a gradient descent run file (expected version 1)');
+    }
+    if (!Array.isArray(data.runs) || data.runs.length === 0) {
+      throw new RunFileError('File contains no runs');
+    }
+    return {
+      ok: true,
+      file: {
+        version: 1,
+        surface: readSurface(data.surface),
+        start: readPoint(data.start, 'start'),
+        runs: data.runs.map(readRun),
+      },
+    };
+  } catch (err) {
+    if (err instanceof RunFileError) return { ok: false, error: err.message };
+    throw err;
+  }
+}
@@ -1,13 +1,18 @@
+import type { InputFeature } from './features';
+
 export interface Point2D {
   x: number;
   y: number;
   label?: number;
 }
 
+export type NetworkOptimizerType = 'sgd' | 'momentum' | 'rmsprop' | 'adam' | 'adagrad';
+
 export interface TrainingConfig {
   learningRate: number;
   epochs: number;
   batchSize: number;
+  optimizer: NetworkOptimizerType;
 }
 
 export interface TrainingState {
@@ -17,12 +22,33 @@ export interface TrainingState {
   accuracy?: number;
 }
 
+/** Which part of the data a point belongs to. */
+export type DataSplit = 'train' | 'validation' | 'test';
+
+/** Metrics after one training epoch; validation values are null when nothing is held out. */
+export interface EpochMetrics {
+  epoch: number;
+  loss: number;
+  accuracy: number;
+  valLoss: number | null;
+  valAccuracy: number | null;
+}
+
 export interface NetworkLayer {
   units: number;
   activation: 'relu' | 'sigmoid' | 'tanh' | 'softmax' | 'linear';
+  /** L1 and L2 penalty weights on the layer's kernel; 0 or absent disables them. */
+  l1?: number;
+  l2?: number;
+  /** Fraction of the layer's outputs zeroed on each training batch. */
+  dropout?: number;
+  /** Normalise the layer's pre-activations over each batch before the activation. */
+  batchNorm?: boolean;
 }
 
 export interface NetworkArchitecture {
+  /** Features computed from each point and fed to the network; `inputSize` is their count. */
+  features: InputFeature[];
   inputSize: number;
   layers: NetworkLayer[];
   outputSize: number;
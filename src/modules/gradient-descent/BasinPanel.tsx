@@ -0,0 +1,126 @@
+import { useEffect } from 'react';
+import * as Comlink from 'comlink';
+import { ParameterPanel } from '../../components/shared/ParameterPanel';
+import { ParameterSlider } from '../../components/shared/ParameterSlider';
+import { useTrainingWorker } from '../../hooks/useTrainingWorker';
+import {
+  basinKey,
+  selectBasinRequest,
+  selectCurrentBasins,
+  selectSelectedRunner,
+  useGradientDescentStore,
+} from '../../stores/useGradientDescentStore';
+import { DIVERGED, UNCONVERGED } from '../../ml/basins';
+import { getSurfaceInfo } from '../../ml/gradient-descent';
+import { COLORS } from '../../config/constants';
+import type { BasinWorkerAPI } from '../../workers/basins.worker';
+
+const createWorker = () =>
+  new Worker(new URL('../../workers/basins.worker.ts', import.meta.url), { type: 'module' });
+
+export function BasinPanel() {
+  const { worker } = useTrainingWorker<BasinWorkerAPI>(createWorker);
+  const basins = useGradientDescentStore(selectCurrentBasins);
+  const basinResolution = useGradientDescentStore((s) => s.basinResolution);
+  const basinProgress = useGradientDescentStore((s) => s.basinProgress);
+  const noiseType = useGradientDescentStore((s) => selectSelectedRunner(s).noise.type);
+  const showBasins = useGradientDescentStore((s) => s.showBasins);
+  const minimaCount = useGradientDescentStore((s) => getSurfaceInfo(s.surfaceType).minima.length);
+  const setBasinResolution = useGradientDescentStore((s) => s.setBasinResolution);
+  const setBasinProgress = useGradientDescentStore((s) => s.setBasinProgress);
+  const finishBasins = useGradientDescentStore((s) => s.finishBasins);
+  const setShowBasins = useGradientDescentStore((s) => s.setShowBasins);
+
+  // A run cut short by unmounting never resolves, so don't leave the button stuck
+  useEffect(() => () => setBasinProgress(null), [setBasinProgress]);
+
+  const handleCompute = async () => {
+    const api = worker.current;
+    if (!api) return;
+    const request = selectBasinRequest(useGradientDescentStore.getState());
+    setBasinProgress(0);
+    try {
+      const map = await api.compute(request, Comlink.proxy(setBasinProgress));
+      finishBasins(basinKey(request), map);
+    } catch {
+      setBasinProgress(null);
+    }
+  };
+
+  // Share of starts per outcome, attractors first
+  const legend: { label: string; color: string; share: number }[] = [];
+  if (basins) {
+    const total = basins.outcomes.length;
+    const count = (code: number) => basins.outcomes.filter((o) => o === code).length / total;
+    basins.attractors.forEach(([x, y], i) => {
+      const kind = i < minimaCount ? 'Minimum' : 'Other';
+      legend.push({
+        label: `${kind} (${x.toFixed(2)}, ${y.toFixed(2)})`,
+        color: COLORS.classColors[i % COLORS.classColors.length],
+        share: count(i),
+      });
+    });
+    legend.push({ label: 'Diverged', color: '#000000', share: count(DIVERGED) });
+    legend.push({ label: 'Did not converge', color: COLORS.textMuted, share: count(UNCONVERGED) });
+  }
+
+  return (
+    <ParameterPanel title="Basins of Attraction">
+      <ParameterSlider
+        label="Grid"
+        value={basinResolution}
+        min={10}
+        max={80}
+        step={5}
+        onChange={setBasinResolution}
+        format={(v) => `${v}×${v}`}
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={handleCompute}
+          disabled={basinProgress !== null}
+          className="flex-1 px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {basinProgress !== null ? `Mapping ${Math.round(basinProgress * 100)}%` : 'Map Basins'}
+        </button>
+        {basins && (
+          <button
+            onClick={() => setShowBasins(!showBasins)}
+            aria-pressed={showBasins}
+            className={`px-3 py-1.5 rounded text-sm transition-colors ${
+              showBasins
+                ? 'bg-primary/15 text-primary-light border border-primary/30'
+                : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+            }`}
+          >
+            Overlay
+          </button>
+        )}
+      </div>
+      {basins ? (
+        <ul className="space-y-1 text-xs">
+          {legend
+            .filter((entry) => entry.share > 0)
+            .map((entry) => (
+              <li key={entry.label} className="flex items-center gap-2 text-text-muted">
+                <span className="w-2.5 h-2.5 rounded-sm" style={{ background: entry.color }} />
+                <span className="flex-1">{entry.label}</span>
+                <span className="font-mono tabular-nums">{Math.round(entry.share * 100)}%</span>
+              </li>
+            ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-text-muted">
+          Starts the selected optimizer from every grid cell and colours each by where it ends up.
+          Shown on the contour view.
+        </p>
+      )}
+      {noiseType !== 'none' && (
+        <p className="text-xs text-text-muted">
+          Every start uses the runner's {noiseType} gradient noise with its seed, so the map shows
+          where this noisy run would end up.
+        </p>
+      )}
+    </ParameterPanel>
+  );
+}
@@ -5,41 +5,291 @@ import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
 import { ParameterSlider } from '../../components/shared/ParameterSlider';
 import { ParameterPanel } from '../../components/shared/ParameterPanel';
 import { PlayPauseButton } from '../../components/shared/PlayPauseButton';
-import { LossSurface } from '../../components/three/LossSurface';
+import { LossSurface, type SurfaceShading } from '../../components/three/LossSurface';
 import { GradientPath } from '../../components/three/GradientPath';
+import { GradientField } from '../../components/three/GradientField';
 import { CameraControls } from '../../components/three/CameraControls';
-import { useGradientDescentStore } from '../../stores/useGradientDescentStore';
-import { evaluateSurface, type SurfaceType } from '../../ml/gradient-descent';
+import {
+  MAX_LEARNING_RATE,
+  MAX_RUNNERS,
+  runnerAtStep,
+  selectCurrentBasins,
+  selectSelectedRunner,
+  useGradientDescentStore,
+} from '../../stores/useGradientDescentStore';
+import {
+  computeGradient,
+  computeHessian,
+  createGradientSampler,
+  evaluateSurface,
+  getSurfaceInfo,
+  hessianEigenvalues,
+  isExpressionSurface,
+  nearestMinimum,
+  quadraticApproximation,
+  type GradientNoise,
+  type Surface,
+  type SurfaceType,
+} from '../../ml/gradient-descent';
+import type { OptimizerType } from '../../ml/optimizers';
+import type { ScheduleType } from '../../ml/lr-schedules';
+import { DIVERGED, UNCONVERGED, type BasinMap } from '../../ml/basins';
 import { clearCanvas, canvasToData } from '../../utils/canvas-helpers';
 import { createViridisScale } from '../../utils/color-scales';
 import { COLORS } from '../../config/constants';
+import { LossRaceChart } from './LossRaceChart';
+import { LearningRateChart } from './LearningRateChart';
+import { RaceLeaderboard } from './RaceLeaderboard';
+import { BasinPanel } from './BasinPanel';
+import { ReplayPanel } from './ReplayPanel';
+import { NoisePanel } from './NoisePanel';
+
+const SCHEDULE_OPTIONS: { value: ScheduleType; label: string }[] = [
+  { value: 'constant', label: 'Constant' },
+  { value: 'step', label: 'Step' },
+  { value: 'exponential', label: 'Exp' },
+  { value: 'cosine', label: 'Cosine' },
+  { value: 'cosine-restarts', label: 'Restarts' },
+];
+
+const SHADING_OPTIONS: { value: SurfaceShading; label: string }[] = [
+  { value: 'wireframe', label: 'Wireframe' },
+  { value: 'viridis', label: 'Viridis' },
+  { value: 'plasma', label: 'Plasma' },
+];
 
 const SURFACE_OPTIONS: { value: SurfaceType; label: string }[] = [
   { value: 'bowl', label: 'Bowl (Quadratic)' },
   { value: 'saddle', label: 'Saddle Point' },
   { value: 'rosenbrock', label: 'Rosenbrock' },
   { value: 'beale', label: 'Beale' },
+  { value: 'himmelblau', label: 'Himmelblau' },
+  { value: 'rastrigin', label: 'Rastrigin' },
+  { value: 'ackley', label: 'Ackley' },
+  { value: 'styblinski-tang', label: 'Styblinski–Tang' },
+  { value: 'booth', label: 'Booth' },
+  { value: 'six-hump-camel', label: 'Six-Hump Camel' },
+];
+
+const OPTIMIZER_OPTIONS: { value: OptimizerType; label: string }[] = [
+  { value: 'sgd', label: 'SGD' },
+  { value: 'momentum', label: 'Momentum' },
+  { value: 'nesterov', label: 'Nesterov' },
+  { value: 'rmsprop', label: 'RMSProp' },
+  { value: 'adam', label: 'Adam' },
+  { value: 'adagrad', label: 'AdaGrad' },
+  { value: 'newton', label: 'Newton' },
+  { value: 'damped-newton', label: 'Damped' },
+  { value: 'lbfgs', label: 'L-BFGS' },
 ];
 
-const RANGE = 3;
+function describeCurvature(lambda1: number, lambda2: number): string {
+  const tolerance = 1e-6;
+  if (lambda2 > tolerance) return 'Curves up in every direction: a bowl.';
+  if (lambda1 < -tolerance) return 'Curves down in every direction: a peak.';
+  if (lambda1 > tolerance && lambda2 < -tolerance) {
+    return 'Up one way, down the other: a saddle. The gradient vanishes here too, so first-order methods stall.';
+  }
+  return 'Flat in at least one direction.';
+}
+
+/**
+ * Level sets of the second-order Taylor model around the current point, drawn in a window a
+ * quarter of the view wide, plus the Newton step to the model's stationary point.
+ */
+function drawQuadraticModel(
+  ctx: CanvasRenderingContext2D,
+  [x0, y0]: [number, number],
+  surfaceType: Surface,
+  range: number,
+  toPx: (x: number) => number,
+  toPy: (y: number) => number,
+) {
+  const q = quadraticApproximation(x0, y0, surfaceType);
+  const half = range / 4;
+  const res = 40;
+  const grid: number[][] = [];
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = 0; i <= res; i++) {
+    grid[i] = [];
+    for (let j = 0; j <= res; j++) {
+      const v = q(x0 - half + (2 * half * i) / res, y0 - half + (2 * half * j) / res);
+      grid[i][j] = v;
+      lo = Math.min(lo, v);
+      hi = Math.max(hi, v);
+    }
+  }
+
+  ctx.fillStyle = COLORS.amber;
+  const levels = 10;
+  for (let l = 1; l < levels; l++) {
+    const threshold = lo + ((hi - lo) * l) / levels;
+    for (let i = 0; i < res; i++) {
+      for (let j = 0; j < res; j++) {
+        const v = grid[i][j];
+        if (v >= threshold !== grid[i + 1][j] >= threshold) {
+          const px = toPx(x0 - half + (2 * half * (i + 0.5)) / res);
+          const py = toPy(y0 - half + (2 * half * j) / res);
+          ctx.fillRect(px - 0.75, py - 0.75, 1.5, 1.5);
+        }
+        if (v >= threshold !== grid[i][j + 1] >= threshold) {
+          const px = toPx(x0 - half + (2 * half * i) / res);
+          const py = toPy(y0 - half + (2 * half * (j + 0.5)) / res);
+          ctx.fillRect(px - 0.75, py - 0.75, 1.5, 1.5);
+        }
+      }
+    }
+  }
+
+  // Newton step: where the model's gradient is zero
+  const [gx, gy] = computeGradient(x0, y0, surfaceType);
+  const { xx, xy, yy } = computeHessian(x0, y0, surfaceType);
+  const det = xx * yy - xy * xy;
+  if (Math.abs(det) < 1e-9) return;
+  const nx = x0 - (yy * gx - xy * gy) / det;
+  const ny = y0 - (xx * gy - xy * gx) / det;
+  ctx.strokeStyle = COLORS.amber;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(toPx(x0), toPy(y0));
+  ctx.lineTo(toPx(nx), toPy(ny));
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.beginPath();
+  ctx.arc(toPx(nx), toPy(ny), 4, 0, Math.PI * 2);
+  ctx.stroke();
+}
+
+const NOISE_SAMPLE_COUNT = 40;
+
+/**
+ * Fan of descent directions the noise model could produce at `position`, drawn to scale with the
+ * exact negative gradient so the spread reads as signal-to-noise. Uses its own sampler so the
+ * runner's random stream is untouched.
+ */
+function drawGradientSamples(
+  ctx: CanvasRenderingContext2D,
+  position: [number, number],
+  surfaceType: Surface,
+  noise: GradientNoise,
+  toPx: (x: number) => number,
+  toPy: (y: number) => number,
+) {
+  const [x, y] = position;
+  const sampler = createGradientSampler(noise);
+  const samples = Array.from({ length: NOISE_SAMPLE_COUNT }, () => sampler(x, y, surfaceType));
+  const [gx, gy] = computeGradient(x, y, surfaceType);
+  const largest = Math.max(Math.hypot(gx, gy), ...samples.map(([sx, sy]) => Math.hypot(sx, sy)));
+  if (largest === 0) return;
+  // The longest arrow spans 60 pixels
+  const scale = 60 / largest;
+  const px = toPx(x);
+  const py = toPy(y);
+
+  ctx.save();
+  ctx.strokeStyle = 'rgba(255,255,255,0.25)';
+  ctx.lineWidth = 1;
+  for (const [sx, sy] of samples) {
+    ctx.beginPath();
+    ctx.moveTo(px, py);
+    ctx.lineTo(px - sx * scale, py + sy * scale);
+    ctx.stroke();
+  }
+  ctx.strokeStyle = COLORS.text;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(px, py);
+  ctx.lineTo(px - gx * scale, py + gy * scale);
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Tint each grid cell by the attractor runs started there reached. Cells that converged quickly
+ * are drawn more opaque; diverged cells are darkened and unconverged ones left untinted.
+ */
+function drawBasinOverlay(
+  ctx: CanvasRenderingContext2D,
+  basins: BasinMap,
+  width: number,
+  height: number,
+) {
+  const { resolution: n, outcomes, steps } = basins;
+  const cellW = width / n;
+  const cellH = height / n;
+  let maxSteps = 1;
+  for (let k = 0; k < outcomes.length; k++) {
+    if (outcomes[k] >= 0) maxSteps = Math.max(maxSteps, steps[k]);
+  }
+  ctx.save();
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const outcome = outcomes[row * n + col];
+      if (outcome === UNCONVERGED) continue;
+      if (outcome === DIVERGED) {
+        ctx.fillStyle = '#000000';
+        ctx.globalAlpha = 0.55;
+      } else {
+        ctx.fillStyle = COLORS.classColors[outcome % COLORS.classColors.length];
+        ctx.globalAlpha = 0.65 - 0.35 * (steps[row * n + col] / maxSteps);
+      }
+      // Rows run upward from -range, the canvas downward
+      ctx.fillRect(col * cellW, height - (row + 1) * cellH, cellW + 0.5, cellH + 0.5);
+    }
+  }
+  ctx.restore();
+}
 
 export default function GradientDescentPage() {
   const {
-    position,
-    path,
-    learningRate,
+    runners,
+    selectedRunnerId,
     surfaceType,
+    expression,
+    expressionError,
     isPlaying,
     stepCount,
     viewMode,
+    showQuadraticModel,
+    showBasins,
+    replayStep,
+    surfaceShading,
+    showGradientField,
+    topDown,
     setPosition,
     step,
     reset,
     setLearningRate,
     setSurfaceType,
+    setExpression,
+    setOptimizerType,
+    setOptimizerParam,
+    setScheduleType,
+    setScheduleParam,
+    addRunner,
+    removeRunner,
+    selectRunner,
+    raceAllOptimizers,
     togglePlaying,
     setViewMode,
+    setShowQuadraticModel,
+    setSurfaceShading,
+    setShowGradientField,
+    setTopDown,
   } = useGradientDescentStore();
+  const selected = useGradientDescentStore(selectSelectedRunner);
+  const basins = useGradientDescentStore(selectCurrentBasins);
+  const { optimizer, learningRate, schedule } = selected;
+  // While scrubbing, every view shows the runs as they were at the chosen step
+  const shownRunners = runners.map((r) => runnerAtStep(r, replayStep));
+  const { position } = runnerAtStep(selected, replayStep);
+  const surfaceInfo = getSurfaceInfo(surfaceType);
+  const nearest = nearestMinimum(position, surfaceInfo.minima);
+  const [lambda1, lambda2] = hessianEigenvalues(
+    computeHessian(position[0], position[1], surfaceType),
+  );
 
   const rafRef = useRef<number | null>(null);
 
@@ -66,6 +316,7 @@ export default function GradientDescentPage() {
   const onContourClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
       const canvas = e.currentTarget;
+      const { range } = getSurfaceInfo(surfaceType);
       const rect = canvas.getBoundingClientRect();
       const mx = (e.clientX - rect.left) * (canvas.width / rect.width);
       const my = (e.clientY - rect.top) * (canvas.height / rect.height);
@@ -74,12 +325,12 @@ export default function GradientDescentPage() {
         my,
         canvas.width,
         canvas.height,
-        [-RANGE, RANGE],
-        [-RANGE, RANGE],
+        [-range, range],
+        [-range, range],
       );
       setPosition([dx, dy]);
     },
-    [setPosition],
+    [setPosition, surfaceType],
   );
 
   // Contour renderer
@@ -92,6 +343,12 @@ export default function GradientDescentPage() {
       ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
 
       clearCanvas(ctx, width, height);
+      const { range, zClip, minima } = getSurfaceInfo(surfaceType);
+      const toPx = (x: number) => ((x + range) / (2 * range)) * width;
+      const toPy = (y: number) => ((range - y) / (2 * range)) * height;
+      const trails = runners.map((r) => runnerAtStep(r, replayStep));
+      const shownSelected = trails.find((r) => r.id === selectedRunnerId) ?? trails[0];
+      const current = shownSelected.position;
 
       // Compute surface values for coloring
       const res = 100;
@@ -105,10 +362,10 @@ export default function GradientDescentPage() {
       for (let i = 0; i < res; i++) {
         zGrid[i] = [];
         for (let j = 0; j < res; j++) {
-          const x = -RANGE + (i / res) * 2 * RANGE;
-          const y = RANGE - (j / res) * 2 * RANGE;
+          const x = -range + (i / res) * 2 * range;
+          const y = range - (j / res) * 2 * range;
           let z = evaluateSurface(x, y, surfaceType);
-          z = Math.min(z, 20);
+          z = Math.min(z, zClip);
           zGrid[i][j] = z;
           if (z < zMin) zMin = z;
           if (z > zMax) zMax = z;
@@ -153,43 +410,68 @@ export default function GradientDescentPage() {
         }
       }
 
-      // Draw path
-      if (path.length > 1) {
-        ctx.strokeStyle = COLORS.red;
-        ctx.lineWidth = 2;
+      if (basins && showBasins) drawBasinOverlay(ctx, basins, width, height);
+
+      // Mark the known global minima
+      ctx.strokeStyle = COLORS.text;
+      ctx.lineWidth = 1.5;
+      for (const [mx, my] of minima) {
+        const px = toPx(mx);
+        const py = toPy(my);
         ctx.beginPath();
-        for (let i = 0; i < path.length; i++) {
-          const px = ((path[i][0] + RANGE) / (2 * RANGE)) * width;
-          const py = ((RANGE - path[i][1]) / (2 * RANGE)) * height;
-          if (i === 0) ctx.moveTo(px, py);
-          else ctx.lineTo(px, py);
-        }
+        ctx.moveTo(px - 5, py - 5);
+        ctx.lineTo(px + 5, py + 5);
+        ctx.moveTo(px + 5, py - 5);
+        ctx.lineTo(px - 5, py + 5);
         ctx.stroke();
       }
 
-      // Draw path points
-      for (let i = 0; i < path.length; i++) {
-        const px = ((path[i][0] + RANGE) / (2 * RANGE)) * width;
-        const py = ((RANGE - path[i][1]) / (2 * RANGE)) * height;
-        ctx.beginPath();
-        ctx.arc(px, py, i === path.length - 1 ? 5 : 3, 0, Math.PI * 2);
-        ctx.fillStyle = i === path.length - 1 ? COLORS.red : '#f97316';
-        ctx.fill();
+      if (showQuadraticModel) drawQuadraticModel(ctx, current, surfaceType, range, toPx, toPy);
+
+      if (shownSelected.noise.type !== 'none') {
+        drawGradientSamples(ctx, current, surfaceType, shownSelected.noise, toPx, toPy);
+      }
+
+      // Draw one trail per runner
+      for (const r of trails) {
+        const { path } = r;
+        if (path.length > 1) {
+          ctx.strokeStyle = r.color;
+          ctx.lineWidth = r.id === selectedRunnerId ? 2.5 : 1.5;
+          ctx.beginPath();
+          for (let i = 0; i < path.length; i++) {
+            const px = toPx(path[i][0]);
+            const py = toPy(path[i][1]);
+            if (i === 0) ctx.moveTo(px, py);
+            else ctx.lineTo(px, py);
+          }
+          ctx.stroke();
+        }
+
+        // Draw path points
+        ctx.fillStyle = r.color;
+        for (let i = 0; i < path.length; i++) {
+          const px = toPx(path[i][0]);
+          const py = toPy(path[i][1]);
+          ctx.beginPath();
+          ctx.arc(px, py, i === path.length - 1 ? 5 : 2, 0, Math.PI * 2);
+          ctx.fill();
+        }
       }
 
       // Info text
       ctx.fillStyle = COLORS.text;
       ctx.font = '12px monospace';
-      const z = evaluateSurface(position[0], position[1], surfaceType);
+      const z = evaluateSurface(current[0], current[1], surfaceType);
       ctx.fillText(
-        `f(${position[0].toFixed(2)}, ${position[1].toFixed(2)}) = ${z.toFixed(4)}`,
+        `f(${current[0].toFixed(2)}, ${current[1].toFixed(2)}) = ${z.toFixed(4)}`,
         10,
         20,
       );
 
       ctx.restore();
     },
-    [surfaceType, path, position],
+    [surfaceType, runners, selectedRunnerId, replayStep, showQuadraticModel, basins, showBasins],
   );
 
   const controls = (
@@ -209,6 +491,106 @@ export default function GradientDescentPage() {
               {opt.label}
             </button>
           ))}
+          <button
+            onClick={() => setExpression(expression)}
+            className={`text-left px-3 py-1.5 rounded text-sm transition-colors ${
+              isExpressionSurface(surfaceType)
+                ? 'bg-primary/10 text-primary-light'
+                : 'text-text-muted hover:bg-surface-lighter'
+            }`}
+          >
+            Custom Expression
+          </button>
+        </div>
+        {isExpressionSurface(surfaceType) && (
+          <div className="space-y-1">
+            <input
+              type="text"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              spellCheck={false}
+              aria-label="Surface expression in x and y"
+              aria-invalid={expressionError !== null}
+              className={`w-full px-3 py-1.5 text-sm font-mono bg-surface-light border rounded-md text-text focus:outline-none ${
+                expressionError ? 'border-red-400' : 'border-border focus:border-primary'
+              }`}
+            />
+            {expressionError ? (
+              <>
+                <pre className="px-3 text-sm font-mono text-red-400 overflow-hidden">
+                  {' '.repeat(expressionError.position)}^
+                </pre>
+                <p className="text-xs text-red-400">{expressionError.message}</p>
+              </>
+            ) : (
+              <p className="text-xs text-text-muted">
+                Use x, y, + − * / ^, pi, e and sin, cos, tan, tanh, exp, log, sqrt, abs.
+              </p>
+            )}
+          </div>
+        )}
+      </ParameterPanel>
+
+      <ParameterPanel title="Runners">
+        <div className="flex flex-col gap-1">
+          {runners.map((r) => (
+            <div key={r.id} className="flex items-center gap-1">
+              <button
+                onClick={() => selectRunner(r.id)}
+                className={`flex-1 flex items-center gap-2 px-3 py-1.5 rounded text-sm transition-colors ${
+                  r.id === selectedRunnerId
+                    ? 'bg-primary/15 text-primary-light border border-primary/30'
+                    : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+                }`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ background: r.color }} />
+                <span className="flex-1 text-left">{r.name}</span>
+                <span className="font-mono text-xs">{r.learningRate.toFixed(3)}</span>
+              </button>
+              {runners.length > 1 && (
+                <button
+                  onClick={() => removeRunner(r.id)}
+                  aria-label={`Remove ${r.name}`}
+                  className="px-2 py-1.5 rounded text-sm text-text-muted hover:text-text hover:bg-surface-lighter transition-colors"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => addRunner(optimizer.type)}
+            disabled={runners.length >= MAX_RUNNERS}
+            className="flex-1 px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Runner
+          </button>
+          <button
+            onClick={raceAllOptimizers}
+            className="flex-1 px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors"
+          >
+            Race All
+          </button>
+        </div>
+      </ParameterPanel>
+
+      <ParameterPanel title="Optimizer">
+        <div className="grid grid-cols-3 gap-2">
+          {OPTIMIZER_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setOptimizerType(opt.value)}
+              className={`px-2 py-1.5 rounded text-sm transition-colors ${
+                optimizer.type === opt.value
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
         </div>
       </ParameterPanel>
 
@@ -217,11 +599,164 @@ export default function GradientDescentPage() {
           label="Learning Rate"
           value={learningRate}
           min={0.001}
-          max={0.5}
+          max={MAX_LEARNING_RATE}
           step={0.001}
           onChange={setLearningRate}
           format={(v) => v.toFixed(3)}
         />
+        {(optimizer.type === 'momentum' || optimizer.type === 'nesterov') && (
+          <ParameterSlider
+            label="Momentum β"
+            value={optimizer.momentum}
+            min={0}
+            max={0.99}
+            step={0.01}
+            onChange={(v) => setOptimizerParam('momentum', v)}
+            format={(v) => v.toFixed(2)}
+          />
+        )}
+        {optimizer.type === 'rmsprop' && (
+          <ParameterSlider
+            label="Decay ρ"
+            value={optimizer.rho}
+            min={0.5}
+            max={0.999}
+            step={0.001}
+            onChange={(v) => setOptimizerParam('rho', v)}
+            format={(v) => v.toFixed(3)}
+          />
+        )}
+        {optimizer.type === 'newton' && (
+          <p className="text-xs text-text-muted">
+            Newton jumps to the minimum of the local quadratic model, so the learning rate is
+            unused.
+          </p>
+        )}
+        {optimizer.type === 'damped-newton' && (
+          <ParameterSlider
+            label="Damping μ"
+            value={optimizer.damping}
+            min={0.01}
+            max={5}
+            step={0.01}
+            onChange={(v) => setOptimizerParam('damping', v)}
+            format={(v) => v.toFixed(2)}
+          />
+        )}
+        {optimizer.type === 'lbfgs' && (
+          <ParameterSlider
+            label="History m"
+            value={optimizer.historySize}
+            min={1}
+            max={20}
+            step={1}
+            onChange={(v) => setOptimizerParam('historySize', v)}
+          />
+        )}
+        {optimizer.type === 'adam' && (
+          <>
+            <ParameterSlider
+              label="β₁"
+              value={optimizer.beta1}
+              min={0}
+              max={0.99}
+              step={0.01}
+              onChange={(v) => setOptimizerParam('beta1', v)}
+              format={(v) => v.toFixed(2)}
+            />
+            <ParameterSlider
+              label="β₂"
+              value={optimizer.beta2}
+              min={0.9}
+              max={0.9999}
+              step={0.0001}
+              onChange={(v) => setOptimizerParam('beta2', v)}
+              format={(v) => v.toFixed(4)}
+            />
+          </>
+        )}
+      </ParameterPanel>
+
+      <ParameterPanel title="Schedule">
+        <div className="grid grid-cols-3 gap-2">
+          {SCHEDULE_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setScheduleType(opt.value)}
+              className={`px-2 py-1.5 rounded text-sm transition-colors ${
+                schedule.type === opt.value
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        {schedule.type === 'step' && (
+          <ParameterSlider
+            label="Drop Every"
+            value={schedule.stepSize}
+            min={5}
+            max={200}
+            step={5}
+            onChange={(v) => setScheduleParam('stepSize', v)}
+            format={(v) => `${v} steps`}
+          />
+        )}
+        {schedule.type === 'step' && (
+          <ParameterSlider
+            label="Drop Factor γ"
+            value={schedule.gamma}
+            min={0.1}
+            max={0.95}
+            step={0.05}
+            onChange={(v) => setScheduleParam('gamma', v)}
+            format={(v) => v.toFixed(2)}
+          />
+        )}
+        {schedule.type === 'exponential' && (
+          <ParameterSlider
+            label="Decay γ"
+            value={schedule.decay}
+            min={0.9}
+            max={0.999}
+            step={0.001}
+            onChange={(v) => setScheduleParam('decay', v)}
+            format={(v) => v.toFixed(3)}
+          />
+        )}
+        {(schedule.type === 'cosine' || schedule.type === 'cosine-restarts') && (
+          <>
+            <ParameterSlider
+              label="Period"
+              value={schedule.period}
+              min={10}
+              max={500}
+              step={10}
+              onChange={(v) => setScheduleParam('period', v)}
+              format={(v) => `${v} steps`}
+            />
+            <ParameterSlider
+              label="Minimum"
+              value={schedule.minFactor}
+              min={0}
+              max={0.5}
+              step={0.01}
+              onChange={(v) => setScheduleParam('minFactor', v)}
+              format={(v) => `${Math.round(v * 100)}%`}
+            />
+          </>
+        )}
+        <ParameterSlider
+          label="Warmup"
+          value={schedule.warmupSteps}
+          min={0}
+          max={100}
+          step={1}
+          onChange={(v) => setScheduleParam('warmupSteps', v)}
+          format={(v) => (v === 0 ? 'off' : `${v} steps`)}
+        />
       </ParameterPanel>
 
       <ParameterPanel title="Controls">
@@ -259,8 +794,70 @@ export default function GradientDescentPage() {
             Contour
           </button>
         </div>
+        {viewMode === '3d' && (
+          <>
+            <div className="flex gap-1">
+              {SHADING_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => setSurfaceShading(opt.value)}
+                  className={`flex-1 px-2 py-1.5 rounded text-xs transition-colors ${
+                    surfaceShading === opt.value
+                      ? 'bg-primary/15 text-primary-light border border-primary/30'
+                      : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowGradientField(!showGradientField)}
+                aria-pressed={showGradientField}
+                className={`flex-1 px-3 py-1.5 rounded text-sm transition-colors ${
+                  showGradientField
+                    ? 'bg-primary/15 text-primary-light border border-primary/30'
+                    : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+                }`}
+              >
+                Gradient Field
+              </button>
+              <button
+                onClick={() => setTopDown(!topDown)}
+                aria-pressed={topDown}
+                className={`flex-1 px-3 py-1.5 rounded text-sm transition-colors ${
+                  topDown
+                    ? 'bg-primary/15 text-primary-light border border-primary/30'
+                    : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+                }`}
+              >
+                Top Down
+              </button>
+            </div>
+          </>
+        )}
+        {viewMode === 'contour' && (
+          <button
+            onClick={() => setShowQuadraticModel(!showQuadraticModel)}
+            aria-pressed={showQuadraticModel}
+            className={`w-full px-3 py-1.5 rounded text-sm transition-colors ${
+              showQuadraticModel
+                ? 'bg-primary/15 text-primary-light border border-primary/30'
+                : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+            }`}
+          >
+            Quadratic Model
+          </button>
+        )}
       </ParameterPanel>
 
+      <NoisePanel />
+
+      <ReplayPanel />
+
+      <BasinPanel />
+
       <ParameterPanel title="Status">
         <div className="bg-surface rounded-lg p-3 border border-white/[0.04]">
           <p className="text-[10px] text-text-muted uppercase tracking-wider">Steps</p>
@@ -272,12 +869,32 @@ export default function GradientDescentPage() {
             {evaluateSurface(position[0], position[1], surfaceType).toFixed(4)}
           </p>
         </div>
+        {nearest && (
+          <div className="bg-surface rounded-lg p-3 border border-white/[0.04]">
+            <p className="text-[10px] text-text-muted uppercase tracking-wider">Nearest Minimum</p>
+            <p className="text-lg font-mono text-text">{nearest.distance.toFixed(4)}</p>
+            <p className="text-xs text-text-muted font-mono">
+              ({surfaceInfo.minima[nearest.index].map((v) => v.toFixed(3)).join(', ')})
+            </p>
+          </div>
+        )}
+        <div className="bg-surface rounded-lg p-3 border border-white/[0.04]">
+          <p className="text-[10px] text-text-muted uppercase tracking-wider">
+            Hessian Eigenvalues
+          </p>
+          <p className="text-lg font-mono text-text">
+            {lambda1.toFixed(2)}, {lambda2.toFixed(2)}
+          </p>
+          <p className="text-xs text-text-muted">{describeCurvature(lambda1, lambda2)}</p>
+        </div>
       </ParameterPanel>
 
       <div className="text-xs text-text-muted leading-relaxed">
         {viewMode === 'contour'
           ? 'Click on the contour map to set the starting position. Use Step or Play to watch gradient descent find the minimum.'
-          : 'Drag to rotate the 3D view. The red path shows the gradient descent trajectory.'}
+          : topDown
+            ? 'Scroll to zoom and drag to pan the top-down view. Each coloured path is one runner; the leaderboard ranks them by current value.'
+            : 'Drag to rotate the 3D view. Each coloured path is one runner; the leaderboard ranks them by current value.'}
       </div>
     </div>
   );
@@ -288,25 +905,49 @@ export default function GradientDescentPage() {
       description="Visualize gradient descent on various loss surfaces"
       controls={controls}
     >
-      {viewMode === '3d' ? (
-        <div className="w-full h-full rounded-lg overflow-hidden" style={{ background: '#1e293b' }}>
-          <Canvas camera={{ position: [6, 5, 6], fov: 50 }}>
-            <ambientLight intensity={1.2} />
-            <directionalLight position={[5, 10, 5]} intensity={1.5} />
-            <directionalLight position={[-5, 3, -5]} intensity={0.6} />
-            <LossSurface surfaceType={surfaceType} onSurfaceClick={(x, y) => setPosition([x, y])} />
-            <GradientPath path={path} surfaceType={surfaceType} />
-            <CameraControls />
-          </Canvas>
+      <div className="flex flex-col gap-4 h-full">
+        <div className="flex-1 min-h-0">
+          {viewMode === '3d' ? (
+            <div
+              className="w-full h-full rounded-lg overflow-hidden"
+              style={{ background: '#1e293b' }}
+            >
+              <Canvas camera={{ position: [6, 5, 6], fov: 50 }}>
+                <ambientLight intensity={1.2} />
+                <directionalLight position={[5, 10, 5]} intensity={1.5} />
+                <directionalLight position={[-5, 3, -5]} intensity={0.6} />
+                <LossSurface
+                  surfaceType={surfaceType}
+                  shading={surfaceShading}
+                  onSurfaceClick={(x, y) => setPosition([x, y])}
+                />
+                {showGradientField && <GradientField surfaceType={surfaceType} />}
+                {shownRunners.map((r) => (
+                  <GradientPath
+                    key={r.id}
+                    path={r.path}
+                    surfaceType={surfaceType}
+                    color={r.color}
+                  />
+                ))}
+                <CameraControls topDown={topDown} />
+              </Canvas>
+            </div>
+          ) : (
+            <InteractiveCanvas
+              ariaLabel="Gradient descent contour plot — click to set starting position"
+              render={renderContour}
+              onMouseDown={onContourClick}
+              deps={[surfaceType, runners, selectedRunnerId, replayStep]}
+            />
+          )}
         </div>
-      ) : (
-        <InteractiveCanvas
-          ariaLabel="Gradient descent contour plot — click to set starting position"
-          render={renderContour}
-          onMouseDown={onContourClick}
-          deps={[surfaceType, path, position]}
-        />
-      )}
+        <div className="h-52 shrink-0 grid grid-cols-3 gap-4">
+          <LossRaceChart />
+          <LearningRateChart />
+          <RaceLeaderboard />
+        </div>
+      </div>
     </ModuleLayout>
   );
 }
@@ -0,0 +1,68 @@
+import { useCallback } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useGradientDescentStore } from '../../stores/useGradientDescentStore';
+import { clearCanvas } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+
+export function LearningRateChart() {
+  const runners = useGradientDescentStore((s) => s.runners);
+  const stepCount = useGradientDescentStore((s) => s.stepCount);
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (stepCount === 0) {
+        ctx.fillStyle = COLORS.textMuted;
+        ctx.fillText('The effective learning rate appears here.', PADDING, height / 2);
+        ctx.restore();
+        return;
+      }
+
+      let maxLr = 1e-6;
+      for (const r of runners) {
+        for (const lr of r.learningRates) maxLr = Math.max(maxLr, lr);
+      }
+
+      // Rates are drawn at the step they were used for, so step 1 uses the first rate
+      const toX = (step: number) => PADDING + (step / stepCount) * (width - 2 * PADDING);
+      const toY = (lr: number) => PADDING / 2 + (1 - lr / maxLr) * (height - 1.5 * PADDING);
+
+      for (const r of runners) {
+        ctx.strokeStyle = r.color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        for (let i = 0; i < r.learningRates.length; i++) {
+          if (i === 0) ctx.moveTo(toX(i + 1), toY(r.learningRates[i]));
+          else ctx.lineTo(toX(i + 1), toY(r.learningRates[i]));
+        }
+        ctx.stroke();
+      }
+
+      ctx.fillStyle = COLORS.textMuted;
+      ctx.fillText(`learning rate, 0 to ${maxLr.toPrecision(2)}`, PADDING, 14);
+      ctx.fillText('step 1', PADDING, height - 6);
+      ctx.fillText(`${stepCount}`, width - PADDING - 30, height - 6);
+
+      ctx.restore();
+    },
+    [runners, stepCount],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Learning rate chart — effective learning rate per step for every optimizer"
+      render={render}
+      deps={[runners, stepCount]}
+    />
+  );
+}
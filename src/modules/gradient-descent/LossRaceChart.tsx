@@ -0,0 +1,87 @@
+import { useCallback } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useGradientDescentStore } from '../../stores/useGradientDescentStore';
+import { clearCanvas } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+// Same cap the contour view uses, so a runner that starts high does not flatten the others
+const LOSS_CAP = 20;
+
+export function LossRaceChart() {
+  const runners = useGradientDescentStore((s) => s.runners);
+  const stepCount = useGradientDescentStore((s) => s.stepCount);
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (stepCount === 0) {
+        ctx.fillStyle = COLORS.textMuted;
+        ctx.fillText('Step or play to race the optimizers.', PADDING, height / 2);
+        ctx.restore();
+        return;
+      }
+
+      let lo = Infinity;
+      let hi = -Infinity;
+      for (const r of runners) {
+        for (const loss of r.losses) {
+          const v = Math.min(loss, LOSS_CAP);
+          lo = Math.min(lo, v);
+          hi = Math.max(hi, v);
+        }
+      }
+      if (hi - lo < 1e-9) hi = lo + 1;
+
+      const toX = (step: number) => PADDING + (step / stepCount) * (width - 2 * PADDING);
+      const toY = (loss: number) =>
+        PADDING / 2 + ((hi - Math.min(loss, LOSS_CAP)) / (hi - lo)) * (height - 1.5 * PADDING);
+
+      for (const r of runners) {
+        ctx.strokeStyle = r.color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        for (let i = 0; i < r.losses.length; i++) {
+          if (i === 0) ctx.moveTo(toX(i), toY(r.losses[i]));
+          else ctx.lineTo(toX(i), toY(r.losses[i]));
+        }
+        ctx.stroke();
+
+        // Converged marker
+        if (r.convergedAt !== null) {
+          const x = toX(r.convergedAt);
+          const y = toY(r.losses[r.convergedAt]);
+          ctx.fillStyle = r.color;
+          ctx.beginPath();
+          ctx.arc(x, y, 4, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.fillText(`${r.convergedAt}`, x + 6, y - 6);
+        }
+      }
+
+      ctx.fillStyle = COLORS.textMuted;
+      ctx.fillText(`loss, ${lo.toFixed(2)} to ${hi.toFixed(2)}`, PADDING, 14);
+      ctx.fillText('step 0', PADDING, height - 6);
+      ctx.fillText(`${stepCount}`, width - PADDING - 30, height - 6);
+
+      ctx.restore();
+    },
+    [runners, stepCount],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Loss race chart — surface value against step for every optimizer"
+      render={render}
+      deps={[runners, stepCount]}
+    />
+  );
+}
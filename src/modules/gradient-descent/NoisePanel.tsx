@@ -0,0 +1,100 @@
+import { ParameterPanel } from '../../components/shared/ParameterPanel';
+import { ParameterSlider } from '../../components/shared/ParameterSlider';
+import {
+  selectSelectedRunner,
+  useGradientDescentStore,
+} from '../../stores/useGradientDescentStore';
+import type { NoiseType } from '../../ml/gradient-descent';
+
+const NOISE_OPTIONS: { value: NoiseType; label: string }[] = [
+  { value: 'none', label: 'Exact' },
+  { value: 'gaussian', label: 'Gaussian' },
+  { value: 'minibatch', label: 'Minibatch' },
+];
+
+export function NoisePanel() {
+  const { noise } = useGradientDescentStore(selectSelectedRunner);
+  const setNoiseType = useGradientDescentStore((s) => s.setNoiseType);
+  const setNoiseParam = useGradientDescentStore((s) => s.setNoiseParam);
+  const compareBatchSizes = useGradientDescentStore((s) => s.compareBatchSizes);
+
+  return (
+    <ParameterPanel title="Gradient Noise">
+      <div className="grid grid-cols-3 gap-2">
+        {NOISE_OPTIONS.map((opt) => (
+          <button
+            key={opt.value}
+            onClick={() => setNoiseType(opt.value)}
+            className={`px-2 py-1.5 rounded text-sm transition-colors ${
+              noise.type === opt.value
+                ? 'bg-primary/15 text-primary-light border border-primary/30'
+                : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+      {noise.type !== 'none' && (
+        <>
+          <ParameterSlider
+            label={noise.type === 'gaussian' ? 'Noise Variance' : 'Per-Example Variance'}
+            value={noise.variance}
+            min={0.1}
+            max={25}
+            step={0.1}
+            onChange={(v) => setNoiseParam('variance', v)}
+            format={(v) => v.toFixed(1)}
+          />
+          {noise.type === 'minibatch' && (
+            <>
+              <ParameterSlider
+                label="Dataset Size"
+                value={noise.datasetSize}
+                min={16}
+                max={1024}
+                step={16}
+                onChange={(v) => setNoiseParam('datasetSize', v)}
+              />
+              <ParameterSlider
+                label="Batch Size"
+                value={Math.min(noise.batchSize, noise.datasetSize)}
+                min={1}
+                max={noise.datasetSize}
+                step={1}
+                onChange={(v) => setNoiseParam('batchSize', v)}
+              />
+            </>
+          )}
+          <ParameterSlider
+            label="Samples Averaged"
+            value={noise.samples}
+            min={1}
+            max={32}
+            step={1}
+            onChange={(v) => setNoiseParam('samples', v)}
+          />
+          <ParameterSlider
+            label="Seed"
+            value={noise.seed}
+            min={1}
+            max={100}
+            step={1}
+            onChange={(v) => setNoiseParam('seed', v)}
+          />
+        </>
+      )}
+      <button
+        onClick={compareBatchSizes}
+        className="w-full px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors"
+      >
+        Compare Batch Sizes
+      </button>
+      <p className="text-xs text-text-muted">
+        {noise.type === 'none'
+          ? 'Runs use the exact gradient. Add noise to imitate stochastic training.'
+          : 'The contour view fans out the descent directions the noise could produce here. Changing a setting restarts the race from the same seed.'}
+      </p>
+    </ParameterPanel>
+  );
+}
@@ -0,0 +1,47 @@
+import { useGradientDescentStore, type Runner } from '../../stores/useGradientDescentStore';
+
+function describeOutcome(r: Runner): string {
+  if (r.convergedAt === null || !r.outcome) return '';
+  const { distance, minimumIndex } = r.outcome;
+  if (minimumIndex !== null) return `min ${minimumIndex + 1} @ step ${r.convergedAt}`;
+  if (distance !== null) return `stuck ${distance.toFixed(2)} away @ ${r.convergedAt}`;
+  return `converged @ ${r.convergedAt}`;
+}
+
+export function RaceLeaderboard() {
+  const runners = useGradientDescentStore((s) => s.runners);
+  const selectedRunnerId = useGradientDescentStore((s) => s.selectedRunnerId);
+  const selectRunner = useGradientDescentStore((s) => s.selectRunner);
+
+  const ranked = [...runners].sort(
+    (a, b) => a.losses[a.losses.length - 1] - b.losses[b.losses.length - 1],
+  );
+
+  return (
+    <div className="h-full overflow-y-auto rounded-lg bg-surface border border-white/[0.04] p-3">
+      <p className="text-[10px] text-text-muted uppercase tracking-wider mb-2">Leaderboard</p>
+      <ol className="space-y-1">
+        {ranked.map((r, rank) => (
+          <li key={r.id}>
+            <button
+              onClick={() => selectRunner(r.id)}
+              className={`w-full flex items-center gap-2 px-2 py-1 rounded text-sm transition-colors ${
+                r.id === selectedRunnerId
+                  ? 'bg-primary/15 text-primary-light'
+                  : 'text-text-muted hover:text-text hover:bg-surface-lighter'
+              }`}
+            >
+              <span className="w-4 text-right font-mono tabular-nums">{rank + 1}</span>
+              <span className="w-2.5 h-2.5 rounded-full" style={{ background: r.color }} />
+              <span className="flex-1 text-left">{r.name}</span>
+              <span className="font-mono tabular-nums">
+                {r.losses[r.losses.length - 1].toFixed(4)}
+              </span>
+              <span className="w-36 text-right text-xs">{describeOutcome(r)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
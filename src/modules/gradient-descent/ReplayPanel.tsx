@@ -0,0 +1,146 @@
+import { useEffect, useRef } from 'react';
+import { Download, Pause, Play, Upload } from 'lucide-react';
+import { ParameterPanel } from '../../components/shared/ParameterPanel';
+import { ParameterSlider } from '../../components/shared/ParameterSlider';
+import {
+  runnerAtStep,
+  selectSelectedRunner,
+  useGradientDescentStore,
+} from '../../stores/useGradientDescentStore';
+
+const SPEED_OPTIONS = [2, 5, 10, 25];
+
+function downloadJson(text: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ReplayPanel() {
+  const stepCount = useGradientDescentStore((s) => s.stepCount);
+  const replayStep = useGradientDescentStore((s) => s.replayStep);
+  const replayPlaying = useGradientDescentStore((s) => s.replayPlaying);
+  const replaySpeed = useGradientDescentStore((s) => s.replaySpeed);
+  const importError = useGradientDescentStore((s) => s.importError);
+  const selected = useGradientDescentStore(selectSelectedRunner);
+  const setReplayStep = useGradientDescentStore((s) => s.setReplayStep);
+  const toggleReplay = useGradientDescentStore((s) => s.toggleReplay);
+  const advanceReplay = useGradientDescentStore((s) => s.advanceReplay);
+  const setReplaySpeed = useGradientDescentStore((s) => s.setReplaySpeed);
+  const exportRuns = useGradientDescentStore((s) => s.exportRuns);
+  const importRuns = useGradientDescentStore((s) => s.importRuns);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!replayPlaying) return;
+    const id = setInterval(advanceReplay, 1000 / replaySpeed);
+    return () => clearInterval(id);
+  }, [replayPlaying, replaySpeed, advanceReplay]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importRuns(await file.text());
+  };
+
+  // The selected runner's state at the shown step; it may have stopped earlier
+  const shown = runnerAtStep(selected, replayStep);
+  const index = shown.path.length - 1;
+  const [gx, gy] = shown.gradients[index];
+
+  return (
+    <ParameterPanel title="Replay">
+      {stepCount > 0 ? (
+        <>
+          <ParameterSlider
+            label="Step"
+            value={replayStep ?? stepCount}
+            min={0}
+            max={stepCount}
+            step={1}
+            onChange={setReplayStep}
+            format={(v) => `${v} / ${stepCount}`}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={toggleReplay}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors"
+            >
+              {replayPlaying ? <Pause size={14} /> : <Play size={14} />}
+              {replayPlaying ? 'Pause' : 'Replay'}
+            </button>
+            <button
+              onClick={() => setReplayStep(null)}
+              disabled={replayStep === null}
+              className="flex-1 px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Live
+            </button>
+          </div>
+          <div className="flex gap-1">
+            {SPEED_OPTIONS.map((speed) => (
+              <button
+                key={speed}
+                onClick={() => setReplaySpeed(speed)}
+                className={`flex-1 px-2 py-1.5 rounded text-xs transition-colors ${
+                  replaySpeed === speed
+                    ? 'bg-primary/15 text-primary-light border border-primary/30'
+                    : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+                }`}
+              >
+                {speed}/s
+              </button>
+            ))}
+          </div>
+          <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+            <dt className="text-text-muted">Position</dt>
+            <dd className="font-mono text-text text-right">
+              ({shown.position[0].toFixed(3)}, {shown.position[1].toFixed(3)})
+            </dd>
+            <dt className="text-text-muted">Gradient</dt>
+            <dd className="font-mono text-text text-right">
+              ({gx.toFixed(3)}, {gy.toFixed(3)})
+            </dd>
+            <dt className="text-text-muted">Loss</dt>
+            <dd className="font-mono text-text text-right">{shown.losses[index].toFixed(4)}</dd>
+            <dt className="text-text-muted">Learning Rate</dt>
+            <dd className="font-mono text-text text-right">
+              {index > 0 ? shown.learningRates[index - 1].toPrecision(3) : '—'}
+            </dd>
+          </dl>
+        </>
+      ) : (
+        <p className="text-xs text-text-muted">
+          Take some steps to record a run, then scrub back through it here.
+        </p>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadJson(exportRuns(), 'gradient-descent-run.json')}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors"
+        >
+          <Download size={14} />
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors"
+        >
+          <Upload size={14} />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      {importError && <p className="text-xs text-red-400">{importError}</p>}
+    </ParameterPanel>
+  );
+}
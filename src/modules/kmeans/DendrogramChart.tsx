@@ -0,0 +1,104 @@
+import { useCallback, useMemo } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useKMeansStore } from '../../stores/useKMeansStore';
+import { dendrogramOrder } from '../../ml/hierarchical';
+import { clearCanvas } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+
+export function DendrogramChart() {
+  const merges = useKMeansStore((s) => s.merges);
+  const cutHeight = useKMeansStore((s) => s.cutHeight);
+  const assignments = useKMeansStore((s) => s.assignments);
+  const setCutHeight = useKMeansStore((s) => s.setCutHeight);
+
+  const n = merges.length + 1;
+  const maxHeight = merges.length > 0 ? Math.max(merges[merges.length - 1].distance, 1e-9) : 1;
+  const order = useMemo(() => dendrogramOrder(merges, n), [merges, n]);
+  const numClusters = assignments.length > 0 ? Math.max(...assignments) + 1 : 0;
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (merges.length === 0) {
+        ctx.fillStyle = COLORS.textMuted;
+        ctx.fillText('Run hierarchical clustering to build the dendrogram.', PADDING, height / 2);
+        ctx.restore();
+        return;
+      }
+
+      const toY = (d: number) => height - PADDING - (d / maxHeight) * (height - 1.5 * PADDING);
+      const leafX = new Map<number, number>();
+      order.forEach((leaf, i) => {
+        leafX.set(leaf, PADDING + ((i + 0.5) / n) * (width - 2 * PADDING));
+      });
+
+      // Each node's x is the midpoint of its children; leaves sit at the bottom
+      const nodeX = (id: number) => leafX.get(id) ?? 0;
+      const nodeHeight = (id: number) => (id < n ? 0 : merges[id - n].distance);
+      ctx.lineWidth = 1;
+      merges.forEach((m, i) => {
+        const xa = nodeX(m.a);
+        const xb = nodeX(m.b);
+        const y = toY(m.distance);
+        ctx.strokeStyle = m.distance <= cutHeight ? COLORS.primary : COLORS.textMuted;
+        ctx.beginPath();
+        ctx.moveTo(xa, toY(nodeHeight(m.a)));
+        ctx.lineTo(xa, y);
+        ctx.lineTo(xb, y);
+        ctx.lineTo(xb, toY(nodeHeight(m.b)));
+        ctx.stroke();
+        leafX.set(n + i, (xa + xb) / 2);
+      });
+
+      // Cut line
+      const cutY = toY(Math.min(cutHeight, maxHeight));
+      ctx.strokeStyle = COLORS.amber;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(PADDING, cutY);
+      ctx.lineTo(width - PADDING, cutY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.fillStyle = COLORS.textMuted;
+      ctx.fillText(
+        `cut at ${cutHeight.toFixed(3)} → ${numClusters} clusters — click to move the cut`,
+        PADDING,
+        12,
+      );
+
+      ctx.restore();
+    },
+    [merges, order, n, maxHeight, cutHeight, numClusters],
+  );
+
+  const onMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (merges.length === 0) return;
+      const rect = e.currentTarget.getBoundingClientRect();
+      const y = e.clientY - rect.top;
+      const fraction = (rect.height - PADDING - y) / (rect.height - 1.5 * PADDING);
+      setCutHeight(Math.max(0, Math.min(1, fraction)) * maxHeight);
+    },
+    [merges, maxHeight, setCutHeight],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Dendrogram — click to set the height where the tree is cut into clusters"
+      render={render}
+      onMouseDown={onMouseDown}
+      deps={[merges, cutHeight, numClusters]}
+    />
+  );
+}
@@ -0,0 +1,126 @@
+import { useCallback, useMemo } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useKMeansStore } from '../../stores/useKMeansStore';
+import { clearCanvas, drawPoint } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+// Smallest k the page's slider accepts; clicks on lower k are ignored
+const MIN_SELECTABLE_K = 2;
+
+function kToX(k: number, maxK: number, width: number): number {
+  return PADDING + ((k - 1) / Math.max(1, maxK - 1)) * (width - 2 * PADDING);
+}
+
+interface KAnalysisChartProps {
+  metric: 'inertia' | 'silhouette';
+}
+
+export function KAnalysisChart({ metric }: KAnalysisChartProps) {
+  const analysis = useKMeansStore((s) => s.analysis);
+  const k = useKMeansStore((s) => s.k);
+  const setK = useKMeansStore((s) => s.setK);
+
+  // k = 1 has no silhouette score, so that series starts at k = 2
+  const series = useMemo(() => analysis.filter((a) => a[metric] !== null), [analysis, metric]);
+  const maxK = analysis.length > 0 ? analysis[analysis.length - 1].k : 1;
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (series.length < 2) {
+        ctx.fillStyle = COLORS.textMuted;
+        ctx.fillText('Press "Analyze k" to score each k.', PADDING, height / 2);
+        ctx.restore();
+        return;
+      }
+
+      const color = metric === 'inertia' ? COLORS.amber : COLORS.green;
+      const toX = (kValue: number) => kToX(kValue, maxK, width);
+      const values = series.map((a) => a[metric] as number);
+      const lo = metric === 'silhouette' ? Math.min(0, ...values) : 0;
+      const hi = Math.max(...values, lo + 1e-6);
+      const toY = (v: number) => PADDING / 2 + ((hi - v) / (hi - lo)) * (height - 1.5 * PADDING);
+
+      // Current k
+      if (k <= maxK) {
+        const x = toX(k);
+        ctx.strokeStyle = COLORS.text;
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.moveTo(x, PADDING / 2);
+        ctx.lineTo(x, height - PADDING);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      series.forEach((a, i) => {
+        const x = toX(a.k);
+        const y = toY(values[i]);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+
+      series.forEach((a, i) => {
+        drawPoint(ctx, toX(a.k), toY(values[i]), color, 4);
+      });
+
+      ctx.fillStyle = COLORS.textMuted;
+      for (const a of analysis) {
+        ctx.fillText(`${a.k}`, toX(a.k) - 3, height - 6);
+      }
+      ctx.fillText(
+        metric === 'inertia'
+          ? 'inertia (elbow) — click to pick k'
+          : 'mean silhouette — click to pick k',
+        PADDING,
+        12,
+      );
+
+      ctx.restore();
+    },
+    [analysis, series, metric, k, maxK],
+  );
+
+  const onMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (series.length < 2) return;
+      const rect = e.currentTarget.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      let nearest = series[0].k;
+      for (const a of series) {
+        const gap = Math.abs(kToX(a.k, maxK, rect.width) - x);
+        if (gap < Math.abs(kToX(nearest, maxK, rect.width) - x)) {
+          nearest = a.k;
+        }
+      }
+      if (nearest >= MIN_SELECTABLE_K) setK(nearest);
+    },
+    [series, maxK, setK],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel={
+        metric === 'inertia'
+          ? 'Elbow chart — inertia for each k, click a point to use that k'
+          : 'Silhouette chart — mean silhouette score for each k, click a point to use that k'
+      }
+      render={render}
+      onMouseDown={onMouseDown}
+      deps={[analysis, metric, k]}
+    />
+  );
+}
@@ -5,7 +5,14 @@ import { ParameterSlider } from '../../components/shared/ParameterSlider';
 import { ParameterPanel } from '../../components/shared/ParameterPanel';
 import { PlayPauseButton } from '../../components/shared/PlayPauseButton';
 import { ColorLegend } from '../../components/shared/ColorLegend';
-import { useKMeansStore } from '../../stores/useKMeansStore';
+import { useKMeansStore, type ClusteringAlgorithm } from '../../stores/useKMeansStore';
+import type { InitMethod } from '../../ml/kmeans';
+import { covarianceEllipse } from '../../ml/gmm';
+import type { Linkage } from '../../ml/hierarchical';
+import type { DatasetType } from '../../ml/types';
+import { KAnalysisChart } from './KAnalysisChart';
+import { LogLikelihoodChart } from './LogLikelihoodChart';
+import { DendrogramChart } from './DendrogramChart';
 import {
   clearCanvas,
   drawGrid,
@@ -13,27 +20,101 @@ import {
   dataToCanvas,
   canvasToData,
 } from '../../utils/canvas-helpers';
+import { hexToRgb } from '../../utils/color-scales';
 import { COLORS } from '../../config/constants';
 
 const RANGE: [number, number] = [-1.5, 1.5];
 
+const ALGORITHM_OPTIONS: { value: ClusteringAlgorithm; label: string }[] = [
+  { value: 'kmeans', label: 'K-Means' },
+  { value: 'gmm', label: 'GMM (EM)' },
+  { value: 'dbscan', label: 'DBSCAN' },
+  { value: 'agglomerative', label: 'Hierarchical' },
+];
+
+const LINKAGE_OPTIONS: { value: Linkage; label: string }[] = [
+  { value: 'single', label: 'Single' },
+  { value: 'complete', label: 'Complete' },
+  { value: 'average', label: 'Average' },
+  { value: 'ward', label: 'Ward' },
+];
+
+const DATASET_OPTIONS: { value: DatasetType; label: string }[] = [
+  { value: 'gaussian', label: 'Blobs' },
+  { value: 'moons', label: 'Moons' },
+  { value: 'circle', label: 'Rings' },
+  { value: 'spiral', label: 'Spiral' },
+];
+
+const INIT_OPTIONS: { value: InitMethod; label: string }[] = [
+  { value: 'kmeans++', label: 'K-Means++' },
+  { value: 'forgy', label: 'Forgy' },
+  { value: 'random-partition', label: 'Partition' },
+];
+
+// Radius of the probability ring drawn around the most likely next seed
+const MAX_SEED_RING = 18;
+
+// Covariance ellipses are drawn at 1 and 2 standard deviations
+const ELLIPSE_SIGMAS = [1, 2];
+
+/** Mix the cluster colours in proportion to a point's soft assignment. */
+function blendClassColors(weights: number[]): string {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  weights.forEach((w, c) => {
+    const [cr, cg, cb] = hexToRgb(COLORS.classColors[c % COLORS.classColors.length]);
+    r += w * cr;
+    g += w * cg;
+    b += w * cb;
+  });
+  return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+}
+
 export default function KMeansPage() {
   const {
     points,
     centroids,
     assignments,
     k,
+    algorithm,
+    initMethod,
+    seed,
+    seedProbabilities,
+    analysis,
+    components,
+    responsibilities,
+    eps,
+    minPts,
+    pointKinds,
+    linkage,
+    merges,
+    cutHeight,
     stepCount,
     converged,
     isPlaying,
     addPoint,
     setK,
+    setAlgorithm,
+    setInitMethod,
+    setSeed,
+    setEps,
+    setMinPts,
+    setLinkage,
+    setCutHeight,
+    loadDataset,
+    runAnalysis,
     initialize,
     step,
     reset,
     togglePlaying,
   } = useKMeansStore();
 
+  // K-Means and GMM step towards convergence; DBSCAN and hierarchical clustering run in one go
+  const iterative = algorithm === 'kmeans' || algorithm === 'gmm';
+  const minPoints = iterative ? k : 2;
+
   const rafRef = useRef<number | null>(null);
 
   useEffect(() => {
@@ -79,14 +160,77 @@ export default function KMeansPage() {
       clearCanvas(ctx, width, height);
       drawGrid(ctx, width, height);
 
-      // Draw data points colored by assignment
+      // GMM covariance ellipses, drawn in data space so the rotation survives the y-flip
+      const scaleX = width / (RANGE[1] - RANGE[0]);
+      const scaleY = height / (RANGE[1] - RANGE[0]);
+      components.forEach((comp, c) => {
+        const { rx, ry, angle } = covarianceEllipse(comp.cov);
+        const [cx, cy] = dataToCanvas(comp.mean.x, comp.mean.y, width, height, RANGE, RANGE);
+        ctx.strokeStyle = COLORS.classColors[c % COLORS.classColors.length];
+        ctx.lineWidth = 1.5;
+        for (const sigmas of ELLIPSE_SIGMAS) {
+          ctx.save();
+          ctx.translate(cx, cy);
+          ctx.scale(scaleX, -scaleY);
+          ctx.rotate(angle);
+          ctx.beginPath();
+          ctx.ellipse(0, 0, rx * sigmas, ry * sigmas, 0, 0, Math.PI * 2);
+          ctx.restore();
+          ctx.globalAlpha = sigmas === 1 ? 0.9 : 0.4;
+          ctx.stroke();
+          ctx.globalAlpha = 1;
+        }
+      });
+
+      // DBSCAN: faint eps neighbourhood around each core point
+      const kinds = pointKinds.length === points.length ? pointKinds : [];
+      if (kinds.length > 0) {
+        ctx.fillStyle = COLORS.primary;
+        ctx.globalAlpha = 0.06;
+        for (let i = 0; i < points.length; i++) {
+          if (kinds[i] !== 'core') continue;
+          const [cx, cy] = dataToCanvas(points[i].x, points[i].y, width, height, RANGE, RANGE);
+          ctx.beginPath();
+          ctx.ellipse(cx, cy, eps * scaleX, eps * scaleY, 0, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        ctx.globalAlpha = 1;
+      }
+
+      // Draw data points colored by assignment; GMM blends colours by responsibility
       for (let i = 0; i < points.length; i++) {
-        const color =
-          assignments.length > 0
-            ? COLORS.classColors[assignments[i] % COLORS.classColors.length]
-            : COLORS.textMuted;
+        let color: string = COLORS.textMuted;
+        if (responsibilities.length === points.length) {
+          color = blendClassColors(responsibilities[i]);
+        } else if (assignments.length === points.length && assignments[i] >= 0) {
+          color = COLORS.classColors[assignments[i] % COLORS.classColors.length];
+        }
         const [cx, cy] = dataToCanvas(points[i].x, points[i].y, width, height, RANGE, RANGE);
-        drawPoint(ctx, cx, cy, color, 5);
+        if (kinds[i] === 'noise') {
+          drawPoint(ctx, cx, cy, COLORS.textMuted, 3, true);
+        } else {
+          drawPoint(ctx, cx, cy, color, kinds[i] === 'border' ? 3.5 : 5);
+        }
+      }
+
+      // k-means++ seeding: ring area is proportional to each point's chance of being picked next
+      if (seedProbabilities.length === points.length && seedProbabilities.length > 0) {
+        const maxProb = Math.max(...seedProbabilities);
+        ctx.strokeStyle = COLORS.amber;
+        ctx.lineWidth = 1.5;
+        for (let i = 0; i < points.length; i++) {
+          if (seedProbabilities[i] <= 0) continue;
+          const [cx, cy] = dataToCanvas(points[i].x, points[i].y, width, height, RANGE, RANGE);
+          ctx.beginPath();
+          ctx.arc(
+            cx,
+            cy,
+            MAX_SEED_RING * Math.sqrt(seedProbabilities[i] / maxProb),
+            0,
+            Math.PI * 2,
+          );
+          ctx.stroke();
+        }
       }
 
       // Draw centroids
@@ -103,52 +247,217 @@ export default function KMeansPage() {
       ctx.fillStyle = COLORS.textMuted;
       ctx.font = '12px monospace';
       ctx.fillText(`Step: ${stepCount}`, 10, 20);
-      if (converged) {
+      if (seedProbabilities.length > 0) {
+        ctx.fillStyle = COLORS.amber;
+        ctx.fillText(
+          `Seeding ${centroids.length}/${k}: rings show D² sampling probability`,
+          10,
+          36,
+        );
+      } else if (converged && iterative) {
         ctx.fillStyle = COLORS.green;
         ctx.fillText('Converged!', 10, 36);
       }
 
       ctx.restore();
     },
-    [points, centroids, assignments, stepCount, converged],
+    [
+      points,
+      centroids,
+      assignments,
+      components,
+      responsibilities,
+      pointKinds,
+      eps,
+      seedProbabilities,
+      k,
+      iterative,
+      stepCount,
+      converged,
+    ],
   );
 
-  const legendItems = Array.from({ length: k }, (_, i) => ({
+  const numClusters = iterative
+    ? k
+    : assignments.reduce((max, label) => Math.max(max, label + 1), 0);
+  const numNoise = pointKinds.filter((kind) => kind === 'noise').length;
+
+  const legendItems = Array.from({ length: numClusters }, (_, i) => ({
     label: `Cluster ${i + 1}`,
     color: COLORS.classColors[i % COLORS.classColors.length],
   }));
 
   const controls = (
     <div className="space-y-6">
+      <ParameterPanel title="Algorithm">
+        <div className="grid grid-cols-2 gap-2">
+          {ALGORITHM_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setAlgorithm(opt.value)}
+              className={`flex-1 px-3 py-1.5 rounded text-sm transition-colors ${
+                algorithm === opt.value
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      </ParameterPanel>
+
+      <ParameterPanel title="Dataset">
+        <div className="grid grid-cols-2 gap-2">
+          {DATASET_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => loadDataset(opt.value)}
+              className="px-3 py-1.5 rounded text-sm transition-colors bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-border/60"
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      </ParameterPanel>
+
       <ParameterPanel title="Parameters">
-        <ParameterSlider label="K (clusters)" value={k} min={2} max={8} step={1} onChange={setK} />
+        {iterative && (
+          <ParameterSlider
+            label="K (clusters)"
+            value={k}
+            min={2}
+            max={8}
+            step={1}
+            onChange={setK}
+          />
+        )}
+        {algorithm === 'dbscan' && (
+          <>
+            <ParameterSlider
+              label="eps (radius)"
+              value={eps}
+              min={0.02}
+              max={0.5}
+              step={0.01}
+              onChange={setEps}
+              format={(v) => v.toFixed(2)}
+            />
+            <ParameterSlider
+              label="minPts"
+              value={minPts}
+              min={1}
+              max={12}
+              step={1}
+              onChange={setMinPts}
+            />
+          </>
+        )}
+        {algorithm === 'agglomerative' && (
+          <>
+            <div className="flex gap-2">
+              {LINKAGE_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => setLinkage(opt.value)}
+                  className={`flex-1 px-2 py-1.5 rounded text-sm transition-colors ${
+                    linkage === opt.value
+                      ? 'bg-primary/15 text-primary-light border border-primary/30'
+                      : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+            <ParameterSlider
+              label="Cut height"
+              value={cutHeight}
+              min={0}
+              max={merges.length > 0 ? merges[merges.length - 1].distance : 2}
+              step={0.005}
+              onChange={setCutHeight}
+              format={(v) => v.toFixed(3)}
+            />
+          </>
+        )}
       </ParameterPanel>
 
+      {iterative && (
+        <ParameterPanel title="Initialization">
+          {algorithm === 'kmeans' && (
+            <div className="flex gap-2">
+              {INIT_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => setInitMethod(opt.value)}
+                  className={`flex-1 px-3 py-1.5 rounded text-sm transition-colors ${
+                    initMethod === opt.value
+                      ? 'bg-primary/15 text-primary-light border border-primary/30'
+                      : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <ParameterSlider
+            label="Seed"
+            value={seed}
+            min={1}
+            max={100}
+            step={1}
+            onChange={setSeed}
+          />
+        </ParameterPanel>
+      )}
+
       <ParameterPanel title="Controls">
         <div className="flex flex-col gap-2">
           <button
             onClick={initialize}
-            disabled={points.length < k}
+            disabled={points.length < minPoints}
             className="px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Initialize Centroids
-          </button>
-          <button
-            onClick={step}
-            disabled={points.length < k || converged}
-            className="px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            Step
+            {iterative ? 'Initialize Centroids' : 'Run Clustering'}
           </button>
+          {iterative && (
+            <button
+              onClick={step}
+              disabled={points.length < k || converged}
+              className="px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Step
+            </button>
+          )}
           <PlayPauseButton
             isPlaying={isPlaying}
             onToggle={togglePlaying}
             onReset={reset}
-            disabled={points.length < k}
+            disabled={points.length < minPoints}
           />
         </div>
       </ParameterPanel>
 
+      {iterative && (
+        <ParameterPanel title="Choosing K">
+          <button
+            onClick={runAnalysis}
+            disabled={points.length < 2}
+            className="w-full px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Analyze k
+          </button>
+          {analysis.length > 0 && (
+            <p className="text-xs text-text-muted leading-relaxed">
+              Look for the bend in the elbow curve or the highest silhouette, then click that point
+              to apply it.
+            </p>
+          )}
+        </ParameterPanel>
+      )}
+
       <ParameterPanel title="Status">
         <div className="bg-surface rounded-lg p-3 border border-white/[0.04]">
           <p className="text-[10px] text-text-muted uppercase tracking-wider">Steps</p>
@@ -158,6 +467,15 @@ export default function KMeansPage() {
           <p className="text-[10px] text-text-muted uppercase tracking-wider">Points</p>
           <p className="text-lg font-mono text-text tabular-nums">{points.length}</p>
         </div>
+        {!iterative && assignments.length > 0 && (
+          <div className="bg-surface rounded-lg p-3 border border-white/[0.04]">
+            <p className="text-[10px] text-text-muted uppercase tracking-wider">Clusters</p>
+            <p className="text-lg font-mono text-text tabular-nums">
+              {numClusters}
+              {algorithm === 'dbscan' && ` + ${numNoise} noise`}
+            </p>
+          </div>
+        )}
         {converged && (
           <div className="flex items-center gap-2">
             <div className="w-2 h-2 rounded-full bg-accent-green" />
@@ -172,7 +490,12 @@ export default function KMeansPage() {
 
       <div className="text-xs text-text-muted leading-relaxed">
         Click on the canvas to add data points. Initialize centroids, then step through the K-Means
-        algorithm.
+        algorithm. With K-Means++ each step adds one centroid until all K are placed; the same seed
+        always reproduces the same run. GMM (EM) fits a Gaussian with its own covariance to each
+        cluster; points are coloured by how strongly each component claims them. Load the moons or
+        rings dataset to see where centroid-based methods fail: DBSCAN grows clusters from dense
+        core points (large), absorbing border points (small) and leaving noise (hollow), while
+        hierarchical clustering merges nearby groups and lets you cut the dendrogram at any height.
       </div>
     </div>
   );
@@ -183,12 +506,39 @@ export default function KMeansPage() {
       description="Interactive K-Means clustering with step-by-step visualization"
       controls={controls}
     >
-      <InteractiveCanvas
-        ariaLabel="K-means clustering visualization — click to add data points"
-        render={render}
-        onMouseDown={onMouseDown}
-        deps={[points, centroids, assignments, stepCount, converged]}
-      />
+      <div className="flex flex-col gap-4 h-full">
+        <div className="flex-1 min-h-0">
+          <InteractiveCanvas
+            ariaLabel="K-means clustering visualization — click to add data points"
+            render={render}
+            onMouseDown={onMouseDown}
+            deps={[
+              points,
+              centroids,
+              assignments,
+              components,
+              responsibilities,
+              pointKinds,
+              eps,
+              seedProbabilities,
+              k,
+              stepCount,
+              converged,
+            ]}
+          />
+        </div>
+        {iterative && (
+          <div className="h-52 shrink-0 grid grid-cols-2 gap-4">
+            {algorithm === 'gmm' ? <LogLikelihoodChart /> : <KAnalysisChart metric="inertia" />}
+            <KAnalysisChart metric="silhouette" />
+          </div>
+        )}
+        {algorithm === 'agglomerative' && (
+          <div className="h-52 shrink-0">
+            <DendrogramChart />
+          </div>
+        )}
+      </div>
     </ModuleLayout>
   );
 }
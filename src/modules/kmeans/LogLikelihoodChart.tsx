@@ -0,0 +1,66 @@
+import { useCallback } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useKMeansStore } from '../../stores/useKMeansStore';
+import { clearCanvas } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+
+export function LogLikelihoodChart() {
+  const logLikelihoods = useKMeansStore((s) => s.logLikelihoods);
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (logLikelihoods.length < 2) {
+        ctx.fillStyle = COLORS.textMuted;
+        ctx.fillText('Step EM to track the log-likelihood.', PADDING, height / 2);
+        ctx.restore();
+        return;
+      }
+
+      const lo = Math.min(...logLikelihoods);
+      const hi = Math.max(...logLikelihoods, lo + 1e-6);
+      const toX = (i: number) =>
+        PADDING + (i / (logLikelihoods.length - 1)) * (width - 2 * PADDING);
+      const toY = (v: number) => PADDING / 2 + ((hi - v) / (hi - lo)) * (height - 1.5 * PADDING);
+
+      ctx.strokeStyle = COLORS.green;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      logLikelihoods.forEach((v, i) => {
+        if (i === 0) ctx.moveTo(toX(i), toY(v));
+        else ctx.lineTo(toX(i), toY(v));
+      });
+      ctx.stroke();
+
+      ctx.fillStyle = COLORS.textMuted;
+      ctx.fillText(
+        `mean log-likelihood ${logLikelihoods[logLikelihoods.length - 1].toFixed(4)}`,
+        PADDING,
+        12,
+      );
+      ctx.fillText('init', PADDING, height - 6);
+      ctx.fillText(`step ${logLikelihoods.length - 1}`, width - PADDING - 50, height - 6);
+
+      ctx.restore();
+    },
+    [logLikelihoods],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Log-likelihood of the Gaussian mixture after each EM step"
+      render={render}
+      deps={[logLikelihoods]}
+    />
+  );
+}
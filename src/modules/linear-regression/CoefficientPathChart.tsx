@@ -0,0 +1,100 @@
+import { useCallback } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useLinearRegressionStore } from '../../stores/useLinearRegressionStore';
+import { clearCanvas } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+
+export function CoefficientPathChart() {
+  const coefficientPath = useLinearRegressionStore((s) => s.coefficientPath);
+  const lambda = useLinearRegressionStore((s) => s.regularization.lambda);
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (coefficientPath.length < 2) {
+        ctx.fillStyle = COLORS.textMuted;
+        ctx.fillText(
+          'Pick a penalty and press "Sweep λ" to trace each weight.',
+          PADDING,
+          height / 2,
+        );
+        ctx.restore();
+        return;
+      }
+
+      const logLambdas = coefficientPath.map((p) => Math.log10(p.lambda));
+      const logMin = Math.min(...logLambdas);
+      const logMax = Math.max(...logLambdas);
+      let wMax = 1e-3;
+      for (const p of coefficientPath) {
+        for (const wt of p.weights) wMax = Math.max(wMax, Math.abs(wt));
+      }
+
+      const toX = (logLambda: number) =>
+        PADDING + ((logLambda - logMin) / (logMax - logMin)) * (width - 2 * PADDING);
+      const toY = (weight: number) => height / 2 - (weight / wMax) * (height / 2 - PADDING / 2);
+
+      // Zero line
+      ctx.strokeStyle = COLORS.border;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(PADDING, toY(0));
+      ctx.lineTo(width - PADDING, toY(0));
+      ctx.stroke();
+
+      // One trace per weight
+      const numWeights = coefficientPath[0].weights.length;
+      for (let j = 0; j < numWeights; j++) {
+        ctx.strokeStyle = COLORS.classColors[j % COLORS.classColors.length];
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        for (let i = 0; i < coefficientPath.length; i++) {
+          const x = toX(logLambdas[i]);
+          const y = toY(coefficientPath[i].weights[j]);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+
+      // Current lambda marker
+      const logLambda = Math.log10(lambda);
+      if (logLambda >= logMin && logLambda <= logMax) {
+        const x = toX(logLambda);
+        ctx.strokeStyle = COLORS.text;
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.moveTo(x, PADDING / 2);
+        ctx.lineTo(x, height - PADDING / 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      ctx.fillStyle = COLORS.textMuted;
+      ctx.fillText(`λ = ${(10 ** logMin).toPrecision(1)}`, PADDING, height - 6);
+      ctx.fillText(`λ = ${(10 ** logMax).toPrecision(1)}`, width - PADDING - 60, height - 6);
+      ctx.fillText('weights vs log λ', PADDING, 14);
+
+      ctx.restore();
+    },
+    [coefficientPath, lambda],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Coefficient path — each weight plotted against regularization strength"
+      render={render}
+      deps={[coefficientPath, lambda]}
+    />
+  );
+}
@@ -0,0 +1,91 @@
+import { useCallback } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useLinearRegressionStore } from '../../stores/useLinearRegressionStore';
+import { clearCanvas } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+const LOG_FLOOR = -8;
+
+export function ConvergenceChart() {
+  const convergence = useLinearRegressionStore((s) => s.convergence);
+  const penalty = useLinearRegressionStore((s) => s.regularization.type);
+  const lossType = useLinearRegressionStore((s) => s.lossConfig.type);
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (convergence.length < 2) {
+        ctx.fillStyle = COLORS.textMuted;
+        let hint = 'Train to compare gradient descent with the exact solution.';
+        if (lossType !== 'mse') hint = 'No closed-form optimum for a robust loss.';
+        else if (penalty === 'l1' || penalty === 'elasticnet') {
+          hint = 'No closed-form optimum with an L1 penalty.';
+        }
+        ctx.fillText(hint, PADDING, height / 2);
+        ctx.restore();
+        return;
+      }
+
+      const first = convergence[0].epoch;
+      const last = convergence[convergence.length - 1].epoch;
+      const toLog = (v: number) => Math.max(LOG_FLOOR, Math.log10(Math.max(v, 1e-12)));
+      let logMax = LOG_FLOOR + 1;
+      for (const c of convergence) {
+        logMax = Math.max(logMax, toLog(c.parameterGap), toLog(c.lossGap));
+      }
+      logMax = Math.ceil(logMax);
+
+      const toX = (epoch: number) =>
+        PADDING + ((epoch - first) / Math.max(1, last - first)) * (width - 2 * PADDING);
+      const toY = (v: number) =>
+        PADDING / 2 + ((logMax - toLog(v)) / (logMax - LOG_FLOOR)) * (height - 1.5 * PADDING);
+
+      const series: { key: 'parameterGap' | 'lossGap'; color: string; label: string }[] = [
+        { key: 'parameterGap', color: COLORS.amber, label: '‖θ − θ*‖' },
+        { key: 'lossGap', color: COLORS.green, label: 'L(θ) − L(θ*)' },
+      ];
+
+      for (const { key, color } of series) {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        for (let i = 0; i < convergence.length; i++) {
+          const x = toX(convergence[i].epoch);
+          const y = toY(convergence[i][key]);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+
+      series.forEach(({ color, label }, i) => {
+        ctx.fillStyle = color;
+        ctx.fillText(label, width - PADDING - 90, 14 + i * 14);
+      });
+      ctx.fillStyle = COLORS.textMuted;
+      ctx.fillText(`gap (log scale), 1e${logMax} to 1e${LOG_FLOOR}`, PADDING, 14);
+      ctx.fillText(`epoch ${first}`, PADDING, height - 6);
+      ctx.fillText(`${last}`, width - PADDING - 30, height - 6);
+
+      ctx.restore();
+    },
+    [convergence, penalty, lossType],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Convergence chart — distance from gradient descent to the exact least-squares solution"
+      render={render}
+      deps={[convergence, penalty, lossType]}
+    />
+  );
+}
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ModuleLayout } from '../../components/layout/ModuleLayout';
 import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
 import { ParameterSlider } from '../../components/shared/ParameterSlider';
@@ -6,6 +6,17 @@ import { ParameterPanel } from '../../components/shared/ParameterPanel';
 import { PlayPauseButton } from '../../components/shared/PlayPauseButton';
 import { TrainingMetrics } from '../../components/shared/TrainingMetrics';
 import { useLinearRegressionStore } from '../../stores/useLinearRegressionStore';
+import {
+  LinearRegressionModel,
+  solveOptimum,
+  type BasisConfig,
+  type BasisType,
+  type LossType,
+  type PenaltyType,
+} from '../../ml/linear-regression';
+import { CoefficientPathChart } from './CoefficientPathChart';
+import { ConvergenceChart } from './ConvergenceChart';
+import { ParameterSpaceInset } from './ParameterSpaceInset';
 import { useDraggablePoints } from '../../hooks/useDraggablePoints';
 import {
   clearCanvas,
@@ -20,11 +31,81 @@ import { COLORS } from '../../config/constants';
 const RANGE_X: [number, number] = [-1.5, 1.5];
 const RANGE_Y: [number, number] = [-1.5, 1.5];
 
+const BASIS_OPTIONS: { value: BasisType; label: string }[] = [
+  { value: 'polynomial', label: 'Polynomial' },
+  { value: 'rbf', label: 'RBF' },
+  { value: 'sine', label: 'Sine' },
+];
+
+const LOSS_OPTIONS: { value: LossType; label: string }[] = [
+  { value: 'mse', label: 'MSE' },
+  { value: 'mae', label: 'MAE' },
+  { value: 'huber', label: 'Huber' },
+];
+
+// Points carrying this label are drawn as flagged outliers
+const OUTLIER_LABEL = 1;
+
+const PENALTY_OPTIONS: { value: PenaltyType; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'l1', label: 'L1' },
+  { value: 'l2', label: 'L2' },
+  { value: 'elasticnet', label: 'Elastic' },
+];
+
+const BATCH_OPTIONS: { label: 'Full' | 'Mini' | 'SGD'; size: number | null }[] = [
+  { label: 'Full', size: null },
+  { label: 'Mini', size: 4 },
+  { label: 'SGD', size: 1 },
+];
+
+function batchMode(batchSize: number | null) {
+  if (batchSize === null) return 'Full';
+  return batchSize === 1 ? 'SGD' : 'Mini';
+}
+
+const CURVE_SAMPLES = 200;
+
+function drawFit(
+  ctx: CanvasRenderingContext2D,
+  weights: number[],
+  bias: number,
+  basis: BasisConfig,
+  width: number,
+  height: number,
+  color: string,
+  dashed = false,
+) {
+  const model = new LinearRegressionModel(0, bias, basis);
+  model.weights = weights;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  if (dashed) ctx.setLineDash([6, 6]);
+  ctx.beginPath();
+  for (let i = 0; i <= CURVE_SAMPLES; i++) {
+    const x = RANGE_X[0] + (i / CURVE_SAMPLES) * (RANGE_X[1] - RANGE_X[0]);
+    const [cx, cy] = dataToCanvas(x, model.predict(x), width, height, RANGE_X, RANGE_Y);
+    if (i === 0) ctx.moveTo(cx, cy);
+    else ctx.lineTo(cx, cy);
+  }
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
 export default function LinearRegressionPage() {
   const {
     points,
-    weight,
+    weights,
     bias,
+    basis,
+    lossConfig,
+    mseWeights,
+    mseBias,
+    regularization,
+    batchSize,
+    shuffle,
+    sampledIndices,
+    sampleGradients,
     learningRate,
     loss,
     epoch,
@@ -32,11 +113,22 @@ export default function LinearRegressionPage() {
     addPoint,
     updatePoint,
     setLearningRate,
+    setBasisType,
+    setBasisSize,
+    setLossType,
+    setHuberDelta,
+    setPenaltyType,
+    setLambda,
+    setL1Ratio,
+    setBatchSize,
+    setShuffle,
+    computeCoefficientPath,
     trainStep,
     reset,
     toggleTraining,
   } = useLinearRegressionStore();
 
+  const [flagOutliers, setFlagOutliers] = useState(false);
   const rafRef = useRef<number | null>(null);
 
   useEffect(() => {
@@ -62,10 +154,20 @@ export default function LinearRegressionPage() {
     rangeX: RANGE_X,
     rangeY: RANGE_Y,
     onAddPoint: addPoint,
-    onDragPoint: updatePoint,
+    // Dragging with flagging off clears the flag, so outliers can be unflagged
+    onDragPoint: (index, p) =>
+      updatePoint(index, { ...p, label: flagOutliers ? OUTLIER_LABEL : 0 }),
     getPoints: () => useLinearRegressionStore.getState().points,
+    getLabel: () => (flagOutliers ? OUTLIER_LABEL : 0),
   });
 
+  const robust = lossConfig.type !== 'mse';
+
+  const optimum = useMemo(
+    () => (robust ? null : solveOptimum(points, basis, regularization)),
+    [robust, points, basis, regularization],
+  );
+
   const render = useCallback(
     (ctx: CanvasRenderingContext2D, w: number, h: number) => {
       const dpr = window.devicePixelRatio || 1;
@@ -78,21 +180,44 @@ export default function LinearRegressionPage() {
       drawGrid(ctx, width, height);
       drawAxes(ctx, width, height);
 
-      // Regression line
+      // Closed-form optimum as a ghost curve
+      if (optimum) {
+        ctx.globalAlpha = 0.5;
+        drawFit(ctx, optimum.weights, optimum.bias, basis, width, height, COLORS.text, true);
+        ctx.globalAlpha = 1;
+      }
+
+      // Gradient-descent fit, with the plain MSE fit alongside a robust loss
       if (points.length > 0) {
-        const x1 = RANGE_X[0];
-        const x2 = RANGE_X[1];
-        const y1 = weight * x1 + bias;
-        const y2 = weight * x2 + bias;
-        const [cx1, cy1] = dataToCanvas(x1, y1, width, height, RANGE_X, RANGE_Y);
-        const [cx2, cy2] = dataToCanvas(x2, y2, width, height, RANGE_X, RANGE_Y);
-        drawLine(ctx, cx1, cy1, cx2, cy2, COLORS.red, 2);
+        if (robust) drawFit(ctx, mseWeights, mseBias, basis, width, height, COLORS.amber);
+        drawFit(ctx, weights, bias, basis, width, height, COLORS.red);
+      }
+
+      // Residuals of the points sampled by the last step, thicker for a larger gradient share
+      if (batchSize !== null) {
+        const model = new LinearRegressionModel(0, bias, basis);
+        model.weights = weights;
+        const m = sampledIndices.length;
+        sampledIndices.forEach((idx, k) => {
+          const p = points[idx];
+          if (!p) return;
+          const [px, py] = dataToCanvas(p.x, p.y, width, height, RANGE_X, RANGE_Y);
+          const [, fy] = dataToCanvas(p.x, model.predict(p.x), width, height, RANGE_X, RANGE_Y);
+          const share = Math.abs(sampleGradients[k]?.db ?? 0) * m;
+          drawLine(ctx, px, py, px, fy, COLORS.amber, Math.min(5, 1 + share * 2));
+          drawPoint(ctx, px, py, COLORS.amber, 10, true);
+        });
       }
 
       // Data points
       for (const p of points) {
         const [cx, cy] = dataToCanvas(p.x, p.y, width, height, RANGE_X, RANGE_Y);
-        drawPoint(ctx, cx, cy, COLORS.primaryLight, 6);
+        if (p.label === OUTLIER_LABEL) {
+          drawPoint(ctx, cx, cy, COLORS.amber, 6);
+          drawPoint(ctx, cx, cy, COLORS.amber, 10, true);
+        } else {
+          drawPoint(ctx, cx, cy, COLORS.primaryLight, 6);
+        }
       }
 
       // Loss text
@@ -100,12 +225,37 @@ export default function LinearRegressionPage() {
         ctx.fillStyle = COLORS.textMuted;
         ctx.font = '12px monospace';
         ctx.fillText(`Loss: ${loss.toFixed(4)}`, 10, 20);
-        ctx.fillText(`y = ${weight.toFixed(3)}x + ${bias.toFixed(3)}`, 10, 36);
+        if (basis.type === 'polynomial' && basis.size === 1) {
+          const slope = weights[0] / basis.scale;
+          ctx.fillText(`y = ${slope.toFixed(3)}x + ${bias.toFixed(3)}`, 10, 36);
+        } else {
+          ctx.fillText(`${weights.length + 1} parameters`, 10, 36);
+        }
+        if (robust) {
+          ctx.fillStyle = COLORS.red;
+          ctx.fillText(`— ${lossConfig.type.toUpperCase()} fit`, 10, 52);
+          ctx.fillStyle = COLORS.amber;
+          ctx.fillText('— MSE fit', 10, 68);
+        }
       }
 
       ctx.restore();
     },
-    [points, weight, bias, loss],
+    [
+      points,
+      weights,
+      bias,
+      basis,
+      loss,
+      optimum,
+      robust,
+      lossConfig,
+      mseWeights,
+      mseBias,
+      batchSize,
+      sampledIndices,
+      sampleGradients,
+    ],
   );
 
   const controls = (
@@ -122,6 +272,164 @@ export default function LinearRegressionPage() {
         />
       </ParameterPanel>
 
+      <ParameterPanel title="Basis">
+        <div className="flex gap-2">
+          {BASIS_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setBasisType(opt.value)}
+              className={`flex-1 px-3 py-1.5 rounded text-sm transition-colors ${
+                basis.type === opt.value
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <ParameterSlider
+          label={basis.type === 'polynomial' ? 'Degree' : 'Basis Functions'}
+          value={basis.size}
+          min={1}
+          max={10}
+          step={1}
+          onChange={setBasisSize}
+        />
+      </ParameterPanel>
+
+      <ParameterPanel title="Loss">
+        <div className="flex gap-2">
+          {LOSS_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setLossType(opt.value)}
+              className={`flex-1 px-3 py-1.5 rounded text-sm transition-colors ${
+                lossConfig.type === opt.value
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        {lossConfig.type === 'huber' && (
+          <ParameterSlider
+            label="Huber δ"
+            value={lossConfig.delta}
+            min={0.05}
+            max={1}
+            step={0.05}
+            onChange={setHuberDelta}
+            format={(v) => v.toFixed(2)}
+          />
+        )}
+        <button
+          onClick={() => setFlagOutliers(!flagOutliers)}
+          aria-pressed={flagOutliers}
+          className={`w-full px-3 py-1.5 rounded text-sm transition-colors ${
+            flagOutliers
+              ? 'bg-accent-amber/15 text-accent-amber border border-accent-amber/30'
+              : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-border/50'
+          }`}
+        >
+          {flagOutliers ? 'Flagging outliers' : 'Flag outliers'}
+        </button>
+        <p className="text-xs text-text-muted">
+          Points added or dragged while flagging are marked as outliers; drag one with flagging off
+          to clear its flag.
+        </p>
+      </ParameterPanel>
+
+      <ParameterPanel title="Regularization">
+        <div className="flex gap-2">
+          {PENALTY_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => setPenaltyType(opt.value)}
+              className={`flex-1 px-2 py-1.5 rounded text-sm transition-colors ${
+                regularization.type === opt.value
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        {regularization.type !== 'none' && (
+          <ParameterSlider
+            label="Strength (λ)"
+            value={regularization.lambda}
+            min={0.001}
+            max={1}
+            step={0.001}
+            onChange={setLambda}
+            format={(v) => v.toFixed(3)}
+          />
+        )}
+        {regularization.type === 'elasticnet' && (
+          <ParameterSlider
+            label="L1 Ratio"
+            value={regularization.l1Ratio}
+            min={0}
+            max={1}
+            step={0.05}
+            onChange={setL1Ratio}
+            format={(v) => v.toFixed(2)}
+          />
+        )}
+        <button
+          onClick={computeCoefficientPath}
+          disabled={points.length === 0 || regularization.type === 'none'}
+          className="w-full px-4 py-2 rounded-lg border border-border/80 bg-surface-lighter/50 hover:bg-surface-lighter hover:border-border text-text text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Sweep λ
+        </button>
+      </ParameterPanel>
+
+      <ParameterPanel title="Batching">
+        <div className="flex gap-2">
+          {BATCH_OPTIONS.map((opt) => (
+            <button
+              key={opt.label}
+              onClick={() => setBatchSize(opt.size)}
+              className={`flex-1 px-2 py-1.5 rounded text-sm transition-colors ${
+                batchMode(batchSize) === opt.label
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        {batchMode(batchSize) === 'Mini' && (
+          <ParameterSlider
+            label="Batch Size"
+            value={batchSize ?? 4}
+            min={2}
+            max={16}
+            step={1}
+            onChange={setBatchSize}
+          />
+        )}
+        {batchSize !== null && (
+          <button
+            onClick={() => setShuffle(!shuffle)}
+            aria-pressed={shuffle}
+            className={`w-full px-3 py-1.5 rounded text-sm transition-colors ${
+              shuffle
+                ? 'bg-primary/15 text-primary-light border border-primary/30'
+                : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-border/50'
+            }`}
+          >
+            {shuffle ? 'Shuffle each pass' : 'Visit points in order'}
+          </button>
+        )}
+      </ParameterPanel>
+
       <ParameterPanel title="Training">
         <PlayPauseButton
           isPlaying={isTraining}
@@ -133,8 +441,13 @@ export default function LinearRegressionPage() {
       </ParameterPanel>
 
       <div className="text-xs text-text-muted leading-relaxed">
-        Click on the canvas to add data points. The red line shows the current model fit. Press Play
-        to auto-train, or toggle training manually.
+        Click on the canvas to add data points. The red curve shows the current model fit and the
+        dashed curve the exact least-squares solution it is converging to. Raise the degree to watch
+        the model go from underfitting to overfitting, then add a penalty and sweep λ to see the
+        weights shrink toward zero. Switch to MAE or Huber and drag a few flagged outliers away from
+        the trend to see how much harder they pull the MSE fit. With mini-batches or SGD, the
+        sampled points and their residuals are highlighted and the inset shows each one's pull on
+        (w, b). Press Play to auto-train, or toggle training manually.
       </div>
     </div>
   );
@@ -142,17 +455,38 @@ export default function LinearRegressionPage() {
   return (
     <ModuleLayout
       title="Linear Regression"
-      description="Interactive gradient descent for fitting a line to data"
+      description="Interactive gradient descent for fitting a line or curve to data"
       controls={controls}
     >
-      <InteractiveCanvas
-        ariaLabel="Linear regression scatter plot — click to add data points"
-        render={render}
-        onMouseDown={onMouseDown}
-        onMouseMove={onMouseMove}
-        onMouseUp={onMouseUp}
-        deps={[points, weight, bias, loss]}
-      />
+      <div className="flex flex-col gap-4 h-full">
+        <div className="flex-1 min-h-0 relative">
+          <InteractiveCanvas
+            ariaLabel="Linear regression scatter plot — click to add data points"
+            render={render}
+            onMouseDown={onMouseDown}
+            onMouseMove={onMouseMove}
+            onMouseUp={onMouseUp}
+            deps={[
+              points,
+              weights,
+              bias,
+              basis,
+              loss,
+              optimum,
+              mseWeights,
+              mseBias,
+              sampledIndices,
+            ]}
+          />
+          <div className="absolute top-3 right-3 w-44 h-44 shadow-lg">
+            <ParameterSpaceInset />
+          </div>
+        </div>
+        <div className="h-52 shrink-0 grid grid-cols-2 gap-4">
+          <CoefficientPathChart />
+          <ConvergenceChart />
+        </div>
+      </div>
     </ModuleLayout>
   );
 }
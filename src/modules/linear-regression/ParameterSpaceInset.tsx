@@ -0,0 +1,128 @@
+import { useCallback, useMemo } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useLinearRegressionStore } from '../../stores/useLinearRegressionStore';
+import { LinearRegressionModel } from '../../ml/linear-regression';
+import { createViridisScale } from '../../utils/color-scales';
+import { COLORS } from '../../config/constants';
+
+const RANGE = 3;
+const GRID = 32;
+/** Step the held weights are snapped to before the loss grid is rebuilt for them. */
+const HELD_STEP = 0.05;
+
+function toCanvas(v: number, size: number, flip = false) {
+  const t = (v + RANGE) / (2 * RANGE);
+  return (flip ? 1 - t : t) * size;
+}
+
+/** Loss over (first weight, bias), other weights held near their current values. */
+export function ParameterSpaceInset() {
+  const points = useLinearRegressionStore((s) => s.points);
+  const weights = useLinearRegressionStore((s) => s.weights);
+  const bias = useLinearRegressionStore((s) => s.bias);
+  const basis = useLinearRegressionStore((s) => s.basis);
+  const lossConfig = useLinearRegressionStore((s) => s.lossConfig);
+  const regularization = useLinearRegressionStore((s) => s.regularization);
+  const learningRate = useLinearRegressionStore((s) => s.learningRate);
+  const paramPath = useLinearRegressionStore((s) => s.paramPath);
+  const sampleGradients = useLinearRegressionStore((s) => s.sampleGradients);
+
+  // Training changes the weights every step; keying the grid on the snapped values rebuilds it
+  // only when the held weights move noticeably. With one weight the key is empty.
+  const heldKey = weights
+    .slice(1)
+    .map((w) => Math.round(w / HELD_STEP))
+    .join(',');
+
+  const grid = useMemo(() => {
+    if (points.length === 0) return null;
+    const model = new LinearRegressionModel(0, 0, basis);
+    model.loss = lossConfig;
+    if (heldKey) model.weights = [0, ...heldKey.split(',').map((k) => Number(k) * HELD_STEP)];
+    const values: number[] = [];
+    let min = Infinity;
+    let max = -Infinity;
+    for (let j = 0; j < GRID; j++) {
+      for (let i = 0; i < GRID; i++) {
+        model.weights[0] = -RANGE + ((i + 0.5) / GRID) * 2 * RANGE;
+        model.bias = RANGE - ((j + 0.5) / GRID) * 2 * RANGE;
+        const v = Math.log10(model.computeLoss(points, regularization) + 1e-6);
+        values.push(v);
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+      }
+    }
+    return { values, scale: createViridisScale([min, max]) };
+  }, [points, basis, lossConfig, regularization, heldKey]);
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      ctx.fillStyle = COLORS.surface;
+      ctx.fillRect(0, 0, width, height);
+      if (grid) {
+        const cellW = width / GRID;
+        const cellH = height / GRID;
+        for (let j = 0; j < GRID; j++) {
+          for (let i = 0; i < GRID; i++) {
+            ctx.fillStyle = grid.scale(grid.values[j * GRID + i]);
+            ctx.fillRect(i * cellW, j * cellH, cellW + 1, cellH + 1);
+          }
+        }
+      }
+
+      // Parameter trail
+      ctx.strokeStyle = COLORS.text;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      paramPath.forEach(([pw, pb], i) => {
+        const x = toCanvas(pw, width);
+        const y = toCanvas(pb, height, true);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+
+      // Each sampled point's pull: the step it would take if it were the whole batch
+      const cx = toCanvas(weights[0], width);
+      const cy = toCanvas(bias, height, true);
+      const m = sampleGradients.length;
+      ctx.strokeStyle = COLORS.amber;
+      ctx.lineWidth = 1;
+      for (const g of sampleGradients) {
+        const dx = -learningRate * m * g.dw[0];
+        const dy = -learningRate * m * g.db;
+        ctx.beginPath();
+        ctx.moveTo(cx, cy);
+        ctx.lineTo(cx + (dx / (2 * RANGE)) * width, cy - (dy / (2 * RANGE)) * height);
+        ctx.stroke();
+      }
+
+      ctx.beginPath();
+      ctx.arc(cx, cy, 3.5, 0, Math.PI * 2);
+      ctx.fillStyle = COLORS.red;
+      ctx.fill();
+
+      ctx.fillStyle = COLORS.text;
+      ctx.font = '10px monospace';
+      ctx.fillText(weights.length > 1 ? 'w₁ →' : 'w →', width - 34, height - 6);
+      ctx.fillText('b ↑', 4, 12);
+
+      ctx.restore();
+    },
+    [grid, paramPath, sampleGradients, weights, bias, learningRate],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Loss contour over weight and bias with the gradient descent trail"
+      render={render}
+      deps={[grid, paramPath, sampleGradients, weights, bias, learningRate]}
+    />
+  );
+}
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { ModuleLayout } from '../../components/layout/ModuleLayout';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { ParameterSlider } from '../../components/shared/ParameterSlider';
+import { ParameterPanel } from '../../components/shared/ParameterPanel';
+import { PlayPauseButton } from '../../components/shared/PlayPauseButton';
+import { TrainingMetrics } from '../../components/shared/TrainingMetrics';
+import { useLogisticRegressionStore } from '../../stores/useLogisticRegressionStore';
+import { sigmoid } from '../../ml/logistic-regression';
+import { useDraggablePoints } from '../../hooks/useDraggablePoints';
+import { LossCurveChart } from './LossCurveChart';
+import {
+  clearCanvas,
+  drawAxes,
+  drawPoint,
+  drawLine,
+  dataToCanvas,
+} from '../../utils/canvas-helpers';
+import { createDivergingScale } from '../../utils/color-scales';
+import { COLORS } from '../../config/constants';
+
+const RANGE_X: [number, number] = [-1.5, 1.5];
+const RANGE_Y: [number, number] = [-1.5, 1.5];
+const HEATMAP_RES = 40;
+
+const colorScale = createDivergingScale([1, 0]); // reversed so blue=0, red=1
+
+export default function LogisticRegressionPage() {
+  const {
+    points,
+    weights,
+    bias,
+    learningRate,
+    loss,
+    accuracy,
+    epoch,
+    isTraining,
+    currentLabel,
+    addPoint,
+    updatePoint,
+    setCurrentLabel,
+    setLearningRate,
+    trainStep,
+    reset,
+    toggleTraining,
+  } = useLogisticRegressionStore();
+
+  const rafRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!isTraining) {
+      if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+      return;
+    }
+    let lastTime = 0;
+    const loop = (time: number) => {
+      if (time - lastTime > 33) {
+        trainStep();
+        lastTime = time;
+      }
+      rafRef.current = requestAnimationFrame(loop);
+    };
+    rafRef.current = requestAnimationFrame(loop);
+    return () => {
+      if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+    };
+  }, [isTraining, trainStep]);
+
+  const { onMouseDown, onMouseMove, onMouseUp } = useDraggablePoints({
+    rangeX: RANGE_X,
+    rangeY: RANGE_Y,
+    onAddPoint: addPoint,
+    onDragPoint: updatePoint,
+    getPoints: () => useLogisticRegressionStore.getState().points,
+    getLabel: () => useLogisticRegressionStore.getState().currentLabel,
+  });
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+
+      // Predicted probability of class 1
+      if (epoch > 0) {
+        const cellW = width / HEATMAP_RES;
+        const cellH = height / HEATMAP_RES;
+        ctx.globalAlpha = 0.45;
+        for (let i = 0; i < HEATMAP_RES; i++) {
+          for (let j = 0; j < HEATMAP_RES; j++) {
+            const x = RANGE_X[0] + ((i + 0.5) / HEATMAP_RES) * (RANGE_X[1] - RANGE_X[0]);
+            const y = RANGE_Y[1] - ((j + 0.5) / HEATMAP_RES) * (RANGE_Y[1] - RANGE_Y[0]);
+            ctx.fillStyle = colorScale(sigmoid(weights[0] * x + weights[1] * y + bias));
+            ctx.fillRect(i * cellW, j * cellH, cellW + 1, cellH + 1);
+          }
+        }
+        ctx.globalAlpha = 1;
+      }
+
+      drawAxes(ctx, width, height);
+
+      // Decision boundary: w1·x + w2·y + b = 0
+      if (epoch > 0 && Math.abs(weights[1]) > 1e-9) {
+        const yAt = (x: number) => -(weights[0] * x + bias) / weights[1];
+        const [cx1, cy1] = dataToCanvas(
+          RANGE_X[0],
+          yAt(RANGE_X[0]),
+          width,
+          height,
+          RANGE_X,
+          RANGE_Y,
+        );
+        const [cx2, cy2] = dataToCanvas(
+          RANGE_X[1],
+          yAt(RANGE_X[1]),
+          width,
+          height,
+          RANGE_X,
+          RANGE_Y,
+        );
+        drawLine(ctx, cx1, cy1, cx2, cy2, COLORS.text, 2);
+      } else if (epoch > 0 && Math.abs(weights[0]) > 1e-9) {
+        const x = -bias / weights[0];
+        const [cx1, cy1] = dataToCanvas(x, RANGE_Y[0], width, height, RANGE_X, RANGE_Y);
+        const [cx2, cy2] = dataToCanvas(x, RANGE_Y[1], width, height, RANGE_X, RANGE_Y);
+        drawLine(ctx, cx1, cy1, cx2, cy2, COLORS.text, 2);
+      }
+
+      // Data points
+      for (const p of points) {
+        const [cx, cy] = dataToCanvas(p.x, p.y, width, height, RANGE_X, RANGE_Y);
+        drawPoint(ctx, cx, cy, '#ffffff', 7, true);
+        drawPoint(ctx, cx, cy, COLORS.classColors[p.label === 1 ? 1 : 0], 6);
+      }
+
+      if (points.length > 0) {
+        ctx.fillStyle = COLORS.text;
+        ctx.font = '12px monospace';
+        ctx.fillText(`Loss: ${loss.toFixed(4)}`, 10, 20);
+        ctx.fillText(
+          `p = σ(${weights[0].toFixed(2)}x + ${weights[1].toFixed(2)}y + ${bias.toFixed(2)})`,
+          10,
+          36,
+        );
+      }
+
+      ctx.restore();
+    },
+    [points, weights, bias, loss, epoch],
+  );
+
+  const controls = (
+    <div className="space-y-6">
+      <ParameterPanel title="Parameters">
+        <ParameterSlider
+          label="Learning Rate"
+          value={learningRate}
+          min={0.01}
+          max={3}
+          step={0.01}
+          onChange={setLearningRate}
+          format={(v) => v.toFixed(2)}
+        />
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-text-muted">Click label:</span>
+          {[0, 1].map((label) => (
+            <button
+              key={label}
+              onClick={() => setCurrentLabel(label)}
+              className={`w-5 h-5 rounded-full border-2 transition-colors ${
+                currentLabel === label ? 'border-white' : 'border-transparent'
+              }`}
+              style={{ backgroundColor: COLORS.classColors[label] }}
+              title={`Class ${label}`}
+              aria-label={`Class ${label}`}
+            />
+          ))}
+        </div>
+      </ParameterPanel>
+
+      <ParameterPanel title="Training">
+        <PlayPauseButton
+          isPlaying={isTraining}
+          onToggle={toggleTraining}
+          onReset={reset}
+          disabled={points.length === 0}
+        />
+        <TrainingMetrics epoch={epoch} loss={loss} accuracy={accuracy} isTraining={isTraining} />
+      </ParameterPanel>
+
+      <div className="text-xs text-text-muted leading-relaxed">
+        Pick a class and click on the canvas to add labelled points; drag them to move. The white
+        line is the decision boundary where the sigmoid output is 0.5, and the shading shows the
+        predicted probability of class 1.
+      </div>
+    </div>
+  );
+
+  return (
+    <ModuleLayout
+      title="Logistic Regression"
+      description="Fit a sigmoid decision boundary to labelled points with gradient descent"
+      learnMore="Logistic regression passes a linear score w·x + b through the sigmoid to get a probability, and is trained by minimizing binary cross-entropy. It is a neural network with no hidden layers, so its decision boundary is always a straight line."
+      controls={controls}
+    >
+      <div className="flex flex-col gap-4 h-full">
+        <div className="flex-1 min-h-0">
+          <InteractiveCanvas
+            ariaLabel="Logistic regression decision boundary — click to add labelled points"
+            render={render}
+            onMouseDown={onMouseDown}
+            onMouseMove={onMouseMove}
+            onMouseUp={onMouseUp}
+            deps={[points, weights, bias, loss, epoch]}
+          />
+        </div>
+        <div className="h-52 shrink-0">
+          <LossCurveChart />
+        </div>
+      </div>
+    </ModuleLayout>
+  );
+}
@@ -0,0 +1,68 @@
+import { useCallback } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { useLogisticRegressionStore } from '../../stores/useLogisticRegressionStore';
+import { clearCanvas } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+
+export function LossCurveChart() {
+  const lossHistory = useLogisticRegressionStore((s) => s.lossHistory);
+  const epoch = useLogisticRegressionStore((s) => s.epoch);
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (lossHistory.length < 2) {
+        ctx.fillStyle = COLORS.textMuted;
+        ctx.fillText('Train to plot the cross-entropy loss.', PADDING, height / 2);
+        ctx.restore();
+        return;
+      }
+
+      const maxLoss = Math.max(...lossHistory, 1e-3);
+      const toX = (i: number) => PADDING + (i / (lossHistory.length - 1)) * (width - 2 * PADDING);
+      const toY = (loss: number) => PADDING / 2 + (1 - loss / maxLoss) * (height - 1.5 * PADDING);
+
+      ctx.strokeStyle = COLORS.border;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(PADDING, toY(0));
+      ctx.lineTo(width - PADDING, toY(0));
+      ctx.stroke();
+
+      ctx.strokeStyle = COLORS.green;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      lossHistory.forEach((loss, i) => {
+        if (i === 0) ctx.moveTo(toX(i), toY(loss));
+        else ctx.lineTo(toX(i), toY(loss));
+      });
+      ctx.stroke();
+
+      ctx.fillStyle = COLORS.textMuted;
+      ctx.fillText(`cross-entropy (max ${maxLoss.toFixed(3)})`, PADDING, 14);
+      ctx.fillText(`epoch ${epoch - lossHistory.length + 1}`, PADDING, height - 6);
+      ctx.fillText(`${epoch}`, width - PADDING - 30, height - 6);
+
+      ctx.restore();
+    },
+    [lossHistory, epoch],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Cross-entropy loss curve"
+      render={render}
+      deps={[lossHistory, epoch]}
+    />
+  );
+}
@@ -5,6 +5,7 @@ import { Eq } from '../../components/math/Eq';
 import { Prose } from '../../components/math/Prose';
 import { InteractiveDemo } from '../../components/math/InteractiveDemo';
 import { ParameterSlider } from '../../components/shared/ParameterSlider';
+import { DEFAULT_OPTIMIZER, Optimizer, type OptimizerType } from '../../ml/optimizers';
 
 // ── Color constants ──────────────────────────────────────────────────
 const BG = '#0f172a';
@@ -847,18 +848,12 @@ function MomentumDemo() {
 
   const computeMomentum = useCallback((steps: number, b: number): [number, number][] => {
     const lr = 0.04;
-    let x = 0.5,
-      y = -3.5;
-    let vx = 0,
-      vy = 0;
-    const path: [number, number][] = [[x, y]];
+    const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type: 'momentum', momentum: b });
+    let p = [0.5, -3.5];
+    const path: [number, number][] = [[p[0], p[1]]];
     for (let i = 0; i < steps; i++) {
-      const [gx, gy] = grad(x, y);
-      vx = b * vx + gx;
-      vy = b * vy + gy;
-      x -= lr * vx;
-      y -= lr * vy;
-      path.push([x, y]);
+      p = optimizer.step(p, ([x, y]) => grad(x, y), lr);
+      path.push([p[0], p[1]]);
     }
     return path;
   }, []);
@@ -1212,58 +1207,34 @@ function AdamDemo() {
     return path;
   }, []);
 
-  const computeMomentum = useCallback((steps: number): [number, number][] => {
-    const lr = 0.002;
-    const beta = 0.9;
-    let x = -1.5,
-      y = 2.5;
-    let vx = 0,
-      vy = 0;
-    const path: [number, number][] = [[x, y]];
-    for (let i = 0; i < steps; i++) {
-      const [gx, gy] = gradFn(x, y);
-      vx = beta * vx + gx;
-      vy = beta * vy + gy;
-      x -= lr * vx;
-      y -= lr * vy;
-      x = Math.max(xRange[0], Math.min(xRange[1], x));
-      y = Math.max(yRange[0], Math.min(yRange[1], y));
-      path.push([x, y]);
-    }
-    return path;
-  }, []);
+  // Runs a stateful optimizer from the shared start point, clamping to the plotted range
+  const runOptimizer = useCallback(
+    (type: OptimizerType, lr: number, steps: number): [number, number][] => {
+      const optimizer = new Optimizer({ ...DEFAULT_OPTIMIZER, type });
+      let p = [-1.5, 2.5];
+      const path: [number, number][] = [[p[0], p[1]]];
+      for (let i = 0; i < steps; i++) {
+        const [x, y] = optimizer.step(p, ([px, py]) => gradFn(px, py), lr);
+        p = [
+          Math.max(xRange[0], Math.min(xRange[1], x)),
+          Math.max(yRange[0], Math.min(yRange[1], y)),
+        ];
+        path.push([p[0], p[1]]);
+      }
+      return path;
+    },
+    [],
+  );
 
-  const computeAdam = useCallback((steps: number): [number, number][] => {
-    const lr = 0.05;
-    const b1 = 0.9,
-      b2 = 0.999,
-      eps = 1e-8;
-    let x = -1.5,
-      y = 2.5;
-    let mx = 0,
-      my = 0,
-      vx = 0,
-      vy = 0;
-    const path: [number, number][] = [[x, y]];
-    for (let i = 0; i < steps; i++) {
-      const t = i + 1;
-      const [gx, gy] = gradFn(x, y);
-      mx = b1 * mx + (1 - b1) * gx;
-      my = b1 * my + (1 - b1) * gy;
-      vx = b2 * vx + (1 - b2) * gx * gx;
-      vy = b2 * vy + (1 - b2) * gy * gy;
-      const mxh = mx / (1 - Math.pow(b1, t));
-      const myh = my / (1 - Math.pow(b1, t));
-      const vxh = vx / (1 - Math.pow(b2, t));
-      const vyh = vy / (1 - Math.pow(b2, t));
-      x -= (lr * mxh) / (Math.sqrt(vxh) + eps);
-      y -= (lr * myh) / (Math.sqrt(vyh) + eps);
-      x = Math.max(xRange[0], Math.min(xRange[1], x));
-      y = Math.max(yRange[0], Math.min(yRange[1], y));
-      path.push([x, y]);
-    }
-    return path;
-  }, []);
+  const computeMomentum = useCallback(
+    (steps: number) => runOptimizer('momentum', 0.002, steps),
+    [runOptimizer],
+  );
+
+  const computeAdam = useCallback(
+    (steps: number) => runOptimizer('adam', 0.05, steps),
+    [runOptimizer],
+  );
 
   // Log-scale loss function for contour visualization
   const logFn = useCallback((x: number, y: number) => Math.log(1 + fn(x, y)), []);
@@ -1,18 +1,52 @@
 import { Plus, Trash2 } from 'lucide-react';
-import { useNeuralNetworkStore } from '../../stores/useNeuralNetworkStore';
+import { regularizationTags, useNeuralNetworkStore } from '../../stores/useNeuralNetworkStore';
 import type { NetworkLayer } from '../../ml/types';
+import { INPUT_FEATURES, orderedFeatures } from '../../ml/features';
 
 const ACTIVATIONS: NetworkLayer['activation'][] = ['relu', 'sigmoid', 'tanh'];
 
+const inputClass =
+  'w-14 bg-surface-lighter rounded px-1.5 py-0.5 text-xs text-text text-center border border-border focus:border-primary outline-none';
+
+/** Parse a number input and clamp it to [0, max], treating anything unparseable as 0. */
+function clampInput(value: string, max: number): number {
+  return Math.max(0, Math.min(max, parseFloat(value) || 0));
+}
+
 export function ArchitectureBuilder() {
   const architecture = useNeuralNetworkStore((s) => s.architecture);
   const addLayer = useNeuralNetworkStore((s) => s.addLayer);
   const removeLayer = useNeuralNetworkStore((s) => s.removeLayer);
   const updateLayer = useNeuralNetworkStore((s) => s.updateLayer);
+  const toggleFeature = useNeuralNetworkStore((s) => s.toggleFeature);
   const isTraining = useNeuralNetworkStore((s) => s.trainingState.isTraining);
 
   return (
     <div className="space-y-2">
+      <h4 className="text-[11px] font-semibold text-text-muted uppercase tracking-widest">
+        Input Features
+      </h4>
+      <div className="flex flex-wrap gap-1">
+        {INPUT_FEATURES.map((f) => {
+          const enabled = architecture.features.includes(f.id);
+          return (
+            <button
+              key={f.id}
+              onClick={() => toggleFeature(f.id)}
+              aria-pressed={enabled}
+              disabled={isTraining}
+              className={`px-2 py-0.5 rounded text-xs transition-colors disabled:opacity-40 ${
+                enabled
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-border/50'
+              }`}
+            >
+              {f.label}
+            </button>
+          );
+        })}
+      </div>
+
       <div className="flex items-center justify-between">
         <h4 className="text-[11px] font-semibold text-text-muted uppercase tracking-widest">
           Hidden Layers
@@ -33,55 +67,116 @@ export function ArchitectureBuilder() {
 
       <div className="space-y-2">
         {architecture.layers.map((layer, i) => (
-          <div
-            key={i}
-            className="flex items-center gap-2 bg-surface rounded-lg p-2 border border-white/[0.04]"
-          >
-            <span className="text-xs text-text-muted w-4">{i + 1}</span>
-            <div className="flex-1 flex items-center gap-2">
-              <input
-                type="number"
-                min={1}
-                max={16}
-                value={layer.units}
+          <div key={i} className="space-y-1.5 bg-surface rounded-lg p-2 border border-white/[0.04]">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-text-muted w-4">{i + 1}</span>
+              <div className="flex-1 flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={16}
+                  value={layer.units}
+                  disabled={isTraining}
+                  onChange={(e) =>
+                    updateLayer(i, {
+                      units: Math.max(1, Math.min(16, parseInt(e.target.value) || 1)),
+                    })
+                  }
+                  className="w-12 bg-surface-lighter rounded px-1.5 py-0.5 text-xs text-text text-center border border-border focus:border-primary outline-none"
+                />
+                <select
+                  value={layer.activation}
+                  disabled={isTraining}
+                  onChange={(e) =>
+                    updateLayer(i, { activation: e.target.value as NetworkLayer['activation'] })
+                  }
+                  className="flex-1 bg-surface-lighter rounded px-1.5 py-0.5 text-xs text-text border border-border focus:border-primary outline-none"
+                >
+                  {ACTIVATIONS.map((act) => (
+                    <option key={act} value={act}>
+                      {act}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={() => removeLayer(i)}
                 disabled={isTraining}
-                onChange={(e) =>
-                  updateLayer(i, {
-                    units: Math.max(1, Math.min(16, parseInt(e.target.value) || 1)),
-                  })
-                }
-                className="w-12 bg-surface-lighter rounded px-1.5 py-0.5 text-xs text-text text-center border border-border focus:border-primary outline-none"
-              />
-              <select
-                value={layer.activation}
+                className="text-text-muted hover:text-red transition-colors disabled:opacity-40"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="flex items-center gap-2 pl-6 text-[10px] text-text-muted">
+              <label className="flex items-center gap-1">
+                L1
+                <input
+                  type="number"
+                  min={0}
+                  max={0.1}
+                  step={0.001}
+                  value={layer.l1 ?? 0}
+                  disabled={isTraining}
+                  onChange={(e) => updateLayer(i, { l1: clampInput(e.target.value, 0.1) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                L2
+                <input
+                  type="number"
+                  min={0}
+                  max={0.1}
+                  step={0.001}
+                  value={layer.l2 ?? 0}
+                  disabled={isTraining}
+                  onChange={(e) => updateLayer(i, { l2: clampInput(e.target.value, 0.1) })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <div className="flex items-center gap-2 pl-6 text-[10px] text-text-muted">
+              <label className="flex items-center gap-1">
+                Dropout
+                <input
+                  type="number"
+                  min={0}
+                  max={0.8}
+                  step={0.05}
+                  value={layer.dropout ?? 0}
+                  disabled={isTraining}
+                  onChange={(e) => updateLayer(i, { dropout: clampInput(e.target.value, 0.8) })}
+                  className={inputClass}
+                />
+              </label>
+              <button
+                onClick={() => updateLayer(i, { batchNorm: !layer.batchNorm })}
+                aria-pressed={layer.batchNorm ?? false}
                 disabled={isTraining}
-                onChange={(e) =>
-                  updateLayer(i, { activation: e.target.value as NetworkLayer['activation'] })
-                }
-                className="flex-1 bg-surface-lighter rounded px-1.5 py-0.5 text-xs text-text border border-border focus:border-primary outline-none"
+                className={`px-2 py-0.5 rounded transition-colors disabled:opacity-40 ${
+                  layer.batchNorm
+                    ? 'bg-primary/15 text-primary-light border border-primary/30'
+                    : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-border/50'
+                }`}
               >
-                {ACTIVATIONS.map((act) => (
-                  <option key={act} value={act}>
-                    {act}
-                  </option>
-                ))}
-              </select>
+                Batch norm
+              </button>
             </div>
-            <button
-              onClick={() => removeLayer(i)}
-              disabled={isTraining}
-              className="text-text-muted hover:text-red transition-colors disabled:opacity-40"
-            >
-              <Trash2 size={12} />
-            </button>
           </div>
         ))}
       </div>
 
       <div className="text-[10px] text-text-muted pt-1">
-        Input(2) →{' '}
-        {architecture.layers.map((l) => `Dense(${l.units}, ${l.activation})`).join(' → ')}
-        {architecture.layers.length > 0 ? ' → ' : ''}Output(1, sigmoid)
+        Input(
+        {orderedFeatures(architecture.features)
+          .map((f) => f.label)
+          .join(', ')}
+        ) →{' '}
+        {architecture.layers
+          .map((l) => `Dense(${[l.units, l.activation, ...regularizationTags(l)].join(', ')})`)
+          .join(' → ')}
+        {architecture.layers.length > 0 ? ' → ' : ''}Output({architecture.outputSize},{' '}
+        {architecture.outputActivation})
       </div>
     </div>
   );
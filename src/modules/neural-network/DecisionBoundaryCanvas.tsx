@@ -4,13 +4,13 @@ import { useCanvasRenderer } from '../../hooks/useCanvasRenderer';
 import { useNeuralNetworkStore } from '../../stores/useNeuralNetworkStore';
 import { dataToCanvas, canvasToData } from '../../utils/canvas-helpers';
 import { drawAxes, drawPoint } from '../../utils/canvas-helpers';
-import { createDivergingScale, colorStringToRgb } from '../../utils/color-scales';
+import { hexToRgb } from '../../utils/color-scales';
 import { COLORS } from '../../config/constants';
 
 const RANGE_X: [number, number] = [-1.5, 1.5];
 const RANGE_Y: [number, number] = [-1.5, 1.5];
 
-const colorScale = createDivergingScale([1, 0]); // reversed so blue=0, red=1
+const classRgb = COLORS.classColors.map(hexToRgb);
 
 export function DecisionBoundaryCanvas() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -19,7 +19,7 @@ export function DecisionBoundaryCanvas() {
   const render = useCallback(
     (ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number) => {
       const store = useNeuralNetworkStore.getState();
-      const { decisionBoundary, boundaryResolution, points } = store;
+      const { decisionBoundary, boundaryResolution, points, splits, numClasses } = store;
 
       // Canvas dimensions are in device pixels; context is pre-scaled by DPR,
       // so we need to work in CSS pixel coordinates.
@@ -32,7 +32,7 @@ export function DecisionBoundaryCanvas() {
       ctx.fillRect(0, 0, width, height);
 
       // Draw decision boundary heatmap
-      if (decisionBoundary) {
+      if (decisionBoundary && decisionBoundary.length === boundaryResolution ** 2 * numClasses) {
         const res = boundaryResolution;
         if (!offscreenRef.current || offscreenRef.current.width !== res) {
           offscreenRef.current = new OffscreenCanvas(res, res);
@@ -45,9 +45,17 @@ export function DecisionBoundaryCanvas() {
         for (let py = 0; py < res; py++) {
           for (let px = 0; px < res; px++) {
             const srcRow = res - 1 - py;
-            const value = decisionBoundary[srcRow * res + px];
-            const color = colorScale(value);
-            const [r, g, b] = colorStringToRgb(color);
+            const offset = (srcRow * res + px) * numClasses;
+            // Mix the class colours in proportion to their predicted probabilities
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            for (let c = 0; c < numClasses; c++) {
+              const p = decisionBoundary[offset + c];
+              r += p * classRgb[c][0];
+              g += p * classRgb[c][1];
+              b += p * classRgb[c][2];
+            }
             const dstIdx = (py * res + px) * 4;
             imageData.data[dstIdx] = r;
             imageData.data[dstIdx + 1] = g;
@@ -64,10 +72,10 @@ export function DecisionBoundaryCanvas() {
       // Draw axes
       drawAxes(ctx, width, height);
 
-      // Draw data points
-      for (const point of points) {
+      // Draw data points; held-out points are hollow
+      points.forEach((point, i) => {
         const [cx, cy] = dataToCanvas(point.x, point.y, width, height, RANGE_X, RANGE_Y);
-        const color = point.label === 0 ? COLORS.classColors[0] : COLORS.classColors[1];
+        const color = COLORS.classColors[(point.label ?? 0) % COLORS.classColors.length];
 
         // White outline for visibility on heatmap
         ctx.beginPath();
@@ -76,8 +84,16 @@ export function DecisionBoundaryCanvas() {
         ctx.lineWidth = 1.5;
         ctx.stroke();
 
-        drawPoint(ctx, cx, cy, color, 4);
-      }
+        if (splits[i] === 'train') {
+          drawPoint(ctx, cx, cy, color, 4);
+        } else {
+          ctx.beginPath();
+          ctx.arc(cx, cy, 3.5, 0, Math.PI * 2);
+          ctx.strokeStyle = color;
+          ctx.lineWidth = 2;
+          ctx.stroke();
+        }
+      });
     },
     [],
   );
@@ -0,0 +1,103 @@
+import { useCallback } from 'react';
+import { InteractiveCanvas } from '../../components/shared/InteractiveCanvas';
+import { bestValidationEpoch, useNeuralNetworkStore } from '../../stores/useNeuralNetworkStore';
+import { clearCanvas } from '../../utils/canvas-helpers';
+import { COLORS } from '../../config/constants';
+
+const PADDING = 28;
+const TRAIN_COLOR = COLORS.primaryLight;
+const VALIDATION_COLOR = COLORS.amber;
+
+export function LossCurveChart() {
+  const history = useNeuralNetworkStore((s) => s.history);
+
+  const render = useCallback(
+    (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = w / dpr;
+      const height = h / dpr;
+      ctx.save();
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+      clearCanvas(ctx, width, height);
+      ctx.font = '11px monospace';
+
+      if (history.length < 2) {
+        ctx.fillStyle = COLORS.textMuted;
+        ctx.fillText('Train to plot train and validation loss.', PADDING, height / 2);
+        ctx.restore();
+        return;
+      }
+
+      let hi = 0;
+      for (const m of history) hi = Math.max(hi, m.loss, m.valLoss ?? 0);
+      if (hi < 1e-9) hi = 1;
+      const last = history[history.length - 1].epoch;
+      const first = history[0].epoch;
+
+      const toX = (epoch: number) =>
+        PADDING + ((epoch - first) / Math.max(last - first, 1)) * (width - 2 * PADDING);
+      const toY = (loss: number) => PADDING / 2 + (1 - loss / hi) * (height - 1.5 * PADDING);
+
+      const drawCurve = (values: (number | null)[], color: string) => {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        let started = false;
+        values.forEach((v, i) => {
+          if (v === null) return;
+          if (!started) ctx.moveTo(toX(history[i].epoch), toY(v));
+          else ctx.lineTo(toX(history[i].epoch), toY(v));
+          started = true;
+        });
+        ctx.stroke();
+      };
+      drawCurve(
+        history.map((m) => m.loss),
+        TRAIN_COLOR,
+      );
+      drawCurve(
+        history.map((m) => m.valLoss),
+        VALIDATION_COLOR,
+      );
+
+      // Past this epoch the validation loss only got worse: the network started to overfit
+      const best = bestValidationEpoch(history);
+      if (best) {
+        const x = toX(best.epoch);
+        ctx.strokeStyle = COLORS.textMuted;
+        ctx.setLineDash([3, 3]);
+        ctx.beginPath();
+        ctx.moveTo(x, PADDING / 2);
+        ctx.lineTo(x, height - PADDING);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = VALIDATION_COLOR;
+        ctx.beginPath();
+        ctx.arc(x, toY(best.valLoss), 4, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillText(`best ${best.epoch}`, x + 6, toY(best.valLoss) - 6);
+      }
+
+      ctx.fillStyle = TRAIN_COLOR;
+      ctx.fillText('train', width - PADDING - 112, 14);
+      ctx.fillStyle = VALIDATION_COLOR;
+      ctx.fillText('validation', width - PADDING - 70, 14);
+      ctx.fillStyle = COLORS.textMuted;
+      ctx.fillText(`loss, 0 to ${hi.toFixed(2)}`, PADDING, 14);
+      ctx.fillText(`epoch ${first}`, PADDING, height - 6);
+      ctx.fillText(`${last}`, width - PADDING - 30, height - 6);
+
+      ctx.restore();
+    },
+    [history],
+  );
+
+  return (
+    <InteractiveCanvas
+      ariaLabel="Loss curves — train and validation loss against epoch"
+      render={render}
+      deps={[history]}
+    />
+  );
+}
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
-import { useNeuralNetworkStore } from '../../stores/useNeuralNetworkStore';
+import { regularizationTags, useNeuralNetworkStore } from '../../stores/useNeuralNetworkStore';
+import { orderedFeatures } from '../../ml/features';
 
 const NODE_RADIUS = 12;
 const LAYER_SPACING = 50;
@@ -42,10 +43,23 @@ export function NetworkDiagram() {
     return acts;
   }, [architecture]);
 
+  // Regularization tags per diagram layer; the input and output layers have none
+  const tags = useMemo(
+    () => [[], ...architecture.layers.map(regularizationTags), []],
+    [architecture],
+  );
+
+  const featureLabels = useMemo(
+    () => orderedFeatures(architecture.features).map((f) => f.label),
+    [architecture],
+  );
+
   const numLayers = layerSizes.length;
   const maxNodes = Math.max(...layerSizes);
   // Rotated: width is based on max nodes (horizontal), height on layers (vertical)
-  const svgWidth = (maxNodes - 1) * NODE_SPACING + 60;
+  // Room for the longest tag text on both sides keeps the network centred
+  const tagWidth = Math.max(...tags.map((t) => t.join(' · ').length * 5.5));
+  const svgWidth = (maxNodes - 1) * NODE_SPACING + 60 + 2 * tagWidth;
   const svgHeight = (numLayers - 1) * LAYER_SPACING + 60;
 
   const nodePositions = useMemo(() => {
@@ -109,7 +123,20 @@ export function NetworkDiagram() {
                 fill="#1e293b"
                 stroke={l === 0 ? '#3b82f6' : l === numLayers - 1 ? '#10b981' : '#8b5cf6'}
                 strokeWidth={1.5}
+                // Dashed nodes are randomly dropped during training
+                strokeDasharray={architecture.layers[l - 1]?.dropout ? '3 2' : undefined}
               />
+              {l === 0 && (
+                <text
+                  x={pos.x}
+                  y={pos.y + 3}
+                  textAnchor="middle"
+                  fill="#f1f5f9"
+                  fontSize={featureLabels[ni].length > 2 ? 6 : 8}
+                >
+                  {featureLabels[ni]}
+                </text>
+              )}
             </g>
           )),
         )}
@@ -129,6 +156,7 @@ export function NetworkDiagram() {
               {activations[l] === 'input'
                 ? `in(${layerSizes[l]})`
                 : `${activations[l]}(${layerSizes[l]})`}
+              {tags[l].length > 0 && <tspan fill="#f59e0b">{` ${tags[l].join(' · ')}`}</tspan>}
             </text>
           );
         })}
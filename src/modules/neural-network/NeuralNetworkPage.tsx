@@ -5,17 +5,45 @@ import { ParameterPanel } from '../../components/shared/ParameterPanel';
 import { ParameterSlider } from '../../components/shared/ParameterSlider';
 import { PlayPauseButton } from '../../components/shared/PlayPauseButton';
 import { TrainingMetrics } from '../../components/shared/TrainingMetrics';
-import { useNeuralNetworkStore } from '../../stores/useNeuralNetworkStore';
+import {
+  MAX_CLASSES,
+  MULTICLASS_DATASETS,
+  splitData,
+  useNeuralNetworkStore,
+  type SplitParam,
+} from '../../stores/useNeuralNetworkStore';
+import { COLORS } from '../../config/constants';
 import { useTrainingWorker } from '../../hooks/useTrainingWorker';
 import { DecisionBoundaryCanvas } from './DecisionBoundaryCanvas';
 import { NetworkDiagram } from './NetworkDiagram';
 import { DatasetSelector } from './DatasetSelector';
 import { ArchitectureBuilder } from './ArchitectureBuilder';
+import { LossCurveChart } from './LossCurveChart';
 import type { NeuralNetworkWorkerAPI } from '../../workers/neural-network.worker';
+import type { EpochMetrics, NetworkOptimizerType } from '../../ml/types';
 
 const RANGE_X: [number, number] = [-1.5, 1.5];
 const RANGE_Y: [number, number] = [-1.5, 1.5];
 
+const OPTIMIZERS: { type: NetworkOptimizerType; label: string }[] = [
+  { type: 'sgd', label: 'SGD' },
+  { type: 'momentum', label: 'Momentum' },
+  { type: 'rmsprop', label: 'RMSProp' },
+  { type: 'adam', label: 'Adam' },
+  { type: 'adagrad', label: 'AdaGrad' },
+];
+
+const BATCH_OPTIONS: { label: 'Full' | 'Mini' | 'SGD'; size: number | null }[] = [
+  { label: 'Full', size: null },
+  { label: 'Mini', size: 16 },
+  { label: 'SGD', size: 1 },
+];
+
+function batchMode(batchSize: number | null) {
+  if (batchSize === null) return 'Full';
+  return batchSize === 1 ? 'SGD' : 'Mini';
+}
+
 const createWorker = () =>
   new Worker(new URL('../../workers/neural-network.worker.ts', import.meta.url), {
     type: 'module',
@@ -29,17 +57,31 @@ export default function NeuralNetworkPage() {
   const points = useNeuralNetworkStore((s) => s.points);
   const datasetType = useNeuralNetworkStore((s) => s.datasetType);
   const numPoints = useNeuralNetworkStore((s) => s.numPoints);
+  const numClasses = useNeuralNetworkStore((s) => s.numClasses);
   const trainingState = useNeuralNetworkStore((s) => s.trainingState);
   const learningRate = useNeuralNetworkStore((s) => s.learningRate);
+  const optimizer = useNeuralNetworkStore((s) => s.optimizer);
+  const batchSize = useNeuralNetworkStore((s) => s.batchSize);
+  const trainingSeed = useNeuralNetworkStore((s) => s.trainingSeed);
   const boundaryResolution = useNeuralNetworkStore((s) => s.boundaryResolution);
   const currentLabel = useNeuralNetworkStore((s) => s.currentLabel);
+  const validationFraction = useNeuralNetworkStore((s) => s.validationFraction);
+  const testFraction = useNeuralNetworkStore((s) => s.testFraction);
+  const splitSeed = useNeuralNetworkStore((s) => s.splitSeed);
+  const testMetrics = useNeuralNetworkStore((s) => s.testMetrics);
 
   const setDataset = useNeuralNetworkStore((s) => s.setDataset);
   const setNumPoints = useNeuralNetworkStore((s) => s.setNumPoints);
+  const setNumClasses = useNeuralNetworkStore((s) => s.setNumClasses);
   const setLearningRate = useNeuralNetworkStore((s) => s.setLearningRate);
+  const setOptimizer = useNeuralNetworkStore((s) => s.setOptimizer);
+  const setBatchSize = useNeuralNetworkStore((s) => s.setBatchSize);
+  const setTrainingSeed = useNeuralNetworkStore((s) => s.setTrainingSeed);
   const startTraining = useNeuralNetworkStore((s) => s.startTraining);
   const stopTraining = useNeuralNetworkStore((s) => s.stopTraining);
-  const updateTrainingState = useNeuralNetworkStore((s) => s.updateTrainingState);
+  const recordEpoch = useNeuralNetworkStore((s) => s.recordEpoch);
+  const setTestMetrics = useNeuralNetworkStore((s) => s.setTestMetrics);
+  const setSplit = useNeuralNetworkStore((s) => s.setSplit);
   const updateBoundary = useNeuralNetworkStore((s) => s.updateBoundary);
   const updateWeights = useNeuralNetworkStore((s) => s.updateWeights);
   const setCurrentLabel = useNeuralNetworkStore((s) => s.setCurrentLabel);
@@ -70,17 +112,26 @@ export default function NeuralNetworkPage() {
       api.stop();
       stopTraining();
       trainingLoopRef.current = false;
+      // Score the held-out test points once, on the model as it stands when paused
+      const { points, splits } = useNeuralNetworkStore.getState();
+      const test = splitData(points, splits, 'test');
+      if (test.xs.length > 0) {
+        api
+          .evaluate(test.xs, test.ys)
+          .then(setTestMetrics)
+          .catch(() => {});
+      }
       return;
     }
 
     const store = useNeuralNetworkStore.getState();
-    const xs = store.points.map((p) => [p.x, p.y]);
-    const ys = store.points.map((p) => p.label ?? 0);
+    const { xs, ys } = splitData(store.points, store.splits, 'train');
+    const validation = splitData(store.points, store.splits, 'validation');
 
     if (xs.length === 0) return;
 
     // Create model with current architecture
-    await api.createModel(store.architecture);
+    await api.createModel(store.architecture, store.trainingSeed);
     startTraining();
     trainingLoopRef.current = true;
 
@@ -97,16 +148,11 @@ export default function NeuralNetworkPage() {
             {
               learningRate: currentStore.learningRate,
               epochs: 10,
-              batchSize: xs.length,
+              batchSize: currentStore.batchSize ?? xs.length,
+              optimizer: currentStore.optimizer,
             },
-            Comlink.proxy((progress: { epoch: number; loss: number; accuracy: number }) => {
-              const prevEpoch = useNeuralNetworkStore.getState().trainingState.epoch;
-              updateTrainingState({
-                epoch: prevEpoch + 1,
-                loss: progress.loss,
-                accuracy: progress.accuracy,
-              });
-            }),
+            Comlink.proxy((progress: EpochMetrics) => recordEpoch(progress)),
+            validation,
           );
 
           // Update decision boundary
@@ -128,7 +174,8 @@ export default function NeuralNetworkPage() {
     trainingState.isTraining,
     startTraining,
     stopTraining,
-    updateTrainingState,
+    recordEpoch,
+    setTestMetrics,
     updateBoundary,
     updateWeights,
   ]);
@@ -156,9 +203,45 @@ export default function NeuralNetworkPage() {
     [worker, setDataset],
   );
 
+  const handleNumClassesChange = useCallback(
+    (n: number) => {
+      const api = worker.current;
+      if (api) {
+        api.stop();
+        api.dispose();
+      }
+      trainingLoopRef.current = false;
+      setNumClasses(n);
+    },
+    [worker, setNumClasses],
+  );
+
+  const handleSplitChange = useCallback(
+    (param: SplitParam, value: number) => {
+      const api = worker.current;
+      if (api) {
+        api.stop();
+        api.dispose();
+      }
+      trainingLoopRef.current = false;
+      setSplit(param, value);
+    },
+    [worker, setSplit],
+  );
+
   const controls = (
     <div className="space-y-6">
       <DatasetSelector selected={datasetType} onSelect={handleDatasetChange} />
+      {MULTICLASS_DATASETS.includes(datasetType) && (
+        <ParameterSlider
+          label="Classes"
+          value={numClasses}
+          min={2}
+          max={MAX_CLASSES}
+          step={1}
+          onChange={handleNumClassesChange}
+        />
+      )}
 
       <ParameterPanel title="Architecture">
         <ArchitectureBuilder />
@@ -174,6 +257,55 @@ export default function NeuralNetworkPage() {
           onChange={setLearningRate}
           format={(v) => v.toFixed(3)}
         />
+        <div className="grid grid-cols-3 gap-1">
+          {OPTIMIZERS.map((opt) => (
+            <button
+              key={opt.type}
+              onClick={() => setOptimizer(opt.type)}
+              className={`px-2 py-1.5 rounded text-sm transition-colors ${
+                optimizer === opt.type
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {BATCH_OPTIONS.map((opt) => (
+            <button
+              key={opt.label}
+              onClick={() => setBatchSize(opt.size)}
+              className={`flex-1 px-2 py-1.5 rounded text-sm transition-colors ${
+                batchMode(batchSize) === opt.label
+                  ? 'bg-primary/15 text-primary-light border border-primary/30'
+                  : 'bg-transparent text-text-muted hover:text-text hover:bg-surface-lighter border border-transparent'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        {batchMode(batchSize) === 'Mini' && (
+          <ParameterSlider
+            label="Batch Size"
+            value={batchSize ?? 16}
+            min={2}
+            max={128}
+            step={2}
+            onChange={setBatchSize}
+          />
+        )}
+        <ParameterSlider
+          label="Training Seed"
+          value={trainingSeed}
+          min={1}
+          max={100}
+          step={1}
+          onChange={setTrainingSeed}
+          format={(v) => String(Math.round(v))}
+        />
         <ParameterSlider
           label="Data Points"
           value={numPoints}
@@ -194,6 +326,39 @@ export default function NeuralNetworkPage() {
         />
       </ParameterPanel>
 
+      <ParameterPanel title="Data Split">
+        <ParameterSlider
+          label="Validation %"
+          value={validationFraction}
+          min={0}
+          max={0.5}
+          step={0.05}
+          onChange={(v) => handleSplitChange('validationFraction', v)}
+          format={(v) => `${Math.round(v * 100)}%`}
+        />
+        <ParameterSlider
+          label="Test %"
+          value={testFraction}
+          min={0}
+          max={0.3}
+          step={0.05}
+          onChange={(v) => handleSplitChange('testFraction', v)}
+          format={(v) => `${Math.round(v * 100)}%`}
+        />
+        <ParameterSlider
+          label="Split Seed"
+          value={splitSeed}
+          min={1}
+          max={100}
+          step={1}
+          onChange={(v) => handleSplitChange('splitSeed', v)}
+          format={(v) => String(Math.round(v))}
+        />
+        <p className="text-xs text-text-muted">
+          Hollow points are held out: the network never trains on them.
+        </p>
+      </ParameterPanel>
+
       <ParameterPanel title="Controls">
         <PlayPauseButton
           isPlaying={trainingState.isTraining}
@@ -203,22 +368,17 @@ export default function NeuralNetworkPage() {
         />
         <div className="flex items-center gap-2 mt-2">
           <span className="text-xs text-text-muted">Click label:</span>
-          <button
-            onClick={() => setCurrentLabel(0)}
-            className={`w-5 h-5 rounded-full border-2 transition-colors ${
-              currentLabel === 0 ? 'border-white' : 'border-transparent'
-            }`}
-            style={{ backgroundColor: '#3b82f6' }}
-            title="Class 0"
-          />
-          <button
-            onClick={() => setCurrentLabel(1)}
-            className={`w-5 h-5 rounded-full border-2 transition-colors ${
-              currentLabel === 1 ? 'border-white' : 'border-transparent'
-            }`}
-            style={{ backgroundColor: '#ef4444' }}
-            title="Class 1"
-          />
+          {COLORS.classColors.slice(0, numClasses).map((color, label) => (
+            <button
+              key={label}
+              onClick={() => setCurrentLabel(label)}
+              className={`w-5 h-5 rounded-full border-2 transition-colors ${
+                currentLabel === label ? 'border-white' : 'border-transparent'
+              }`}
+              style={{ backgroundColor: color }}
+              title={`Class ${label}`}
+            />
+          ))}
         </div>
       </ParameterPanel>
 
@@ -229,6 +389,12 @@ export default function NeuralNetworkPage() {
           accuracy={trainingState.accuracy}
           isTraining={trainingState.isTraining}
         />
+        {testMetrics && (
+          <p className="text-xs text-text-muted mt-2">
+            Test set: loss {testMetrics.loss.toFixed(4)}, accuracy{' '}
+            {(testMetrics.accuracy * 100).toFixed(1)}%
+          </p>
+        )}
       </ParameterPanel>
     </div>
   );
@@ -244,8 +410,13 @@ export default function NeuralNetworkPage() {
         <div className="flex-1 min-h-0">
           <DecisionBoundaryCanvas />
         </div>
-        <div className="h-52 shrink-0 bg-surface-light rounded-lg p-2 border border-white/[0.06] overflow-hidden">
-          <NetworkDiagram />
+        <div className="h-52 shrink-0 grid grid-cols-2 gap-4">
+          <div className="bg-surface-light rounded-lg p-2 border border-white/[0.06] overflow-hidden">
+            <NetworkDiagram />
+          </div>
+          <div className="bg-surface-light rounded-lg p-2 border border-white/[0.06] overflow-hidden">
+            <LossCurveChart />
+          </div>
         </div>
       </div>
     </ModuleLayout>
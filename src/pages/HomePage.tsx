@@ -4,6 +4,7 @@ import { moduleRoutes, mathRoutes } from '../config/routes';
 import { DIFFICULTY } from '../config/constants';
 import {
   TrendingUp,
+  Spline,
   Layers,
   Mountain,
   Brain,
@@ -23,6 +24,7 @@ import { useDocumentTitle } from '../hooks/useDocumentTitle';
 
 const iconMap: Record<string, React.ComponentType<{ size?: number; className?: string }>> = {
   TrendingUp,
+  Spline,
   Layers,
   Mountain,
   Brain,
@@ -16,7 +16,7 @@ describe('HomePage', () => {
     expect(screen.getByText('AI')).toBeInTheDocument();
   });
 
-  it('renders all 8 module cards', () => {
+  it('renders all 9 module cards', () => {
     render(
       <MemoryRouter>
         <HomePage />
@@ -24,6 +24,7 @@ describe('HomePage', () => {
     );
     const expectedTitles = [
       'Linear Regression',
+      'Logistic Regression',
       'K-Means Clustering',
       'Gradient Descent',
       'Neural Network',
@@ -46,6 +47,7 @@ describe('HomePage', () => {
     );
     const expectedPaths = [
       { title: 'Linear Regression', path: '/linear-regression' },
+      { title: 'Logistic Regression', path: '/logistic-regression' },
       { title: 'K-Means Clustering', path: '/kmeans' },
       { title: 'Gradient Descent', path: '/gradient-descent' },
       { title: 'Neural Network', path: '/neural-network' },
@@ -46,10 +46,10 @@ describe('NotFoundPage', () => {
       .filter((link) => link.getAttribute('href') !== '/');
     expect(suggestions).toHaveLength(6);
     expect(suggestions[0]).toHaveAttribute('href', '/linear-regression');
-    expect(suggestions[1]).toHaveAttribute('href', '/kmeans');
-    expect(suggestions[2]).toHaveAttribute('href', '/gradient-descent');
-    expect(suggestions[3]).toHaveAttribute('href', '/neural-network');
-    expect(suggestions[4]).toHaveAttribute('href', '/image-classification');
-    expect(suggestions[5]).toHaveAttribute('href', '/transfer-learning');
+    expect(suggestions[1]).toHaveAttribute('href', '/logistic-regression');
+    expect(suggestions[2]).toHaveAttribute('href', '/kmeans');
+    expect(suggestions[3]).toHaveAttribute('href', '/gradient-descent');
+    expect(suggestions[4]).toHaveAttribute('href', '/neural-network');
+    expect(suggestions[5]).toHaveAttribute('href', '/image-classification');
   });
 });
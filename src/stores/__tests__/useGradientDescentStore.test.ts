@@ -1,18 +1,43 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { useGradientDescentStore } from '../useGradientDescentStore';
+import {
+  basinKey,
+  MAX_LEARNING_RATE,
+  runnerAtStep,
+  selectBasinRequest,
+  selectCurrentBasins,
+  selectSelectedRunner,
+  useGradientDescentStore,
+} from '../useGradientDescentStore';
+import { computeBasins } from '../../ml/basins';
+import { computeGradient, computeHessian, MAX_GRADIENT_NORM } from '../../ml/gradient-descent';
+
+const selected = () => selectSelectedRunner(useGradientDescentStore.getState());
 
 describe('useGradientDescentStore', () => {
   beforeEach(() => {
+    const { runners } = useGradientDescentStore.getState();
+    // Also reset surfaceType, viewMode and the runners since reset() doesn't reset those
+    useGradientDescentStore.setState({
+      surfaceType: 'bowl',
+      viewMode: '3d',
+      runners: [runners[0]],
+      selectedRunnerId: runners[0].id,
+    });
     useGradientDescentStore.getState().reset();
-    // Also reset surfaceType and viewMode since reset() doesn't reset those
-    useGradientDescentStore.setState({ surfaceType: 'bowl', viewMode: '3d', learningRate: 0.05 });
+    useGradientDescentStore.getState().setOptimizerType('sgd');
+    useGradientDescentStore.getState().setScheduleType('constant');
+    useGradientDescentStore.getState().setNoiseType('none');
+    useGradientDescentStore.getState().setScheduleParam('warmupSteps', 0);
+    useGradientDescentStore.getState().setLearningRate(0.05);
   });
 
   it('has correct initial state', () => {
     const state = useGradientDescentStore.getState();
-    expect(state.position).toEqual([1.5, 1.5]);
-    expect(state.path).toEqual([[1.5, 1.5]]);
-    expect(state.learningRate).toBe(0.05);
+    expect(state.start).toEqual([1.5, 1.5]);
+    expect(state.runners).toHaveLength(1);
+    expect(selected().position).toEqual([1.5, 1.5]);
+    expect(selected().path).toEqual([[1.5, 1.5]]);
+    expect(selected().learningRate).toBe(0.05);
     expect(state.surfaceType).toBe('bowl');
     expect(state.isPlaying).toBe(false);
     expect(state.stepCount).toBe(0);
@@ -22,8 +47,9 @@ describe('useGradientDescentStore', () => {
   it('setPosition updates position and resets path', () => {
     useGradientDescentStore.getState().setPosition([2, 3]);
     const state = useGradientDescentStore.getState();
-    expect(state.position).toEqual([2, 3]);
-    expect(state.path).toEqual([[2, 3]]);
+    expect(state.start).toEqual([2, 3]);
+    expect(selected().position).toEqual([2, 3]);
+    expect(selected().path).toEqual([[2, 3]]);
     expect(state.stepCount).toBe(0);
   });
 
@@ -31,15 +57,15 @@ describe('useGradientDescentStore', () => {
     useGradientDescentStore.getState().step();
     const state = useGradientDescentStore.getState();
     // For bowl surface, gradient descent moves position toward origin
-    expect(state.position[0]).toBeLessThan(1.5);
-    expect(state.position[1]).toBeLessThan(1.5);
-    expect(state.path).toHaveLength(2);
+    expect(selected().position[0]).toBeLessThan(1.5);
+    expect(selected().position[1]).toBeLessThan(1.5);
+    expect(selected().path).toHaveLength(2);
+    expect(selected().losses).toHaveLength(2);
     expect(state.stepCount).toBe(1);
 
     useGradientDescentStore.getState().step();
-    const state2 = useGradientDescentStore.getState();
-    expect(state2.path).toHaveLength(3);
-    expect(state2.stepCount).toBe(2);
+    expect(selected().path).toHaveLength(3);
+    expect(useGradientDescentStore.getState().stepCount).toBe(2);
   });
 
   it('reset returns to defaults', () => {
@@ -49,15 +75,15 @@ describe('useGradientDescentStore', () => {
 
     useGradientDescentStore.getState().reset();
     const state = useGradientDescentStore.getState();
-    expect(state.position).toEqual([1.5, 1.5]);
-    expect(state.path).toEqual([[1.5, 1.5]]);
+    expect(selected().position).toEqual([1.5, 1.5]);
+    expect(selected().path).toEqual([[1.5, 1.5]]);
     expect(state.stepCount).toBe(0);
     expect(state.isPlaying).toBe(false);
   });
 
   it('setLearningRate updates value', () => {
     useGradientDescentStore.getState().setLearningRate(0.01);
-    expect(useGradientDescentStore.getState().learningRate).toBe(0.01);
+    expect(selected().learningRate).toBe(0.01);
   });
 
   it('setSurfaceType resets position and path', () => {
@@ -65,8 +91,8 @@ describe('useGradientDescentStore', () => {
     useGradientDescentStore.getState().setSurfaceType('saddle');
     const state = useGradientDescentStore.getState();
     expect(state.surfaceType).toBe('saddle');
-    expect(state.position).toEqual([1.5, 1.5]);
-    expect(state.path).toEqual([[1.5, 1.5]]);
+    expect(selected().position).toEqual([1.5, 1.5]);
+    expect(selected().path).toEqual([[1.5, 1.5]]);
     expect(state.stepCount).toBe(0);
     expect(state.isPlaying).toBe(false);
   });
@@ -85,4 +111,293 @@ describe('useGradientDescentStore', () => {
     useGradientDescentStore.getState().setViewMode('3d');
     expect(useGradientDescentStore.getState().viewMode).toBe('3d');
   });
+
+  it('setOptimizerType restarts the path from its start', () => {
+    useGradientDescentStore.getState().step();
+    useGradientDescentStore.getState().setOptimizerType('adam');
+    const state = useGradientDescentStore.getState();
+    expect(selected().optimizer.type).toBe('adam');
+    expect(selected().name).toBe('Adam');
+    expect(selected().path).toEqual([[1.5, 1.5]]);
+    expect(state.stepCount).toBe(0);
+  });
+
+  it('momentum steps further than sgd once velocity builds up', () => {
+    for (let i = 0; i < 3; i++) useGradientDescentStore.getState().step();
+    const sgd = selected().position;
+
+    useGradientDescentStore.getState().setOptimizerType('momentum');
+    for (let i = 0; i < 3; i++) useGradientDescentStore.getState().step();
+    const momentum = selected().position;
+    expect(Math.abs(momentum[0])).toBeLessThan(Math.abs(sgd[0]));
+  });
+
+  it('setOptimizerParam updates a hyperparameter', () => {
+    useGradientDescentStore.getState().setOptimizerParam('beta1', 0.8);
+    expect(selected().optimizer.beta1).toBe(0.8);
+    useGradientDescentStore.getState().setOptimizerParam('beta1', 0.9);
+  });
+
+  it('raceAllOptimizers creates one runner per optimizer at the shared start', () => {
+    useGradientDescentStore.getState().setPosition([1, -1]);
+    useGradientDescentStore.getState().raceAllOptimizers();
+    const { runners } = useGradientDescentStore.getState();
+    expect(runners.map((r) => r.optimizer.type)).toEqual([
+      'sgd',
+      'momentum',
+      'nesterov',
+      'rmsprop',
+      'adam',
+      'adagrad',
+      'newton',
+      'damped-newton',
+      'lbfgs',
+    ]);
+    expect(new Set(runners.map((r) => r.color)).size).toBe(runners.length);
+    for (const r of runners) expect(r.path).toEqual([[1, -1]]);
+    for (const r of runners) expect(r.learningRate).toBeLessThanOrEqual(MAX_LEARNING_RATE);
+
+    useGradientDescentStore.getState().step();
+    for (const r of useGradientDescentStore.getState().runners) expect(r.path).toHaveLength(2);
+  });
+
+  it('addRunner restarts the race and selects the new runner', () => {
+    useGradientDescentStore.getState().step();
+    useGradientDescentStore.getState().addRunner('adam');
+    const state = useGradientDescentStore.getState();
+    expect(state.runners).toHaveLength(2);
+    expect(state.stepCount).toBe(0);
+    expect(state.runners[0].path).toHaveLength(1);
+    expect(selected().optimizer.type).toBe('adam');
+    expect(selected().color).not.toBe(state.runners[0].color);
+  });
+
+  it('setLearningRate only changes the selected runner', () => {
+    useGradientDescentStore.getState().addRunner('momentum');
+    useGradientDescentStore.getState().setLearningRate(0.2);
+    const [first, second] = useGradientDescentStore.getState().runners;
+    expect(first.learningRate).toBe(0.05);
+    expect(second.learningRate).toBe(0.2);
+  });
+
+  it('removeRunner keeps at least one runner and reselects', () => {
+    useGradientDescentStore.getState().addRunner('adam');
+    const added = selected().id;
+    useGradientDescentStore.getState().removeRunner(added);
+    const state = useGradientDescentStore.getState();
+    expect(state.runners).toHaveLength(1);
+    expect(state.selectedRunnerId).toBe(state.runners[0].id);
+
+    useGradientDescentStore.getState().removeRunner(state.runners[0].id);
+    expect(useGradientDescentStore.getState().runners).toHaveLength(1);
+  });
+
+  it('records the convergence step and stops moving a converged runner', () => {
+    useGradientDescentStore.getState().setLearningRate(0.25);
+    for (let i = 0; i < 60; i++) useGradientDescentStore.getState().step();
+    const runner = selected();
+    expect(runner.convergedAt).not.toBeNull();
+    expect(runner.path).toHaveLength(runner.convergedAt! + 1);
+    expect(runner.losses[runner.convergedAt!]).toBeLessThan(1e-5);
+  });
+
+  it('setExpression switches to a compiled custom surface', () => {
+    useGradientDescentStore.getState().step();
+    useGradientDescentStore.getState().setExpression('(x - 1)^2 + (y + 0.5)^2');
+    const state = useGradientDescentStore.getState();
+    expect(state.expressionError).toBeNull();
+    expect(typeof state.surfaceType).toBe('object');
+    expect(state.stepCount).toBe(0);
+    expect(selected().losses[0]).toBeCloseTo(0.25 + 4);
+
+    useGradientDescentStore.getState().setLearningRate(0.25);
+    for (let i = 0; i < 40; i++) useGradientDescentStore.getState().step();
+    expect(selected().position[0]).toBeCloseTo(1, 2);
+    expect(selected().position[1]).toBeCloseTo(-0.5, 2);
+  });
+
+  it('setExpression keeps the previous surface when the expression is invalid', () => {
+    useGradientDescentStore.getState().setExpression('x^2 + (y');
+    const state = useGradientDescentStore.getState();
+    expect(state.surfaceType).toBe('bowl');
+    expect(state.expression).toBe('x^2 + (y');
+    expect(state.expressionError?.position).toBe(8);
+  });
+
+  it('reports which minimum a converged run reached', () => {
+    useGradientDescentStore.getState().setSurfaceType('himmelblau');
+    useGradientDescentStore.getState().setLearningRate(0.01);
+    for (let i = 0; i < 300; i++) useGradientDescentStore.getState().step();
+    const runner = selected();
+    expect(runner.convergedAt).not.toBeNull();
+    expect(runner.outcome?.minimumIndex).toBe(0);
+    expect(runner.outcome?.distance).toBeLessThan(0.01);
+  });
+
+  it('reports no outcome until a run converges', () => {
+    useGradientDescentStore.getState().setSurfaceType('saddle');
+    useGradientDescentStore.getState().step();
+    expect(selected().outcome).toBeNull();
+  });
+
+  it('clamps runners to the surface range', () => {
+    useGradientDescentStore.getState().setSurfaceType('six-hump-camel');
+    useGradientDescentStore.getState().setPosition([1.9, 1.9]);
+    useGradientDescentStore.getState().setLearningRate(0.5);
+    useGradientDescentStore.getState().step();
+    const [x, y] = selected().position;
+    expect(Math.abs(x)).toBeLessThanOrEqual(2);
+    expect(Math.abs(y)).toBeLessThanOrEqual(2);
+  });
+
+  it('records the effective learning rate of every step', () => {
+    useGradientDescentStore.getState().setScheduleType('exponential');
+    useGradientDescentStore.getState().setScheduleParam('decay', 0.5);
+    for (let i = 0; i < 3; i++) useGradientDescentStore.getState().step();
+    const rates = selected().learningRates;
+    expect(rates).toHaveLength(3);
+    expect(rates[0]).toBeCloseTo(0.05);
+    expect(rates[1]).toBeCloseTo(0.025);
+    expect(rates[2]).toBeCloseTo(0.0125);
+  });
+
+  it('warmup starts with a smaller first step', () => {
+    useGradientDescentStore.getState().step();
+    const full = 1.5 - selected().position[0];
+
+    useGradientDescentStore.getState().setScheduleParam('warmupSteps', 10);
+    useGradientDescentStore.getState().reset();
+    useGradientDescentStore.getState().step();
+    expect(1.5 - selected().position[0]).toBeCloseTo(full / 10);
+  });
+
+  it('setScheduleType restarts the race', () => {
+    useGradientDescentStore.getState().step();
+    useGradientDescentStore.getState().setScheduleType('cosine');
+    expect(selected().schedule.type).toBe('cosine');
+    expect(selected().learningRates).toEqual([]);
+    expect(useGradientDescentStore.getState().stepCount).toBe(0);
+  });
+
+  it('newton runners get the surface Hessian and solve the bowl in one step', () => {
+    useGradientDescentStore.getState().setOptimizerType('newton');
+    useGradientDescentStore.getState().step();
+    expect(selected().position[0]).toBeCloseTo(0, 10);
+    expect(selected().position[1]).toBeCloseTo(0, 10);
+    expect(selected().convergedAt).toBe(1);
+  });
+
+  it('newton steps to the stationary point of the local quadratic model on steep surfaces', () => {
+    useGradientDescentStore.getState().setSurfaceType('rosenbrock');
+    useGradientDescentStore.getState().setOptimizerType('newton');
+    const [x0, y0] = selected().position;
+    const [gx, gy] = computeGradient(x0, y0, 'rosenbrock');
+    // Steep enough that a clipped gradient would stop the step short
+    expect(Math.hypot(gx, gy)).toBeGreaterThan(MAX_GRADIENT_NORM);
+    useGradientDescentStore.getState().step();
+    const [dx, dy] = [selected().position[0] - x0, selected().position[1] - y0];
+    const { xx, xy, yy } = computeHessian(x0, y0, 'rosenbrock');
+    expect(xx * dx + xy * dy + gx).toBeCloseTo(0, 8);
+    expect(xy * dx + yy * dy + gy).toBeCloseTo(0, 8);
+  });
+
+  it('only exposes a basin map while it matches the current settings', () => {
+    const request = { ...selectBasinRequest(useGradientDescentStore.getState()), resolution: 4 };
+    useGradientDescentStore.getState().setBasinResolution(4);
+    useGradientDescentStore.getState().setBasinProgress(0.5);
+    useGradientDescentStore.getState().finishBasins(basinKey(request), computeBasins(request));
+    expect(useGradientDescentStore.getState().basinProgress).toBeNull();
+    expect(selectCurrentBasins(useGradientDescentStore.getState())?.resolution).toBe(4);
+
+    useGradientDescentStore.getState().setLearningRate(0.02);
+    expect(selectCurrentBasins(useGradientDescentStore.getState())).toBeNull();
+  });
+
+  it('records the gradient at every point of the path', () => {
+    useGradientDescentStore.getState().step();
+    const { path, gradients, losses, learningRates } = selected();
+    expect(gradients).toHaveLength(path.length);
+    expect(losses).toHaveLength(path.length);
+    expect(learningRates).toHaveLength(path.length - 1);
+    expect(gradients[0]).toEqual([3, 3]);
+    expect(gradients[1][0]).toBeCloseTo(2 * path[1][0]);
+  });
+
+  it('scrubs back through the recorded steps', () => {
+    for (let i = 0; i < 5; i++) useGradientDescentStore.getState().step();
+    useGradientDescentStore.getState().setReplayStep(2);
+    const state = useGradientDescentStore.getState();
+    expect(state.replayStep).toBe(2);
+
+    const shown = runnerAtStep(selected(), state.replayStep);
+    expect(shown.position).toEqual(selected().path[2]);
+    expect(shown.path).toHaveLength(3);
+    expect(shown.learningRates).toHaveLength(2);
+
+    useGradientDescentStore.getState().setReplayStep(99);
+    expect(useGradientDescentStore.getState().replayStep).toBe(5);
+  });
+
+  it('replays to the end and goes live when stepping again', () => {
+    for (let i = 0; i < 3; i++) useGradientDescentStore.getState().step();
+    useGradientDescentStore.getState().toggleReplay();
+    expect(useGradientDescentStore.getState().replayStep).toBe(0);
+    expect(useGradientDescentStore.getState().replayPlaying).toBe(true);
+
+    for (let i = 0; i < 3; i++) useGradientDescentStore.getState().advanceReplay();
+    expect(useGradientDescentStore.getState().replayStep).toBe(3);
+    expect(useGradientDescentStore.getState().replayPlaying).toBe(false);
+
+    useGradientDescentStore.getState().step();
+    expect(useGradientDescentStore.getState().replayStep).toBeNull();
+  });
+
+  it('imports an exported run and replays it from the start', () => {
+    useGradientDescentStore.getState().setSurfaceType('himmelblau');
+    for (let i = 0; i < 4; i++) useGradientDescentStore.getState().step();
+    const before = selected();
+    const text = useGradientDescentStore.getState().exportRuns();
+
+    useGradientDescentStore.getState().setSurfaceType('bowl');
+    useGradientDescentStore.getState().importRuns(text);
+    const state = useGradientDescentStore.getState();
+    expect(state.surfaceType).toBe('himmelblau');
+    expect(state.importError).toBeNull();
+    expect(state.stepCount).toBe(4);
+    expect(state.replayStep).toBe(0);
+    expect(selected().path).toEqual(before.path);
+    expect(selected().gradients).toEqual(before.gradients);
+    expect(selected().position).toEqual(before.position);
+  });
+
+  it('reports files that cannot be imported', () => {
+    useGradientDescentStore.getState().importRuns('{}');
+    expect(useGradientDescentStore.getState().importError).toMatch(/run file/);
+    expect(useGradientDescentStore.getState().surfaceType).toBe('bowl');
+  });
+
+  it('replays the same noisy path from the same seed', () => {
+    useGradientDescentStore.getState().setNoiseType('gaussian');
+    for (let i = 0; i < 5; i++) useGradientDescentStore.getState().step();
+    const first = selected().path;
+    expect(first[1][0]).not.toBeCloseTo(1.5 - 0.05 * 3);
+
+    useGradientDescentStore.getState().reset();
+    for (let i = 0; i < 5; i++) useGradientDescentStore.getState().step();
+    expect(selected().path).toEqual(first);
+
+    useGradientDescentStore.getState().setNoiseParam('seed', 2);
+    for (let i = 0; i < 5; i++) useGradientDescentStore.getState().step();
+    expect(selected().path).not.toEqual(first);
+  });
+
+  it('compareBatchSizes races minibatch copies of the selected runner', () => {
+    useGradientDescentStore.getState().setOptimizerType('momentum');
+    useGradientDescentStore.getState().compareBatchSizes();
+    const { runners } = useGradientDescentStore.getState();
+    expect(runners.map((r) => r.name)).toEqual(['Batch 1', 'Batch 8', 'Batch 32', 'Full batch']);
+    expect(runners.every((r) => r.optimizer.type === 'momentum')).toBe(true);
+    expect(runners.every((r) => r.noise.type === 'minibatch')).toBe(true);
+    expect(runners[3].noise.batchSize).toBe(runners[3].noise.datasetSize);
+  });
 });
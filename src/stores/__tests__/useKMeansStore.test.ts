@@ -3,6 +3,9 @@ import { useKMeansStore } from '../useKMeansStore';
 
 describe('useKMeansStore', () => {
   beforeEach(() => {
+    useKMeansStore.getState().setAlgorithm('kmeans');
+    useKMeansStore.getState().setInitMethod('forgy');
+    useKMeansStore.getState().setSeed(1);
     useKMeansStore.getState().setK(3);
     useKMeansStore.getState().reset();
   });
@@ -110,4 +113,148 @@ describe('useKMeansStore', () => {
     useKMeansStore.getState().togglePlaying();
     expect(useKMeansStore.getState().isPlaying).toBe(false);
   });
+
+  it('setInitMethod clears the current run', () => {
+    const s = useKMeansStore.getState();
+    s.addPoint({ x: 0, y: 0 });
+    s.addPoint({ x: 5, y: 5 });
+    s.addPoint({ x: 10, y: 10 });
+    useKMeansStore.getState().initialize();
+
+    useKMeansStore.getState().setInitMethod('random-partition');
+    const state = useKMeansStore.getState();
+    expect(state.initMethod).toBe('random-partition');
+    expect(state.centroids).toEqual([]);
+  });
+
+  it('k-means++ seeds one centroid per step and exposes sampling probabilities', () => {
+    useKMeansStore.getState().setInitMethod('kmeans++');
+    const s = useKMeansStore.getState();
+    s.addPoint({ x: 0, y: 0 });
+    s.addPoint({ x: 5, y: 5 });
+    s.addPoint({ x: 10, y: 10 });
+    s.addPoint({ x: 10, y: 0 });
+
+    useKMeansStore.getState().initialize();
+    let state = useKMeansStore.getState();
+    expect(state.centroids).toHaveLength(1);
+    expect(state.seedProbabilities).toHaveLength(4);
+    expect(state.seedProbabilities.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+
+    useKMeansStore.getState().step();
+    useKMeansStore.getState().step();
+    state = useKMeansStore.getState();
+    expect(state.centroids).toHaveLength(3);
+    expect(state.seedProbabilities).toEqual([]);
+    expect(state.stepCount).toBe(0);
+
+    useKMeansStore.getState().step();
+    expect(useKMeansStore.getState().stepCount).toBe(1);
+  });
+
+  it('the same seed reproduces the same initialization', () => {
+    const s = useKMeansStore.getState();
+    for (let i = 0; i < 10; i++) s.addPoint({ x: i, y: (i * 7) % 5 });
+    useKMeansStore.getState().initialize();
+    const first = useKMeansStore.getState().centroids;
+
+    useKMeansStore.getState().initialize();
+    expect(useKMeansStore.getState().centroids).toEqual(first);
+  });
+
+  it('runAnalysis scores k = 1..8 and adding a point clears it', () => {
+    const s = useKMeansStore.getState();
+    for (let i = 0; i < 10; i++) s.addPoint({ x: i % 3, y: Math.floor(i / 3) });
+    useKMeansStore.getState().runAnalysis();
+    const { analysis } = useKMeansStore.getState();
+    expect(analysis.map((a) => a.k)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+
+    useKMeansStore.getState().addPoint({ x: 0, y: 0 });
+    expect(useKMeansStore.getState().analysis).toEqual([]);
+  });
+
+  it('setK keeps the analysis so a picked k can be compared', () => {
+    const s = useKMeansStore.getState();
+    for (let i = 0; i < 6; i++) s.addPoint({ x: i, y: 0 });
+    useKMeansStore.getState().runAnalysis();
+    useKMeansStore.getState().setK(4);
+    expect(useKMeansStore.getState().k).toBe(4);
+    expect(useKMeansStore.getState().analysis.length).toBeGreaterThan(0);
+  });
+
+  it('gmm steps EM and tracks log-likelihood per step', () => {
+    useKMeansStore.getState().setAlgorithm('gmm');
+    const s = useKMeansStore.getState();
+    for (let i = 0; i < 6; i++) s.addPoint({ x: i < 3 ? i * 0.1 : 5 + i * 0.1, y: i * 0.05 });
+    useKMeansStore.getState().setK(2);
+
+    useKMeansStore.getState().initialize();
+    let state = useKMeansStore.getState();
+    expect(state.components).toHaveLength(2);
+    expect(state.responsibilities).toHaveLength(6);
+    expect(state.logLikelihoods).toHaveLength(1);
+
+    useKMeansStore.getState().step();
+    useKMeansStore.getState().step();
+    state = useKMeansStore.getState();
+    expect(state.stepCount).toBe(2);
+    expect(state.logLikelihoods).toHaveLength(3);
+    expect(state.logLikelihoods[2]).toBeGreaterThanOrEqual(state.logLikelihoods[0]);
+    expect(state.assignments).toHaveLength(6);
+  });
+
+  it('setAlgorithm clears the current run', () => {
+    useKMeansStore.getState().setAlgorithm('gmm');
+    const s = useKMeansStore.getState();
+    s.addPoint({ x: 0, y: 0 });
+    s.addPoint({ x: 5, y: 5 });
+    s.addPoint({ x: 10, y: 10 });
+    useKMeansStore.getState().initialize();
+
+    useKMeansStore.getState().setAlgorithm('kmeans');
+    const state = useKMeansStore.getState();
+    expect(state.algorithm).toBe('kmeans');
+    expect(state.components).toEqual([]);
+    expect(state.logLikelihoods).toEqual([]);
+  });
+
+  it('loadDataset replaces the points with an unlabelled dataset', () => {
+    useKMeansStore.getState().loadDataset('moons');
+    const { points } = useKMeansStore.getState();
+    expect(points).toHaveLength(150);
+    expect(points.every((p) => p.label === undefined)).toBe(true);
+  });
+
+  it('dbscan runs in one go and reruns when eps changes', () => {
+    useKMeansStore.getState().setAlgorithm('dbscan');
+    const s = useKMeansStore.getState();
+    for (let i = 0; i < 5; i++) s.addPoint({ x: i * 0.05, y: 0 });
+    s.addPoint({ x: 1, y: 1 });
+
+    useKMeansStore.getState().initialize();
+    let state = useKMeansStore.getState();
+    expect(state.converged).toBe(true);
+    expect(state.pointKinds[5]).toBe('noise');
+    expect(state.assignments[5]).toBe(-1);
+
+    useKMeansStore.getState().setEps(2);
+    state = useKMeansStore.getState();
+    expect(state.pointKinds.every((kind) => kind === 'core')).toBe(true);
+  });
+
+  it('agglomerative cut height controls the number of clusters', () => {
+    useKMeansStore.getState().setAlgorithm('agglomerative');
+    const s = useKMeansStore.getState();
+    s.addPoint({ x: 0, y: 0 });
+    s.addPoint({ x: 0.1, y: 0 });
+    s.addPoint({ x: 1, y: 1 });
+    s.addPoint({ x: 1.1, y: 1 });
+    useKMeansStore.getState().setCutHeight(0.5);
+    useKMeansStore.getState().initialize();
+    expect(useKMeansStore.getState().merges).toHaveLength(3);
+    expect(new Set(useKMeansStore.getState().assignments).size).toBe(2);
+
+    useKMeansStore.getState().setCutHeight(0.05);
+    expect(new Set(useKMeansStore.getState().assignments).size).toBe(4);
+  });
 });
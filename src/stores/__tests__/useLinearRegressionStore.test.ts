@@ -3,6 +3,11 @@ import { useLinearRegressionStore } from '../useLinearRegressionStore';
 
 describe('useLinearRegressionStore', () => {
   beforeEach(() => {
+    useLinearRegressionStore.getState().setBasisType('polynomial');
+    useLinearRegressionStore.getState().setBasisSize(1);
+    useLinearRegressionStore.getState().setPenaltyType('none');
+    useLinearRegressionStore.getState().setLossType('mse');
+    useLinearRegressionStore.getState().setBatchSize(null);
     useLinearRegressionStore.getState().reset();
   });
 
@@ -55,6 +60,51 @@ describe('useLinearRegressionStore', () => {
     expect(useLinearRegressionStore.getState().learningRate).toBe(0.01);
   });
 
+  it('setBasisSize resizes the weights and restarts training', () => {
+    const s = useLinearRegressionStore.getState();
+    s.addPoint({ x: 1, y: 2 });
+    s.trainStep();
+    useLinearRegressionStore.getState().setBasisSize(4);
+    const state = useLinearRegressionStore.getState();
+    expect(state.basis.size).toBe(4);
+    expect(state.weights).toEqual([0, 0, 0, 0]);
+    expect(state.epoch).toBe(0);
+    expect(state.points).toHaveLength(1);
+  });
+
+  it('setBasisType keeps the basis size', () => {
+    useLinearRegressionStore.getState().setBasisSize(3);
+    useLinearRegressionStore.getState().setBasisType('rbf');
+    const state = useLinearRegressionStore.getState();
+    expect(state.basis.type).toBe('rbf');
+    expect(state.weights).toHaveLength(3);
+  });
+
+  it('setLambda and setPenaltyType update the regularization', () => {
+    useLinearRegressionStore.getState().setPenaltyType('elasticnet');
+    useLinearRegressionStore.getState().setLambda(0.2);
+    useLinearRegressionStore.getState().setL1Ratio(0.3);
+    expect(useLinearRegressionStore.getState().regularization).toEqual({
+      type: 'elasticnet',
+      lambda: 0.2,
+      l1Ratio: 0.3,
+    });
+  });
+
+  it('computeCoefficientPath needs a penalty', () => {
+    const s = useLinearRegressionStore.getState();
+    s.addPoint({ x: 1, y: 2 });
+    s.addPoint({ x: -1, y: -2 });
+    s.computeCoefficientPath();
+    expect(useLinearRegressionStore.getState().coefficientPath).toEqual([]);
+
+    s.setPenaltyType('l2');
+    useLinearRegressionStore.getState().computeCoefficientPath();
+    const path = useLinearRegressionStore.getState().coefficientPath;
+    expect(path.length).toBeGreaterThan(1);
+    expect(path[0].weights).toHaveLength(1);
+  });
+
   it('trainStep with empty points does nothing', () => {
     useLinearRegressionStore.getState().trainStep();
     const state = useLinearRegressionStore.getState();
@@ -78,6 +128,48 @@ describe('useLinearRegressionStore', () => {
     expect(state.weight !== 0 || state.bias !== 0).toBe(true);
   });
 
+  it('trainStep records the gap to the closed-form optimum', () => {
+    const s = useLinearRegressionStore.getState();
+    s.addPoint({ x: -1, y: -1 });
+    s.addPoint({ x: 0, y: 0.2 });
+    s.addPoint({ x: 1, y: 1 });
+    for (let i = 0; i < 5; i++) useLinearRegressionStore.getState().trainStep();
+    const { convergence } = useLinearRegressionStore.getState();
+    expect(convergence).toHaveLength(5);
+    expect(convergence[4].epoch).toBe(5);
+    expect(convergence[4].parameterGap).toBeLessThan(convergence[0].parameterGap);
+    expect(convergence[4].lossGap).toBeGreaterThanOrEqual(0);
+  });
+
+  it('trains a companion MSE fit when a robust loss is selected', () => {
+    const s = useLinearRegressionStore.getState();
+    s.setLossType('huber');
+    s.addPoint({ x: -1, y: -1 });
+    s.addPoint({ x: 1, y: 1 });
+    s.addPoint({ x: 0.5, y: -1.4, label: 1 });
+    for (let i = 0; i < 3; i++) useLinearRegressionStore.getState().trainStep();
+    const state = useLinearRegressionStore.getState();
+    expect(state.lossConfig.type).toBe('huber');
+    expect(state.mseWeights[0]).not.toBe(0);
+    expect(state.mseWeights[0]).not.toBe(state.weights[0]);
+    // No closed-form optimum for a robust loss
+    expect(state.convergence).toEqual([]);
+  });
+
+  it('records the sampled points and parameter trail with mini-batches', () => {
+    const s = useLinearRegressionStore.getState();
+    s.setBatchSize(2);
+    for (let i = 0; i < 5; i++) s.addPoint({ x: i / 5, y: i / 5 });
+    useLinearRegressionStore.getState().trainStep();
+    useLinearRegressionStore.getState().trainStep();
+    const state = useLinearRegressionStore.getState();
+    expect(state.batchSize).toBe(2);
+    expect(state.sampledIndices).toHaveLength(2);
+    expect(state.sampleGradients).toHaveLength(2);
+    expect(state.paramPath).toHaveLength(3);
+    expect(state.paramPath[2]).toEqual([state.weight, state.bias]);
+  });
+
   it('reset clears everything', () => {
     const s = useLinearRegressionStore.getState();
     s.addPoint({ x: 1, y: 2 });
@@ -92,6 +184,7 @@ describe('useLinearRegressionStore', () => {
     expect(state.loss).toBe(0);
     expect(state.epoch).toBe(0);
     expect(state.isTraining).toBe(false);
+    expect(state.convergence).toEqual([]);
   });
 
   it('toggleTraining flips isTraining', () => {
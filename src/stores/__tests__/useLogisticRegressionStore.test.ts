@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useLogisticRegressionStore } from '../useLogisticRegressionStore';
+
+describe('useLogisticRegressionStore', () => {
+  beforeEach(() => {
+    useLogisticRegressionStore.getState().reset();
+    useLogisticRegressionStore.getState().setCurrentLabel(0);
+  });
+
+  it('has correct initial state', () => {
+    const state = useLogisticRegressionStore.getState();
+    expect(state.points).toEqual([]);
+    expect(state.weights).toEqual([0, 0]);
+    expect(state.bias).toBe(0);
+    expect(state.learningRate).toBe(0.5);
+    expect(state.epoch).toBe(0);
+    expect(state.isTraining).toBe(false);
+  });
+
+  it('addPoint and removePoint update the points', () => {
+    const { addPoint, removePoint } = useLogisticRegressionStore.getState();
+    addPoint({ x: 0, y: 0, label: 0 });
+    addPoint({ x: 1, y: 1, label: 1 });
+    removePoint(0);
+    expect(useLogisticRegressionStore.getState().points).toEqual([{ x: 1, y: 1, label: 1 }]);
+  });
+
+  it('setCurrentLabel updates the label used for new points', () => {
+    useLogisticRegressionStore.getState().setCurrentLabel(1);
+    expect(useLogisticRegressionStore.getState().currentLabel).toBe(1);
+  });
+
+  it('trainStep with no points is a no-op', () => {
+    useLogisticRegressionStore.getState().trainStep();
+    expect(useLogisticRegressionStore.getState().epoch).toBe(0);
+  });
+
+  it('trainStep updates weights, accuracy and loss history', () => {
+    const { addPoint } = useLogisticRegressionStore.getState();
+    addPoint({ x: -1, y: -1, label: 0 });
+    addPoint({ x: 1, y: 1, label: 1 });
+    for (let i = 0; i < 20; i++) useLogisticRegressionStore.getState().trainStep();
+    const state = useLogisticRegressionStore.getState();
+    expect(state.epoch).toBe(20);
+    expect(state.lossHistory).toHaveLength(20);
+    expect(state.lossHistory[19]).toBeLessThan(state.lossHistory[0]);
+    expect(state.accuracy).toBe(1);
+    expect(state.weights[0]).toBeGreaterThan(0);
+  });
+
+  it('reset clears the fit and points', () => {
+    useLogisticRegressionStore.getState().addPoint({ x: 1, y: 1, label: 1 });
+    useLogisticRegressionStore.getState().trainStep();
+    useLogisticRegressionStore.getState().reset();
+    const state = useLogisticRegressionStore.getState();
+    expect(state.points).toEqual([]);
+    expect(state.weights).toEqual([0, 0]);
+    expect(state.lossHistory).toEqual([]);
+    expect(state.epoch).toBe(0);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  bestValidationEpoch,
+  regularizationTags,
+  splitData,
+  useNeuralNetworkStore,
+} from '../useNeuralNetworkStore';
+import type { EpochMetrics } from '../../ml/types';
+
+const labels = () => new Set(useNeuralNetworkStore.getState().points.map((p) => p.label));
+
+describe('useNeuralNetworkStore', () => {
+  beforeEach(() => {
+    useNeuralNetworkStore.getState().reset();
+  });
+
+  it('starts as a two-class problem with a sigmoid output', () => {
+    const { numClasses, architecture } = useNeuralNetworkStore.getState();
+    expect(numClasses).toBe(2);
+    expect(architecture.outputSize).toBe(1);
+    expect(architecture.outputActivation).toBe('sigmoid');
+  });
+
+  it('switches to a softmax output with one unit per class', () => {
+    useNeuralNetworkStore.getState().setDataset('gaussian');
+    useNeuralNetworkStore.getState().setNumClasses(5);
+    const { numClasses, architecture } = useNeuralNetworkStore.getState();
+    expect(numClasses).toBe(5);
+    expect(architecture.outputSize).toBe(5);
+    expect(architecture.outputActivation).toBe('softmax');
+    expect(labels()).toEqual(new Set([0, 1, 2, 3, 4]));
+  });
+
+  it('generates one spiral arm per class', () => {
+    useNeuralNetworkStore.getState().setDataset('spiral');
+    useNeuralNetworkStore.getState().setNumClasses(3);
+    expect(labels()).toEqual(new Set([0, 1, 2]));
+  });
+
+  it('keeps the two-class datasets binary', () => {
+    useNeuralNetworkStore.getState().setNumClasses(4);
+    expect(useNeuralNetworkStore.getState().numClasses).toBe(2);
+
+    useNeuralNetworkStore.getState().setDataset('gaussian');
+    useNeuralNetworkStore.getState().setNumClasses(4);
+    useNeuralNetworkStore.getState().setDataset('moons');
+    const { numClasses, architecture } = useNeuralNetworkStore.getState();
+    expect(numClasses).toBe(2);
+    expect(architecture.outputSize).toBe(1);
+    expect(labels()).toEqual(new Set([0, 1]));
+  });
+
+  it('clamps the class count to what can be coloured', () => {
+    useNeuralNetworkStore.getState().setDataset('gaussian');
+    useNeuralNetworkStore.getState().setNumClasses(12);
+    expect(useNeuralNetworkStore.getState().numClasses).toBe(8);
+  });
+
+  it('resets the class count and output layer', () => {
+    useNeuralNetworkStore.getState().setDataset('gaussian');
+    useNeuralNetworkStore.getState().setNumClasses(6);
+    useNeuralNetworkStore.getState().reset();
+    expect(useNeuralNetworkStore.getState().numClasses).toBe(2);
+    expect(useNeuralNetworkStore.getState().architecture.outputSize).toBe(1);
+  });
+
+  it('assigns every point to a split', () => {
+    const { points, splits } = useNeuralNetworkStore.getState();
+    expect(splits).toHaveLength(points.length);
+    expect(splits.filter((s) => s === 'validation')).toHaveLength(40);
+    expect(splits.filter((s) => s === 'test')).toHaveLength(20);
+  });
+
+  it('reshuffles the split when its seed changes, keeping the points', () => {
+    const before = useNeuralNetworkStore.getState();
+    useNeuralNetworkStore.getState().setSplit('splitSeed', 2);
+    const after = useNeuralNetworkStore.getState();
+    expect(after.points).toBe(before.points);
+    expect(after.splits).not.toEqual(before.splits);
+  });
+
+  it('keeps at least a fifth of the points for training', () => {
+    useNeuralNetworkStore.getState().setSplit('validationFraction', 0.5);
+    useNeuralNetworkStore.getState().setSplit('testFraction', 0.4);
+    expect(useNeuralNetworkStore.getState().testFraction).toBe(0.1);
+  });
+
+  it('trains on points added by hand', () => {
+    useNeuralNetworkStore.getState().addPoint({ x: 0, y: 0, label: 1 });
+    const { points, splits } = useNeuralNetworkStore.getState();
+    expect(splits[splits.length - 1]).toBe('train');
+    expect(splitData(points, splits, 'train').xs).toContainEqual([0, 0]);
+  });
+
+  it('numbers epochs across training calls', () => {
+    const metrics = { epoch: 1, loss: 0.5, accuracy: 0.8, valLoss: 0.6, valAccuracy: 0.7 };
+    useNeuralNetworkStore.getState().recordEpoch(metrics);
+    useNeuralNetworkStore.getState().recordEpoch(metrics);
+    const { history, trainingState } = useNeuralNetworkStore.getState();
+    expect(history.map((m) => m.epoch)).toEqual([1, 2]);
+    expect(trainingState.epoch).toBe(2);
+  });
+
+  it('defaults to full-batch SGD and rounds mini-batch sizes', () => {
+    expect(useNeuralNetworkStore.getState().optimizer).toBe('sgd');
+    expect(useNeuralNetworkStore.getState().batchSize).toBeNull();
+    useNeuralNetworkStore.getState().setOptimizer('adam');
+    useNeuralNetworkStore.getState().setBatchSize(7.6);
+    expect(useNeuralNetworkStore.getState().batchSize).toBe(8);
+    useNeuralNetworkStore.getState().setBatchSize(0);
+    expect(useNeuralNetworkStore.getState().batchSize).toBe(1);
+  });
+
+  it('resets the optimizer, batch size and training seed', () => {
+    useNeuralNetworkStore.getState().setOptimizer('rmsprop');
+    useNeuralNetworkStore.getState().setBatchSize(32);
+    useNeuralNetworkStore.getState().setTrainingSeed(7);
+    expect(useNeuralNetworkStore.getState().trainingSeed).toBe(7);
+    useNeuralNetworkStore.getState().reset();
+    expect(useNeuralNetworkStore.getState().optimizer).toBe('sgd');
+    expect(useNeuralNetworkStore.getState().batchSize).toBeNull();
+    expect(useNeuralNetworkStore.getState().trainingSeed).toBe(1);
+  });
+
+  it('sizes the input layer to the enabled features', () => {
+    useNeuralNetworkStore.getState().toggleFeature('x2');
+    useNeuralNetworkStore.getState().toggleFeature('y2');
+    useNeuralNetworkStore.getState().toggleFeature('x');
+    const { architecture } = useNeuralNetworkStore.getState();
+    expect(architecture.features).toEqual(['y', 'x2', 'y2']);
+    expect(architecture.inputSize).toBe(3);
+  });
+
+  it('keeps at least one input feature', () => {
+    useNeuralNetworkStore.getState().toggleFeature('x');
+    useNeuralNetworkStore.getState().toggleFeature('y');
+    expect(useNeuralNetworkStore.getState().architecture.features).toEqual(['y']);
+  });
+
+  it('resets to the raw coordinates', () => {
+    useNeuralNetworkStore.getState().toggleFeature('xy');
+    useNeuralNetworkStore.getState().reset();
+    expect(useNeuralNetworkStore.getState().architecture.features).toEqual(['x', 'y']);
+    expect(useNeuralNetworkStore.getState().architecture.inputSize).toBe(2);
+  });
+});
+
+describe('bestValidationEpoch', () => {
+  const epoch = (n: number, valLoss: number | null): EpochMetrics => ({
+    epoch: n,
+    loss: 1 / n,
+    accuracy: 0.5,
+    valLoss,
+    valAccuracy: null,
+  });
+
+  it('finds the epoch with the lowest validation loss', () => {
+    expect(bestValidationEpoch([epoch(1, 0.9), epoch(2, 0.4), epoch(3, 0.6)])?.epoch).toBe(2);
+  });
+
+  it('is null without a validation set', () => {
+    expect(bestValidationEpoch([epoch(1, null), epoch(2, null)])).toBeNull();
+  });
+});
+
+describe('regularizationTags', () => {
+  it('is empty for a plain dense layer', () => {
+    expect(regularizationTags({ units: 4, activation: 'relu' })).toEqual([]);
+    expect(regularizationTags({ units: 4, activation: 'relu', l2: 0, dropout: 0 })).toEqual([]);
+  });
+
+  it('lists each regularizer a layer uses', () => {
+    expect(
+      regularizationTags({
+        units: 8,
+        activation: 'tanh',
+        l1: 0.001,
+        l2: 0.01,
+        dropout: 0.2,
+        batchNorm: true,
+      }),
+    ).toEqual(['L1 0.001', 'L2 0.01', 'drop 0.2', 'BN']);
+  });
+});
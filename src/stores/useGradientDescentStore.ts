@@ -1,55 +1,636 @@
 import { create } from 'zustand';
-import { gradientStep, type SurfaceType } from '../ml/gradient-descent';
+import {
+  clipGradient,
+  computeGradient,
+  computeHessian,
+  CONVERGENCE_TOLERANCE,
+  createGradientSampler,
+  DEFAULT_NOISE,
+  evaluateSurface,
+  getSurfaceInfo,
+  MINIMUM_TOLERANCE,
+  nearestMinimum,
+  type GradientNoise,
+  type GradientSampler,
+  type NoiseType,
+  type Surface,
+} from '../ml/gradient-descent';
+import { compileExpression, type ExpressionError } from '../ml/expression';
+import {
+  DEFAULT_OPTIMIZER,
+  clipsGradient,
+  Optimizer,
+  type HessianFn,
+  type OptimizerConfig,
+  type OptimizerType,
+} from '../ml/optimizers';
+import {
+  DEFAULT_SCHEDULE,
+  scheduledLearningRate,
+  type LRSchedule,
+  type ScheduleType,
+} from '../ml/lr-schedules';
+import { resolveSurfaceSpec, toSurfaceSpec, type BasinMap, type BasinRequest } from '../ml/basins';
+import { parseRunFile, serializeRunFile, type RunFile } from '../ml/run-history';
+import { COLORS } from '../config/constants';
 
-interface GradientDescentState {
+export type OptimizerParam = Exclude<keyof OptimizerConfig, 'type'>;
+export type ScheduleParam = Exclude<keyof LRSchedule, 'type'>;
+export type NoiseParam = Exclude<keyof GradientNoise, 'type'>;
+
+/** One optimizer descending the shared surface from the shared start point. */
+export interface Runner {
+  id: number;
+  name: string;
+  color: string;
+  optimizer: OptimizerConfig;
+  /** Base rate that the schedule scales. */
+  learningRate: number;
+  schedule: LRSchedule;
+  noise: GradientNoise;
+  /** Effective learning rate used for each step taken so far. */
+  learningRates: number[];
   position: [number, number];
   path: [number, number][];
-  learningRate: number;
-  surfaceType: SurfaceType;
+  /** Unclipped gradient at every point of `path`. */
+  gradients: [number, number][];
+  /** Surface value at every point of `path`. */
+  losses: number[];
+  /** Step at which the gradient norm first fell below the tolerance, if it has. */
+  convergedAt: number | null;
+  /** Where a converged run ended up relative to the surface's known minima. */
+  outcome: RunOutcome | null;
+}
+
+export interface RunOutcome {
+  /** Distance to the closest known global minimum, or null if the surface lists none. */
+  distance: number | null;
+  /** Index into the surface's minima when the run stopped within tolerance of one. */
+  minimumIndex: number | null;
+}
+
+const START: [number, number] = [1.5, 1.5];
+
+const RUNNER_COLORS = [
+  COLORS.red,
+  COLORS.primaryLight,
+  COLORS.green,
+  COLORS.amber,
+  COLORS.purple,
+  '#06b6d4',
+  '#ec4899',
+  '#84cc16',
+  '#f97316',
+];
+
+// One colour per runner, enough for every optimizer to race at once
+export const MAX_RUNNERS = RUNNER_COLORS.length;
+
+export const OPTIMIZER_NAMES: Record<OptimizerType, string> = {
+  sgd: 'SGD',
+  momentum: 'Momentum',
+  nesterov: 'Nesterov',
+  rmsprop: 'RMSProp',
+  adam: 'Adam',
+  adagrad: 'AdaGrad',
+  newton: 'Newton',
+  'damped-newton': 'Damped Newton',
+  lbfgs: 'L-BFGS',
+};
+
+/** Top of the learning-rate slider; every starting rate stays within it. */
+export const MAX_LEARNING_RATE = 0.5;
+
+// Starting learning rates that keep each optimizer stable on the built-in surfaces. Newton takes
+// full steps whatever its rate, which only scales its fallback on a singular Hessian.
+const RACE_LEARNING_RATES: Record<OptimizerType, number> = {
+  sgd: 0.05,
+  momentum: 0.02,
+  nesterov: 0.02,
+  rmsprop: 0.05,
+  adam: 0.1,
+  adagrad: 0.5,
+  newton: 0.5,
+  'damped-newton': 0.5,
+  lbfgs: 0.5,
+};
+
+interface GradientDescentState {
+  start: [number, number];
+  runners: Runner[];
+  /** Runner whose optimizer settings the controls edit. */
+  selectedRunnerId: number;
+  surfaceType: Surface;
+  /** Source of the custom surface, kept while a built-in surface is shown. */
+  expression: string;
+  expressionError: ExpressionError | null;
   isPlaying: boolean;
   stepCount: number;
   viewMode: '3d' | 'contour';
+  surfaceShading: 'wireframe' | 'viridis' | 'plasma';
+  /** Draw negative-gradient arrows over the 3D surface. */
+  showGradientField: boolean;
+  /** Show the 3D view from directly above with an orthographic camera. */
+  topDown: boolean;
+  /** Draw the selected runner's local second-order model on the contour view. */
+  showQuadraticModel: boolean;
+  basinResolution: number;
+  /** Latest basin map and the settings it was computed for. */
+  basins: { key: string; map: BasinMap } | null;
+  /** Fraction of the basin map computed so far, or null when nothing is running. */
+  basinProgress: number | null;
+  showBasins: boolean;
+  /** Step shown while scrubbing through the recorded runs, or null to follow the live run. */
+  replayStep: number | null;
+  replayPlaying: boolean;
+  /** Replay rate in steps per second. */
+  replaySpeed: number;
+  importError: string | null;
   setPosition: (pos: [number, number]) => void;
   step: () => void;
   reset: () => void;
   setLearningRate: (lr: number) => void;
-  setSurfaceType: (t: SurfaceType) => void;
+  setSurfaceType: (t: Surface) => void;
+  setExpression: (source: string) => void;
+  setOptimizerType: (type: OptimizerType) => void;
+  setOptimizerParam: (param: OptimizerParam, value: number) => void;
+  setScheduleType: (type: ScheduleType) => void;
+  setScheduleParam: (param: ScheduleParam, value: number) => void;
+  setNoiseType: (type: NoiseType) => void;
+  setNoiseParam: (param: NoiseParam, value: number) => void;
+  addRunner: (type: OptimizerType) => void;
+  removeRunner: (id: number) => void;
+  selectRunner: (id: number) => void;
+  raceAllOptimizers: () => void;
+  /** Race copies of the selected runner that differ only in minibatch size. */
+  compareBatchSizes: () => void;
   togglePlaying: () => void;
   setViewMode: (mode: '3d' | 'contour') => void;
+  setSurfaceShading: (shading: 'wireframe' | 'viridis' | 'plasma') => void;
+  setShowGradientField: (show: boolean) => void;
+  setTopDown: (topDown: boolean) => void;
+  setShowQuadraticModel: (show: boolean) => void;
+  setBasinResolution: (resolution: number) => void;
+  setBasinProgress: (fraction: number | null) => void;
+  finishBasins: (key: string, map: BasinMap) => void;
+  setShowBasins: (show: boolean) => void;
+  setReplayStep: (step: number | null) => void;
+  toggleReplay: () => void;
+  advanceReplay: () => void;
+  setReplaySpeed: (speed: number) => void;
+  exportRuns: () => string;
+  importRuns: (text: string) => void;
 }
 
+const BASIN_MAX_STEPS = 500;
+
+// Each runner's optimizer keeps its velocity and moment estimates between steps
+const optimizers = new Map<number, Optimizer>();
+// Each runner's noise sampler, rebuilt from its seed whenever the run restarts
+const samplers = new Map<number, GradientSampler>();
+let nextRunnerId = 0;
+
+// Minibatch sizes raced by compareBatchSizes, with the full dataset added last
+const COMPARED_BATCH_SIZES = [1, 8, 32];
+
+function createRunner(
+  type: OptimizerType,
+  learningRate: number,
+  color: string,
+  start: [number, number],
+  surfaceType: Surface,
+): Runner {
+  const id = nextRunnerId++;
+  const optimizer = { ...DEFAULT_OPTIMIZER, type };
+  optimizers.set(id, new Optimizer(optimizer));
+  samplers.set(id, createGradientSampler(DEFAULT_NOISE));
+  return {
+    id,
+    name: OPTIMIZER_NAMES[type],
+    color,
+    optimizer,
+    learningRate,
+    schedule: DEFAULT_SCHEDULE,
+    noise: DEFAULT_NOISE,
+    learningRates: [],
+    position: start,
+    path: [start],
+    gradients: [computeGradient(start[0], start[1], surfaceType)],
+    losses: [evaluateSurface(start[0], start[1], surfaceType)],
+    convergedAt: null,
+    outcome: null,
+  };
+}
+
+/** Send every runner back to `start` with fresh optimizer state. */
+function restartRunners(
+  runners: Runner[],
+  start: [number, number],
+  surfaceType: Surface,
+): Runner[] {
+  return runners.map((r) => {
+    optimizers.get(r.id)?.reset();
+    samplers.set(r.id, createGradientSampler(r.noise));
+    return {
+      ...r,
+      position: start,
+      path: [start],
+      learningRates: [],
+      gradients: [computeGradient(start[0], start[1], surfaceType)],
+      losses: [evaluateSurface(start[0], start[1], surfaceType)],
+      convergedAt: null,
+      outcome: null,
+    };
+  });
+}
+
+function runOutcome(position: [number, number], surface: Surface): RunOutcome {
+  const nearest = nearestMinimum(position, getSurfaceInfo(surface).minima);
+  if (!nearest) return { distance: null, minimumIndex: null };
+  return {
+    distance: nearest.distance,
+    minimumIndex: nearest.distance <= MINIMUM_TOLERANCE ? nearest.index : null,
+  };
+}
+
+function updateSelected(state: GradientDescentState, update: (r: Runner) => Runner): Runner[] {
+  return state.runners.map((r) => (r.id === state.selectedRunnerId ? update(r) : r));
+}
+
+// Leaves replay mode; spread into any update that changes or restarts the runs
+const LIVE = { replayStep: null, replayPlaying: false };
+
+/** A runner's state as it was after `step` steps, or as it is now when `step` is null. */
+export function runnerAtStep(runner: Runner, step: number | null): Runner {
+  if (step === null || step >= runner.path.length - 1) return runner;
+  const converged = runner.convergedAt !== null && runner.convergedAt <= step;
+  return {
+    ...runner,
+    position: runner.path[step],
+    path: runner.path.slice(0, step + 1),
+    gradients: runner.gradients.slice(0, step + 1),
+    losses: runner.losses.slice(0, step + 1),
+    learningRates: runner.learningRates.slice(0, step),
+    convergedAt: converged ? runner.convergedAt : null,
+    outcome: converged ? runner.outcome : null,
+  };
+}
+
+const initialRunner = createRunner('sgd', 0.05, RUNNER_COLORS[0], START, 'bowl');
+
 export const useGradientDescentStore = create<GradientDescentState>((set, get) => ({
-  position: [1.5, 1.5],
-  path: [[1.5, 1.5]],
-  learningRate: 0.05,
+  start: START,
+  runners: [initialRunner],
+  selectedRunnerId: initialRunner.id,
   surfaceType: 'bowl',
+  expression: 'sin(x)*cos(y) + 0.1*(x^2+y^2)',
+  expressionError: null,
   isPlaying: false,
   stepCount: 0,
   viewMode: '3d',
+  surfaceShading: 'wireframe',
+  showGradientField: false,
+  topDown: false,
+  showQuadraticModel: false,
+  basinResolution: 40,
+  basins: null,
+  basinProgress: null,
+  showBasins: true,
+  replayStep: null,
+  replayPlaying: false,
+  replaySpeed: 10,
+  importError: null,
 
-  setPosition: (pos) => set({ position: pos, path: [pos], stepCount: 0 }),
+  setPosition: (pos) =>
+    set((s) => ({
+      start: pos,
+      runners: restartRunners(s.runners, pos, s.surfaceType),
+      stepCount: 0,
+      ...LIVE,
+    })),
 
   step: () => {
-    const { position, learningRate, surfaceType } = get();
-    const [nx, ny] = gradientStep(position[0], position[1], learningRate, surfaceType);
-    const clampedX = Math.max(-3, Math.min(3, nx));
-    const clampedY = Math.max(-3, Math.min(3, ny));
-    const newPos: [number, number] = [clampedX, clampedY];
+    const { runners, surfaceType, stepCount } = get();
+    const { range } = getSurfaceInfo(surfaceType);
+    const hessianFn: HessianFn = ([x, y]) => {
+      const { xx, xy, yy } = computeHessian(x, y, surfaceType);
+      return [
+        [xx, xy],
+        [xy, yy],
+      ];
+    };
+    const next = runners.map((r) => {
+      const optimizer = optimizers.get(r.id);
+      const sampler = samplers.get(r.id);
+      if (r.convergedAt !== null || !optimizer || !sampler) return r;
+      const gradFn = clipsGradient(optimizer.config.type)
+        ? ([x, y]: number[]) => clipGradient(sampler(x, y, surfaceType))
+        : ([x, y]: number[]) => sampler(x, y, surfaceType);
+      const lr = scheduledLearningRate(r.learningRate, r.learningRates.length, r.schedule);
+      const [nx, ny] = optimizer.step(r.position, gradFn, lr, hessianFn);
+      const position: [number, number] = [
+        Math.max(-range, Math.min(range, nx)),
+        Math.max(-range, Math.min(range, ny)),
+      ];
+      const [gx, gy] = computeGradient(position[0], position[1], surfaceType);
+      const converged = Math.hypot(gx, gy) < CONVERGENCE_TOLERANCE;
+      return {
+        ...r,
+        position,
+        path: [...r.path, position],
+        gradients: [...r.gradients, [gx, gy] as [number, number]],
+        learningRates: [...r.learningRates, lr],
+        losses: [...r.losses, evaluateSurface(position[0], position[1], surfaceType)],
+        convergedAt: converged ? stepCount + 1 : null,
+        outcome: converged ? runOutcome(position, surfaceType) : null,
+      };
+    });
+    set({ runners: next, stepCount: stepCount + 1, ...LIVE });
+  },
+
+  reset: () =>
+    set((s) => ({
+      start: START,
+      runners: restartRunners(s.runners, START, s.surfaceType),
+      stepCount: 0,
+      ...LIVE,
+      isPlaying: false,
+    })),
+
+  setLearningRate: (learningRate) =>
+    set((s) => ({ runners: updateSelected(s, (r) => ({ ...r, learningRate })) })),
+
+  setSurfaceType: (surfaceType) =>
     set((s) => ({
-      position: newPos,
-      path: [...s.path, newPos],
-      stepCount: s.stepCount + 1,
-    }));
+      surfaceType,
+      start: START,
+      runners: restartRunners(s.runners, START, surfaceType),
+      stepCount: 0,
+      ...LIVE,
+      isPlaying: false,
+    })),
+
+  setExpression: (expression) => {
+    const result = compileExpression(expression);
+    if (!result.ok) {
+      set({ expression, expressionError: result.error });
+      return;
+    }
+    get().setSurfaceType(result.surface);
+    set({ expression, expressionError: null });
+  },
+
+  setOptimizerType: (type) =>
+    set((s) => {
+      const runners = updateSelected(s, (r) => {
+        const optimizer = { ...r.optimizer, type };
+        optimizers.set(r.id, new Optimizer(optimizer));
+        return { ...r, optimizer, name: OPTIMIZER_NAMES[type] };
+      });
+      // Restart the whole race so every runner is compared over the same number of steps
+      return { runners: restartRunners(runners, s.start, s.surfaceType), stepCount: 0, ...LIVE };
+    }),
+
+  setOptimizerParam: (param, value) =>
+    set((s) => ({
+      runners: updateSelected(s, (r) => {
+        const optimizer = { ...r.optimizer, [param]: value };
+        const instance = optimizers.get(r.id);
+        if (instance) instance.config = optimizer;
+        return { ...r, optimizer };
+      }),
+    })),
+
+  setScheduleType: (type) =>
+    set((s) => {
+      const runners = updateSelected(s, (r) => ({ ...r, schedule: { ...r.schedule, type } }));
+      return { runners: restartRunners(runners, s.start, s.surfaceType), stepCount: 0, ...LIVE };
+    }),
+
+  setScheduleParam: (param, value) =>
+    set((s) => ({
+      runners: updateSelected(s, (r) => ({ ...r, schedule: { ...r.schedule, [param]: value } })),
+    })),
+
+  setNoiseType: (type) =>
+    set((s) => {
+      const runners = updateSelected(s, (r) => ({ ...r, noise: { ...r.noise, type } }));
+      return { runners: restartRunners(runners, s.start, s.surfaceType), stepCount: 0, ...LIVE };
+    }),
+
+  // Noise changes restart the race so each run is reproducible from its seed
+  setNoiseParam: (param, value) =>
+    set((s) => {
+      const runners = updateSelected(s, (r) => ({ ...r, noise: { ...r.noise, [param]: value } }));
+      return { runners: restartRunners(runners, s.start, s.surfaceType), stepCount: 0, ...LIVE };
+    }),
+
+  addRunner: (type) => {
+    const { runners, start, surfaceType } = get();
+    if (runners.length >= MAX_RUNNERS) return;
+    const used = new Set(runners.map((r) => r.color));
+    const color = RUNNER_COLORS.find((c) => !used.has(c)) ?? RUNNER_COLORS[0];
+    const runner = createRunner(type, RACE_LEARNING_RATES[type], color, start, surfaceType);
+    set({
+      runners: [...restartRunners(runners, start, surfaceType), runner],
+      selectedRunnerId: runner.id,
+      stepCount: 0,
+      ...LIVE,
+    });
   },
 
-  reset: () => {
-    const start: [number, number] = [1.5, 1.5];
-    set({ position: start, path: [start], stepCount: 0, isPlaying: false });
+  removeRunner: (id) => {
+    const { runners, selectedRunnerId } = get();
+    if (runners.length <= 1) return;
+    optimizers.delete(id);
+    samplers.delete(id);
+    const remaining = runners.filter((r) => r.id !== id);
+    set({
+      runners: remaining,
+      selectedRunnerId: selectedRunnerId === id ? remaining[0].id : selectedRunnerId,
+    });
   },
 
-  setLearningRate: (learningRate) => set({ learningRate }),
-  setSurfaceType: (surfaceType) =>
-    set({ surfaceType, position: [1.5, 1.5], path: [[1.5, 1.5]], stepCount: 0, isPlaying: false }),
-  togglePlaying: () => set((s) => ({ isPlaying: !s.isPlaying })),
+  selectRunner: (selectedRunnerId) => set({ selectedRunnerId }),
+
+  raceAllOptimizers: () => {
+    const { runners, start, surfaceType } = get();
+    for (const r of runners) {
+      optimizers.delete(r.id);
+      samplers.delete(r.id);
+    }
+    const types = Object.keys(OPTIMIZER_NAMES) as OptimizerType[];
+    const next = types.map((type, i) =>
+      createRunner(type, RACE_LEARNING_RATES[type], RUNNER_COLORS[i], start, surfaceType),
+    );
+    set({ runners: next, selectedRunnerId: next[0].id, stepCount: 0, ...LIVE, isPlaying: false });
+  },
+
+  compareBatchSizes: () => {
+    const state = get();
+    const { start, surfaceType } = state;
+    const template = selectSelectedRunner(state);
+    for (const r of state.runners) {
+      optimizers.delete(r.id);
+      samplers.delete(r.id);
+    }
+    const { datasetSize } = template.noise;
+    const sizes = [...COMPARED_BATCH_SIZES.filter((b) => b < datasetSize), datasetSize];
+    const next = sizes.map((batchSize, i): Runner => {
+      const runner = createRunner(
+        template.optimizer.type,
+        template.learningRate,
+        RUNNER_COLORS[i],
+        start,
+        surfaceType,
+      );
+      const noise: GradientNoise = { ...template.noise, type: 'minibatch', batchSize };
+      optimizers.set(runner.id, new Optimizer(template.optimizer));
+      samplers.set(runner.id, createGradientSampler(noise));
+      return {
+        ...runner,
+        name: batchSize === datasetSize ? 'Full batch' : `Batch ${batchSize}`,
+        optimizer: template.optimizer,
+        schedule: template.schedule,
+        noise,
+      };
+    });
+    set({ runners: next, selectedRunnerId: next[0].id, stepCount: 0, ...LIVE, isPlaying: false });
+  },
+
+  togglePlaying: () => set((s) => ({ isPlaying: !s.isPlaying, ...LIVE })),
   setViewMode: (viewMode) => set({ viewMode }),
+  setSurfaceShading: (surfaceShading) => set({ surfaceShading }),
+  setShowGradientField: (showGradientField) => set({ showGradientField }),
+  setTopDown: (topDown) => set({ topDown }),
+  setShowQuadraticModel: (showQuadraticModel) => set({ showQuadraticModel }),
+  setBasinResolution: (basinResolution) => set({ basinResolution }),
+  setBasinProgress: (basinProgress) => set({ basinProgress }),
+  finishBasins: (key, map) => set({ basins: { key, map }, basinProgress: null, showBasins: true }),
+  setShowBasins: (showBasins) => set({ showBasins }),
+
+  setReplayStep: (step) =>
+    set((s) => ({
+      replayStep: step === null ? null : Math.max(0, Math.min(s.stepCount, Math.round(step))),
+      isPlaying: false,
+    })),
+
+  toggleReplay: () => {
+    const { replayStep, replayPlaying, stepCount } = get();
+    if (replayPlaying) {
+      set({ replayPlaying: false });
+      return;
+    }
+    if (stepCount === 0) return;
+    // Start again from the beginning when the replay is live or finished
+    const from = replayStep === null || replayStep >= stepCount ? 0 : replayStep;
+    set({ replayStep: from, replayPlaying: true, isPlaying: false });
+  },
+
+  advanceReplay: () => {
+    const { replayStep, stepCount } = get();
+    if (replayStep === null) return;
+    const next = replayStep + 1;
+    set(next >= stepCount ? { replayStep: stepCount, replayPlaying: false } : { replayStep: next });
+  },
+
+  setReplaySpeed: (replaySpeed) => set({ replaySpeed }),
+
+  exportRuns: () => {
+    const { surfaceType, start, runners } = get();
+    const file: RunFile = {
+      version: 1,
+      surface: toSurfaceSpec(surfaceType),
+      start,
+      runs: runners.map((r) => ({
+        name: r.name,
+        color: r.color,
+        optimizer: r.optimizer,
+        learningRate: r.learningRate,
+        schedule: r.schedule,
+        noise: r.noise,
+        path: r.path,
+        gradients: r.gradients,
+        losses: r.losses,
+        learningRates: r.learningRates,
+        convergedAt: r.convergedAt,
+      })),
+    };
+    return serializeRunFile(file);
+  },
+
+  importRuns: (text) => {
+    const result = parseRunFile(text);
+    if (!result.ok) {
+      set({ importError: result.error });
+      return;
+    }
+    const { file } = result;
+    if (file.runs.length > MAX_RUNNERS) {
+      set({ importError: `A file can hold at most ${MAX_RUNNERS} runs` });
+      return;
+    }
+    const surfaceType = resolveSurfaceSpec(file.surface);
+    for (const r of get().runners) {
+      optimizers.delete(r.id);
+      samplers.delete(r.id);
+    }
+    // Runs resume from where they stopped, but with fresh optimizer state
+    const runners = file.runs.map((run): Runner => {
+      const id = nextRunnerId++;
+      optimizers.set(id, new Optimizer(run.optimizer));
+      samplers.set(id, createGradientSampler(run.noise));
+      const position = run.path[run.path.length - 1];
+      return {
+        ...run,
+        id,
+        position,
+        outcome: run.convergedAt !== null ? runOutcome(position, surfaceType) : null,
+      };
+    });
+    set({
+      surfaceType,
+      ...(file.surface.kind === 'expression' && {
+        expression: file.surface.source,
+        expressionError: null,
+      }),
+      start: file.start,
+      runners,
+      selectedRunnerId: runners[0].id,
+      stepCount: Math.max(...runners.map((r) => r.path.length - 1)),
+      isPlaying: false,
+      replayStep: 0,
+      replayPlaying: false,
+      importError: null,
+    });
+  },
 }));
+
+/** The runner the controls currently edit. */
+export function selectSelectedRunner(state: GradientDescentState): Runner {
+  return state.runners.find((r) => r.id === state.selectedRunnerId) ?? state.runners[0];
+}
+
+/** Basin-map job for the selected runner's optimizer on the current surface. */
+export function selectBasinRequest(state: GradientDescentState): BasinRequest {
+  const runner = selectSelectedRunner(state);
+  return {
+    surface: toSurfaceSpec(state.surfaceType),
+    optimizer: runner.optimizer,
+    learningRate: runner.learningRate,
+    schedule: runner.schedule,
+    noise: runner.noise,
+    resolution: state.basinResolution,
+    maxSteps: BASIN_MAX_STEPS,
+  };
+}
+
+export function basinKey(request: BasinRequest): string {
+  return JSON.stringify(request);
+}
+
+/** The basin map, but only while it still matches the current surface and optimizer settings. */
+export function selectCurrentBasins(state: GradientDescentState): BasinMap | null {
+  if (!state.basins || state.basins.key !== basinKey(selectBasinRequest(state))) return null;
+  return state.basins.map;
+}
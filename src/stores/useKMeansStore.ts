@@ -1,55 +1,298 @@
 import { create } from 'zustand';
-import type { Point2D } from '../ml/types';
-import { KMeansAlgorithm } from '../ml/kmeans';
+import type { DatasetType, Point2D } from '../ml/types';
+import { KMeansAlgorithm, type InitMethod } from '../ml/kmeans';
+import { analyzeK, type KAnalysisPoint } from '../ml/kmeans-analysis';
+import { GaussianMixtureModel, type GaussianComponent } from '../ml/gmm';
+import { dbscan, type PointKind } from '../ml/dbscan';
+import { agglomerate, cutDendrogram, type Linkage, type Merge } from '../ml/hierarchical';
+import { argmax, createRng } from '../utils/math-utils';
+import {
+  generateCircleData,
+  generateGaussianClusters,
+  generateMoonsData,
+  generateSpiralData,
+  generateXORData,
+} from '../utils/data-generators';
+
+export type ClusteringAlgorithm = 'kmeans' | 'gmm' | 'dbscan' | 'agglomerative';
+
+const DATASET_SIZE = 150;
+
+// Matches the largest k offered by the page's slider
+const MAX_ANALYSIS_K = 8;
+const ANALYSIS_RESTARTS = 5;
 
 interface KMeansState {
   points: Point2D[];
   centroids: Point2D[];
   assignments: number[];
   k: number;
+  algorithm: ClusteringAlgorithm;
+  initMethod: InitMethod;
+  /** Seed for the initializer's random source, so a run can be replayed exactly. */
+  seed: number;
+  /** k-means++ sampling probability per point while centroids are still being seeded. */
+  seedProbabilities: number[];
+  /** Elbow and silhouette scores for k = 1..MAX_ANALYSIS_K; cleared when the points change. */
+  analysis: KAnalysisPoint[];
+  /** Fitted mixture components when `algorithm` is `gmm`. */
+  components: GaussianComponent[];
+  /** Per-point component probabilities from the latest E-step. */
+  responsibilities: number[][];
+  /** Mean log-likelihood after each EM iteration. */
+  logLikelihoods: number[];
+  /** DBSCAN neighbourhood radius and the neighbour count that makes a point core. */
+  eps: number;
+  minPts: number;
+  /** Core/border/noise role of each point after a DBSCAN run. */
+  pointKinds: PointKind[];
+  linkage: Linkage;
+  /** Dendrogram from the last agglomerative run, cut at `cutHeight` to get flat clusters. */
+  merges: Merge[];
+  cutHeight: number;
   stepCount: number;
   converged: boolean;
   isPlaying: boolean;
   addPoint: (p: Point2D) => void;
+  loadDataset: (type: DatasetType) => void;
   setK: (k: number) => void;
+  setAlgorithm: (algorithm: ClusteringAlgorithm) => void;
+  setInitMethod: (method: InitMethod) => void;
+  setSeed: (seed: number) => void;
+  setEps: (eps: number) => void;
+  setMinPts: (minPts: number) => void;
+  setLinkage: (linkage: Linkage) => void;
+  setCutHeight: (height: number) => void;
+  runAnalysis: () => void;
   initialize: () => void;
   step: () => void;
   reset: () => void;
   togglePlaying: () => void;
 }
 
-let algo = new KMeansAlgorithm(3);
+function createAlgorithm(k: number, initMethod: InitMethod, seed: number) {
+  return new KMeansAlgorithm(k, initMethod, createRng(seed));
+}
+
+let algo = createAlgorithm(3, 'kmeans++', 1);
+let gmm = new GaussianMixtureModel(3);
+
+function resetModels(k: number, initMethod: InitMethod, seed: number) {
+  algo = createAlgorithm(k, initMethod, seed);
+  gmm = new GaussianMixtureModel(k, createRng(seed));
+}
+
+/** Dataset points without their class labels, centred on the plotting range. */
+function generateDataset(type: DatasetType): Point2D[] {
+  let points: Point2D[];
+  switch (type) {
+    case 'circle':
+      points = generateCircleData(DATASET_SIZE, 0.05);
+      break;
+    case 'spiral':
+      points = generateSpiralData(DATASET_SIZE, 0.03);
+      break;
+    case 'xor':
+      points = generateXORData(DATASET_SIZE, 0.05);
+      break;
+    case 'gaussian':
+      points = generateGaussianClusters(DATASET_SIZE, 3, 0.12);
+      break;
+    case 'moons':
+      // Moons span x ∈ [-1, 2] and y ∈ [-0.5, 1]; shift them to the middle
+      points = generateMoonsData(DATASET_SIZE, 0.06).map((p) => ({
+        ...p,
+        x: p.x - 0.5,
+        y: p.y - 0.25,
+      }));
+      break;
+  }
+  return points.map(({ x, y }) => ({ x, y }));
+}
+
+const clearedRun = {
+  centroids: [],
+  assignments: [],
+  seedProbabilities: [],
+  components: [],
+  responsibilities: [],
+  logLikelihoods: [],
+  pointKinds: [],
+  merges: [],
+  stepCount: 0,
+  converged: false,
+  isPlaying: false,
+};
 
 export const useKMeansStore = create<KMeansState>((set, get) => ({
   points: [],
   centroids: [],
   assignments: [],
   k: 3,
+  algorithm: 'kmeans',
+  initMethod: 'kmeans++',
+  seed: 1,
+  seedProbabilities: [],
+  analysis: [],
+  components: [],
+  responsibilities: [],
+  logLikelihoods: [],
+  eps: 0.15,
+  minPts: 4,
+  pointKinds: [],
+  linkage: 'average',
+  merges: [],
+  cutHeight: 0.5,
   stepCount: 0,
   converged: false,
   isPlaying: false,
 
-  addPoint: (p) => set((s) => ({ points: [...s.points, p] })),
+  addPoint: (p) => set((s) => ({ points: [...s.points, p], analysis: [] })),
+
+  loadDataset: (type) => {
+    const { k, initMethod, seed } = get();
+    resetModels(k, initMethod, seed);
+    set({ points: generateDataset(type), analysis: [], ...clearedRun });
+  },
 
   setK: (k) => {
-    algo = new KMeansAlgorithm(k);
-    set({ k, centroids: [], assignments: [], stepCount: 0, converged: false, isPlaying: false });
+    resetModels(k, get().initMethod, get().seed);
+    set({ k, ...clearedRun });
+  },
+
+  setAlgorithm: (algorithm) => {
+    resetModels(get().k, get().initMethod, get().seed);
+    set({ algorithm, ...clearedRun });
+  },
+
+  setInitMethod: (initMethod) => {
+    resetModels(get().k, initMethod, get().seed);
+    set({ initMethod, ...clearedRun });
+  },
+
+  setSeed: (seed) => {
+    resetModels(get().k, get().initMethod, seed);
+    set({ seed, ...clearedRun });
+  },
+
+  setEps: (eps) => {
+    set({ eps });
+    if (get().pointKinds.length > 0) get().initialize();
+  },
+
+  setMinPts: (minPts) => {
+    set({ minPts });
+    if (get().pointKinds.length > 0) get().initialize();
+  },
+
+  setLinkage: (linkage) => {
+    set({ linkage });
+    if (get().merges.length > 0) get().initialize();
+  },
+
+  setCutHeight: (cutHeight) => {
+    const { merges, points } = get();
+    set({ cutHeight });
+    if (merges.length > 0) set({ assignments: cutDendrogram(merges, points.length, cutHeight) });
+  },
+
+  runAnalysis: () => {
+    const { points, initMethod, seed } = get();
+    if (points.length < 2) return;
+    const analysis = analyzeK(points, MAX_ANALYSIS_K, {
+      restarts: ANALYSIS_RESTARTS,
+      init: initMethod,
+      random: createRng(seed),
+    });
+    set({ analysis });
   },
 
   initialize: () => {
-    const { points, k } = get();
+    const { points, k, algorithm, initMethod, seed, eps, minPts, linkage, cutHeight } = get();
+    // DBSCAN and agglomerative clustering are not iterative, so they finish in one go
+    if (algorithm === 'dbscan') {
+      if (points.length < 2) return;
+      const result = dbscan(points, eps, minPts);
+      set({ assignments: result.labels, pointKinds: result.kinds, converged: true });
+      return;
+    }
+    if (algorithm === 'agglomerative') {
+      if (points.length < 2) return;
+      const merges = agglomerate(points, linkage);
+      set({
+        merges,
+        assignments: cutDendrogram(merges, points.length, cutHeight),
+        converged: true,
+      });
+      return;
+    }
     if (points.length < k) return;
-    algo = new KMeansAlgorithm(k);
-    algo.initialize(points);
+    if (algorithm === 'gmm') {
+      gmm = new GaussianMixtureModel(k, createRng(seed));
+      gmm.initialize(points);
+      const responsibilities = gmm.eStep(points);
+      set({
+        components: gmm.components,
+        responsibilities,
+        assignments: responsibilities.map(argmax),
+        centroids: gmm.components.map((c) => c.mean),
+        logLikelihoods: [gmm.logLikelihood(points)],
+        stepCount: 0,
+        converged: false,
+      });
+      return;
+    }
+    algo = createAlgorithm(k, initMethod, seed);
+    if (initMethod === 'kmeans++') {
+      // Seed one centroid now; later steps add the rest so the D² sampling can be watched
+      algo.addSeed(points);
+    } else {
+      algo.initialize(points);
+    }
     const assignments = algo.assignPoints(points, algo.centroids);
-    set({ centroids: [...algo.centroids], assignments, stepCount: 0, converged: false });
+    set({
+      centroids: [...algo.centroids],
+      assignments,
+      seedProbabilities: algo.centroids.length < k ? algo.seedProbabilities(points) : [],
+      stepCount: 0,
+      converged: false,
+    });
   },
 
   step: () => {
-    const { points, converged } = get();
+    const { points, converged, k, algorithm } = get();
     if (points.length === 0 || converged) return;
+    if (algorithm === 'dbscan' || algorithm === 'agglomerative') {
+      get().initialize();
+      return;
+    }
+    if (algorithm === 'gmm') {
+      if (gmm.components.length === 0) get().initialize();
+      if (gmm.components.length === 0) return;
+      const result = gmm.step(points);
+      set((s) => ({
+        components: result.components,
+        responsibilities: result.responsibilities,
+        assignments: result.responsibilities.map(argmax),
+        centroids: result.components.map((c) => c.mean),
+        logLikelihoods: [...s.logLikelihoods, result.logLikelihood],
+        converged: result.converged,
+        stepCount: s.stepCount + 1,
+      }));
+      return;
+    }
     if (algo.centroids.length === 0) {
       get().initialize();
+      if (get().seedProbabilities.length > 0) return;
+    }
+    if (algo.centroids.length < k) {
+      algo.addSeed(points);
+      set({
+        centroids: [...algo.centroids],
+        assignments: algo.assignPoints(points, algo.centroids),
+        seedProbabilities: algo.centroids.length < k ? algo.seedProbabilities(points) : [],
+      });
+      return;
     }
     const result = algo.step(points);
     set((s) => ({
@@ -61,16 +304,9 @@ export const useKMeansStore = create<KMeansState>((set, get) => ({
   },
 
   reset: () => {
-    const { k } = get();
-    algo = new KMeansAlgorithm(k);
-    set({
-      points: [],
-      centroids: [],
-      assignments: [],
-      stepCount: 0,
-      converged: false,
-      isPlaying: false,
-    });
+    const { k, initMethod, seed } = get();
+    resetModels(k, initMethod, seed);
+    set({ points: [], analysis: [], ...clearedRun });
   },
 
   togglePlaying: () => set((s) => ({ isPlaying: !s.isPlaying })),
@@ -1,11 +1,56 @@
 import { create } from 'zustand';
 import type { Point2D } from '../ml/types';
-import { LinearRegressionModel } from '../ml/linear-regression';
+import {
+  LinearRegressionModel,
+  computeCoefficientPath,
+  solveOptimum,
+  type BasisConfig,
+  type BasisType,
+  type CoefficientPathPoint,
+  type LossConfig,
+  type LossType,
+  type PenaltyType,
+  type Regularization,
+  type SampleGradient,
+} from '../ml/linear-regression';
+
+// Matches the page's plotting range so basis features stay within [-1, 1]
+const INPUT_SCALE = 1.5;
+
+// Log-spaced sweep from 0.001 to 1 for the coefficient path
+const PATH_LAMBDAS = Array.from({ length: 30 }, (_, i) => 10 ** (-3 + (3 * i) / 29));
+
+const MAX_CONVERGENCE_SAMPLES = 1000;
+const MAX_PARAM_PATH = 500;
+
+/** Distance from the gradient-descent estimate to the closed-form optimum after an epoch. */
+export interface ConvergenceSample {
+  epoch: number;
+  parameterGap: number;
+  lossGap: number;
+}
 
 interface LinearRegressionState {
   points: Point2D[];
+  weights: number[];
   weight: number;
   bias: number;
+  basis: BasisConfig;
+  lossConfig: LossConfig;
+  /** Plain MSE fit trained alongside a robust loss, for comparison. */
+  mseWeights: number[];
+  mseBias: number;
+  regularization: Regularization;
+  /** Points per step; null is full-batch gradient descent. */
+  batchSize: number | null;
+  shuffle: boolean;
+  /** Points sampled by the last step and each one's gradient contribution. */
+  sampledIndices: number[];
+  sampleGradients: SampleGradient[];
+  /** Trail of (first weight, bias) after each step. */
+  paramPath: [number, number][];
+  coefficientPath: CoefficientPathPoint[];
+  convergence: ConvergenceSample[];
   learningRate: number;
   loss: number;
   epoch: number;
@@ -14,17 +59,62 @@ interface LinearRegressionState {
   removePoint: (index: number) => void;
   updatePoint: (index: number, p: Point2D) => void;
   setLearningRate: (lr: number) => void;
+  setBasisType: (type: BasisType) => void;
+  setBasisSize: (size: number) => void;
+  setLossType: (type: LossType) => void;
+  setHuberDelta: (delta: number) => void;
+  setPenaltyType: (type: PenaltyType) => void;
+  setLambda: (lambda: number) => void;
+  setL1Ratio: (ratio: number) => void;
+  setBatchSize: (size: number | null) => void;
+  setShuffle: (shuffle: boolean) => void;
+  computeCoefficientPath: () => void;
   trainStep: () => void;
   reset: () => void;
   toggleTraining: () => void;
 }
 
-const model = new LinearRegressionModel();
+const initialBasis: BasisConfig = { type: 'polynomial', size: 1, scale: INPUT_SCALE };
+
+const model = new LinearRegressionModel(0, 0, initialBasis);
+const mseModel = new LinearRegressionModel(0, 0, initialBasis);
+
+function restartFit(basis: BasisConfig) {
+  model.setBasis(basis);
+  mseModel.setBasis(basis);
+  return {
+    weights: [...model.weights],
+    weight: 0,
+    bias: 0,
+    mseWeights: [...mseModel.weights],
+    mseBias: 0,
+    loss: 0,
+    epoch: 0,
+    sampledIndices: [],
+    sampleGradients: [],
+    paramPath: [[0, 0] as [number, number]],
+    coefficientPath: [],
+    convergence: [],
+  };
+}
 
 export const useLinearRegressionStore = create<LinearRegressionState>((set, get) => ({
   points: [],
+  weights: [0],
   weight: 0,
   bias: 0,
+  basis: initialBasis,
+  lossConfig: { type: 'mse', delta: 0.3 },
+  mseWeights: [0],
+  mseBias: 0,
+  regularization: { type: 'none', lambda: 0.05, l1Ratio: 0.5 },
+  batchSize: null,
+  shuffle: true,
+  sampledIndices: [],
+  sampleGradients: [],
+  paramPath: [[0, 0]],
+  coefficientPath: [],
+  convergence: [],
   learningRate: 0.1,
   loss: 0,
   epoch: 0,
@@ -32,7 +122,12 @@ export const useLinearRegressionStore = create<LinearRegressionState>((set, get)
 
   addPoint: (p) => set((s) => ({ points: [...s.points, p] })),
 
-  removePoint: (index) => set((s) => ({ points: s.points.filter((_, i) => i !== index) })),
+  removePoint: (index) =>
+    set((s) => ({
+      points: s.points.filter((_, i) => i !== index),
+      sampledIndices: [],
+      sampleGradients: [],
+    })),
 
   updatePoint: (index, p) =>
     set((s) => {
@@ -43,20 +138,107 @@ export const useLinearRegressionStore = create<LinearRegressionState>((set, get)
 
   setLearningRate: (learningRate) => set({ learningRate }),
 
+  setBasisType: (type) => {
+    const basis = { ...get().basis, type };
+    set({ basis, ...restartFit(basis) });
+  },
+
+  setBasisSize: (size) => {
+    const basis = { ...get().basis, size };
+    set({ basis, ...restartFit(basis) });
+  },
+
+  setLossType: (type) =>
+    set((s) => ({ lossConfig: { ...s.lossConfig, type }, ...restartFit(s.basis) })),
+
+  setHuberDelta: (delta) => set((s) => ({ lossConfig: { ...s.lossConfig, delta } })),
+
+  setPenaltyType: (type) =>
+    set((s) => ({
+      regularization: { ...s.regularization, type },
+      coefficientPath: [],
+      convergence: [],
+    })),
+
+  setLambda: (lambda) =>
+    set((s) => ({ regularization: { ...s.regularization, lambda }, convergence: [] })),
+
+  setL1Ratio: (l1Ratio) =>
+    set((s) => ({
+      regularization: { ...s.regularization, l1Ratio },
+      coefficientPath: [],
+      convergence: [],
+    })),
+
+  setBatchSize: (batchSize) => {
+    model.batchSize = batchSize;
+    mseModel.batchSize = batchSize;
+    set({ batchSize, sampledIndices: [], sampleGradients: [] });
+  },
+
+  setShuffle: (shuffle) => {
+    model.shuffle = shuffle;
+    mseModel.shuffle = shuffle;
+    set({ shuffle });
+  },
+
+  computeCoefficientPath: () => {
+    const { points, basis, regularization } = get();
+    if (points.length === 0 || regularization.type === 'none') return;
+    set({ coefficientPath: computeCoefficientPath(points, basis, regularization, PATH_LAMBDAS) });
+  },
+
   trainStep: () => {
-    const { points, learningRate, epoch } = get();
+    const { points, basis, lossConfig, learningRate, regularization, epoch, convergence } = get();
     if (points.length === 0) return;
-    model.weight = get().weight;
+    model.weights = [...get().weights];
     model.bias = get().bias;
-    const loss = model.trainStep(points, learningRate);
-    set({ weight: model.weight, bias: model.bias, loss, epoch: epoch + 1 });
-  },
+    model.loss = lossConfig;
+    const loss = model.trainStep(points, learningRate, regularization);
 
-  reset: () => {
-    model.weight = 0;
-    model.bias = 0;
-    set({ points: [], weight: 0, bias: 0, loss: 0, epoch: 0, isTraining: false });
+    const robust = lossConfig.type !== 'mse';
+    if (robust) {
+      mseModel.weights = [...get().mseWeights];
+      mseModel.bias = get().mseBias;
+      mseModel.trainStep(points, learningRate, regularization);
+    }
+
+    // The closed-form optimum only exists for squared error
+    let nextConvergence = convergence;
+    const optimum = robust ? null : solveOptimum(points, basis, regularization);
+    if (optimum) {
+      const reference = new LinearRegressionModel(0, optimum.bias, basis);
+      reference.weights = optimum.weights;
+      let sq = (model.bias - optimum.bias) ** 2;
+      for (let i = 0; i < optimum.weights.length; i++) {
+        sq += (model.weights[i] - optimum.weights[i]) ** 2;
+      }
+      const sample = {
+        epoch: epoch + 1,
+        parameterGap: Math.sqrt(sq),
+        lossGap: Math.max(0, loss - reference.computeLoss(points, regularization)),
+      };
+      nextConvergence = [...convergence, sample].slice(-MAX_CONVERGENCE_SAMPLES);
+    }
+
+    set({
+      weights: [...model.weights],
+      weight: model.weight,
+      bias: model.bias,
+      mseWeights: robust ? [...mseModel.weights] : get().mseWeights,
+      mseBias: robust ? mseModel.bias : get().mseBias,
+      sampledIndices: model.lastBatch,
+      sampleGradients: model.lastSampleGradients,
+      paramPath: [...get().paramPath, [model.weight, model.bias] as [number, number]].slice(
+        -MAX_PARAM_PATH,
+      ),
+      loss,
+      epoch: epoch + 1,
+      convergence: nextConvergence,
+    });
   },
 
+  reset: () => set((s) => ({ points: [], isTraining: false, ...restartFit(s.basis) })),
+
   toggleTraining: () => set((s) => ({ isTraining: !s.isTraining })),
 }));
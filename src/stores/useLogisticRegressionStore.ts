@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import type { Point2D } from '../ml/types';
+import { LogisticRegressionModel } from '../ml/logistic-regression';
+
+const MAX_LOSS_HISTORY = 500;
+
+interface LogisticRegressionState {
+  points: Point2D[];
+  weights: [number, number];
+  bias: number;
+  learningRate: number;
+  loss: number;
+  accuracy: number;
+  lossHistory: number[];
+  epoch: number;
+  isTraining: boolean;
+  currentLabel: number;
+  addPoint: (p: Point2D) => void;
+  removePoint: (index: number) => void;
+  updatePoint: (index: number, p: Point2D) => void;
+  setCurrentLabel: (label: number) => void;
+  setLearningRate: (lr: number) => void;
+  trainStep: () => void;
+  reset: () => void;
+  toggleTraining: () => void;
+}
+
+const model = new LogisticRegressionModel();
+
+export const useLogisticRegressionStore = create<LogisticRegressionState>((set, get) => ({
+  points: [],
+  weights: [0, 0],
+  bias: 0,
+  learningRate: 0.5,
+  loss: 0,
+  accuracy: 0,
+  lossHistory: [],
+  epoch: 0,
+  isTraining: false,
+  currentLabel: 0,
+
+  addPoint: (p) => set((s) => ({ points: [...s.points, p] })),
+
+  removePoint: (index) => set((s) => ({ points: s.points.filter((_, i) => i !== index) })),
+
+  updatePoint: (index, p) =>
+    set((s) => {
+      const points = [...s.points];
+      points[index] = p;
+      return { points };
+    }),
+
+  setCurrentLabel: (currentLabel) => set({ currentLabel }),
+
+  setLearningRate: (learningRate) => set({ learningRate }),
+
+  trainStep: () => {
+    const { points, learningRate, epoch, lossHistory } = get();
+    if (points.length === 0) return;
+    model.weights = [...get().weights];
+    model.bias = get().bias;
+    const loss = model.trainStep(points, learningRate);
+    set({
+      weights: [...model.weights],
+      bias: model.bias,
+      loss,
+      accuracy: model.computeAccuracy(points),
+      lossHistory: [...lossHistory, loss].slice(-MAX_LOSS_HISTORY),
+      epoch: epoch + 1,
+    });
+  },
+
+  reset: () => {
+    model.weights = [0, 0];
+    model.bias = 0;
+    set({
+      points: [],
+      weights: [0, 0],
+      bias: 0,
+      loss: 0,
+      accuracy: 0,
+      lossHistory: [],
+      epoch: 0,
+      isTraining: false,
+    });
+  },
+
+  toggleTraining: () => set((s) => ({ isTraining: !s.isTraining })),
+}));
@@ -1,7 +1,10 @@
 import { create } from 'zustand';
 import type {
   Point2D,
+  DataSplit,
   DatasetType,
+  EpochMetrics,
+  NetworkOptimizerType,
   NetworkArchitecture,
   NetworkLayer,
   TrainingState,
@@ -12,38 +15,69 @@ import {
   generateXORData,
   generateGaussianClusters,
   generateMoonsData,
+  assignSplits,
 } from '../utils/data-generators';
+import { RAW_FEATURES, type InputFeature } from '../ml/features';
+
+export type SplitParam = 'validationFraction' | 'testFraction' | 'splitSeed';
 
 interface NeuralNetworkState {
   points: Point2D[];
   datasetType: DatasetType;
   numPoints: number;
+  /** Number of classes in the dataset; only the gaussian and spiral datasets offer more than two. */
+  numClasses: number;
   architecture: NetworkArchitecture;
   trainingState: TrainingState;
   learningRate: number;
+  optimizer: NetworkOptimizerType;
+  /** Points per update; null trains on the full batch. */
+  batchSize: number | null;
+  /** Seeds the initial weights and the mini-batch order, so a run can be repeated exactly. */
+  trainingSeed: number;
+  /** Per-class probabilities over the boundary grid, as returned by `predictGrid`. */
   decisionBoundary: Float32Array | null;
   boundaryResolution: number;
   weights: number[][][] | null;
   currentLabel: number;
+  /** Fractions of the points held out for validation and for the final test. */
+  validationFraction: number;
+  testFraction: number;
+  splitSeed: number;
+  /** Split of each point, parallel to `points`. */
+  splits: DataSplit[];
+  /** Train and validation metrics for every epoch since training last started. */
+  history: EpochMetrics[];
+  /** Scores on the test split, taken when training is paused. */
+  testMetrics: { loss: number; accuracy: number } | null;
 
   setDataset: (type: DatasetType) => void;
   generateData: () => void;
   setNumPoints: (n: number) => void;
+  setNumClasses: (n: number) => void;
   addPoint: (p: Point2D) => void;
   addLayer: () => void;
   removeLayer: (index: number) => void;
   updateLayer: (index: number, layer: Partial<NetworkLayer>) => void;
+  toggleFeature: (feature: InputFeature) => void;
   setLearningRate: (lr: number) => void;
+  setOptimizer: (optimizer: NetworkOptimizerType) => void;
+  setBatchSize: (batchSize: number | null) => void;
+  setTrainingSeed: (seed: number) => void;
   startTraining: () => void;
   stopTraining: () => void;
   updateTrainingState: (state: Partial<TrainingState>) => void;
   updateBoundary: (boundary: Float32Array) => void;
   updateWeights: (weights: number[][][]) => void;
   setCurrentLabel: (label: number) => void;
+  setSplit: (param: SplitParam, value: number) => void;
+  recordEpoch: (metrics: EpochMetrics) => void;
+  setTestMetrics: (metrics: { loss: number; accuracy: number } | null) => void;
   reset: () => void;
 }
 
 const defaultArchitecture: NetworkArchitecture = {
+  features: RAW_FEATURES,
   inputSize: 2,
   layers: [
     { units: 8, activation: 'relu' },
@@ -53,69 +87,127 @@ const defaultArchitecture: NetworkArchitecture = {
   outputActivation: 'sigmoid',
 };
 
-function generateDataForType(type: DatasetType, n: number): Point2D[] {
+export const MULTICLASS_DATASETS: DatasetType[] = ['gaussian', 'spiral'];
+export const MAX_CLASSES = 8;
+
+/**
+ * Size the output layer for `numClasses`: one sigmoid unit for two classes, otherwise one softmax
+ * unit per class.
+ */
+function withClasses(architecture: NetworkArchitecture, numClasses: number): NetworkArchitecture {
+  return numClasses <= 2
+    ? { ...architecture, outputSize: 1, outputActivation: 'sigmoid' }
+    : { ...architecture, outputSize: numClasses, outputActivation: 'softmax' };
+}
+
+/** A new set of points with fresh split assignments and no training progress. */
+function withNewData(
+  points: Point2D[],
+  split: Pick<NeuralNetworkState, SplitParam>,
+): Partial<NeuralNetworkState> {
+  return {
+    points,
+    splits: assignSplits(
+      points.length,
+      split.validationFraction,
+      split.testFraction,
+      split.splitSeed,
+    ),
+    trainingState: { isTraining: false, epoch: 0, loss: 0, accuracy: 0 },
+    history: [],
+    testMetrics: null,
+    decisionBoundary: null,
+    weights: null,
+  };
+}
+
+const DEFAULT_SPLIT = { validationFraction: 0.2, testFraction: 0.1, splitSeed: 1 };
+
+function generateDataForType(type: DatasetType, n: number, classes: number): Point2D[] {
   switch (type) {
     case 'circle':
       return generateCircleData(n);
     case 'spiral':
-      return generateSpiralData(n);
+      return generateSpiralData(n, 0.05, classes);
     case 'xor':
       return generateXORData(n);
     case 'gaussian':
-      return generateGaussianClusters(n, 2);
+      return generateGaussianClusters(n, classes);
     case 'moons':
       return generateMoonsData(n);
   }
 }
 
+const initialPoints = generateCircleData(200);
+
 export const useNeuralNetworkStore = create<NeuralNetworkState>((set, get) => ({
-  points: generateCircleData(200),
+  points: initialPoints,
   datasetType: 'circle',
   numPoints: 200,
+  numClasses: 2,
   architecture: {
     ...defaultArchitecture,
     layers: defaultArchitecture.layers.map((l) => ({ ...l })),
   },
   trainingState: { isTraining: false, epoch: 0, loss: 0, accuracy: 0 },
   learningRate: 0.03,
+  optimizer: 'sgd',
+  batchSize: null,
+  trainingSeed: 1,
   decisionBoundary: null,
   boundaryResolution: 50,
   weights: null,
   currentLabel: 0,
+  ...DEFAULT_SPLIT,
+  splits: assignSplits(
+    initialPoints.length,
+    DEFAULT_SPLIT.validationFraction,
+    DEFAULT_SPLIT.testFraction,
+    DEFAULT_SPLIT.splitSeed,
+  ),
+  history: [],
+  testMetrics: null,
 
   setDataset: (type) => {
-    const { numPoints } = get();
+    const { numPoints, architecture } = get();
+    // The other datasets are inherently two-class
+    const numClasses = MULTICLASS_DATASETS.includes(type) ? get().numClasses : 2;
     set({
       datasetType: type,
-      points: generateDataForType(type, numPoints),
-      trainingState: { isTraining: false, epoch: 0, loss: 0, accuracy: 0 },
-      decisionBoundary: null,
-      weights: null,
+      numClasses,
+      architecture: withClasses(architecture, numClasses),
+      currentLabel: 0,
+      ...withNewData(generateDataForType(type, numPoints, numClasses), get()),
     });
   },
 
   generateData: () => {
-    const { datasetType, numPoints } = get();
-    set({
-      points: generateDataForType(datasetType, numPoints),
-      trainingState: { isTraining: false, epoch: 0, loss: 0, accuracy: 0 },
-      decisionBoundary: null,
-      weights: null,
-    });
+    const { datasetType, numPoints, numClasses } = get();
+    set(withNewData(generateDataForType(datasetType, numPoints, numClasses), get()));
   },
 
   setNumPoints: (n) => {
-    const { datasetType } = get();
+    const { datasetType, numClasses } = get();
     set({
       numPoints: n,
-      points: generateDataForType(datasetType, n),
-      trainingState: { isTraining: false, epoch: 0, loss: 0, accuracy: 0 },
-      decisionBoundary: null,
-      weights: null,
+      ...withNewData(generateDataForType(datasetType, n, numClasses), get()),
+    });
+  },
+
+  setNumClasses: (n) => {
+    const { datasetType, numPoints, architecture } = get();
+    if (!MULTICLASS_DATASETS.includes(datasetType)) return;
+    const numClasses = Math.max(2, Math.min(MAX_CLASSES, Math.round(n)));
+    set({
+      numClasses,
+      architecture: withClasses(architecture, numClasses),
+      currentLabel: 0,
+      ...withNewData(generateDataForType(datasetType, numPoints, numClasses), get()),
     });
   },
 
-  addPoint: (p) => set((s) => ({ points: [...s.points, p] })),
+  // Points placed by hand are always trained on
+  addPoint: (p) => set((s) => ({ points: [...s.points, p], splits: [...s.splits, 'train'] })),
 
   addLayer: () =>
     set((s) => ({
@@ -139,11 +231,38 @@ export const useNeuralNetworkStore = create<NeuralNetworkState>((set, get) => ({
       return { architecture: { ...s.architecture, layers } };
     }),
 
+  toggleFeature: (feature) =>
+    set((s) => {
+      const current = s.architecture.features;
+      const features = current.includes(feature)
+        ? current.filter((f) => f !== feature)
+        : [...current, feature];
+      // The network needs at least one input
+      if (features.length === 0) return {};
+      return {
+        architecture: { ...s.architecture, features, inputSize: features.length },
+        decisionBoundary: null,
+        weights: null,
+      };
+    }),
+
   setLearningRate: (learningRate) => set({ learningRate }),
 
+  // Both take effect from the next training call, so they can be changed while training
+  setOptimizer: (optimizer) => set({ optimizer }),
+
+  setBatchSize: (batchSize) =>
+    set({ batchSize: batchSize === null ? null : Math.max(1, Math.round(batchSize)) }),
+
+  // Used when the next model is created, on the next start
+  setTrainingSeed: (trainingSeed) => set({ trainingSeed: Math.round(trainingSeed) }),
+
+  // Each start trains a freshly initialised model, so the curves start over too
   startTraining: () =>
     set((s) => ({
-      trainingState: { ...s.trainingState, isTraining: true },
+      trainingState: { ...s.trainingState, isTraining: true, epoch: 0 },
+      history: [],
+      testMetrics: null,
     })),
 
   stopTraining: () =>
@@ -162,19 +281,80 @@ export const useNeuralNetworkStore = create<NeuralNetworkState>((set, get) => ({
 
   setCurrentLabel: (label) => set({ currentLabel: label }),
 
-  reset: () =>
+  setSplit: (param, value) =>
+    set((s) => {
+      const split = { ...s, [param]: value };
+      // Keep some points to train on
+      if (split.validationFraction + split.testFraction > 0.8) return {};
+      return { [param]: value, ...withNewData(s.points, split) };
+    }),
+
+  // The worker counts epochs per call, so number them across the whole run here
+  recordEpoch: (metrics) =>
+    set((s) => {
+      const epoch = s.trainingState.epoch + 1;
+      return {
+        trainingState: {
+          ...s.trainingState,
+          epoch,
+          loss: metrics.loss,
+          accuracy: metrics.accuracy,
+        },
+        history: [...s.history, { ...metrics, epoch }],
+      };
+    }),
+
+  setTestMetrics: (testMetrics) => set({ testMetrics }),
+
+  reset: () => {
+    const points = generateCircleData(200);
     set({
-      points: generateCircleData(200),
+      ...DEFAULT_SPLIT,
+      ...withNewData(points, DEFAULT_SPLIT),
       datasetType: 'circle',
       numPoints: 200,
+      numClasses: 2,
       architecture: {
         ...defaultArchitecture,
         layers: defaultArchitecture.layers.map((l) => ({ ...l })),
       },
-      trainingState: { isTraining: false, epoch: 0, loss: 0, accuracy: 0 },
       learningRate: 0.03,
-      decisionBoundary: null,
-      weights: null,
+      optimizer: 'sgd',
+      batchSize: null,
+      trainingSeed: 1,
       currentLabel: 0,
-    }),
+    });
+  },
 }));
+
+/** Inputs and labels of the points in one split, ready to hand to the worker. */
+export function splitData(
+  points: Point2D[],
+  splits: DataSplit[],
+  split: DataSplit,
+): { xs: number[][]; ys: number[] } {
+  const selected = points.filter((_, i) => splits[i] === split);
+  return { xs: selected.map((p) => [p.x, p.y]), ys: selected.map((p) => p.label ?? 0) };
+}
+
+/** The epoch with the lowest validation loss, where early stopping would keep the model. */
+export function bestValidationEpoch(
+  history: EpochMetrics[],
+): (EpochMetrics & { valLoss: number }) | null {
+  let best: (EpochMetrics & { valLoss: number }) | null = null;
+  for (const m of history) {
+    const { valLoss } = m;
+    if (valLoss !== null && (best === null || valLoss < best.valLoss)) best = { ...m, valLoss };
+  }
+  return best;
+}
+
+/** Short tags for a layer's regularization, as shown in the summary and diagram. */
+export function regularizationTags(layer: NetworkLayer): string[] {
+  const tags: string[] = [];
+  if (layer.l1) tags.push(`L1 ${layer.l1}`);
+  if (layer.l2) tags.push(`L2 ${layer.l2}`);
+  if (layer.dropout) tags.push(`drop ${layer.dropout}`);
+  if (layer.batchNorm) tags.push('BN');
+  return tags;
+}
@@ -6,6 +6,7 @@ import {
   generateGaussianClusters,
   generateMoonsData,
   generateLinearData,
+  assignSplits,
 } from '../data-generators';
 
 describe('generateCircleData', () => {
@@ -60,6 +61,12 @@ describe('generateSpiralData', () => {
     expect(labels.has(0)).toBe(true);
     expect(labels.has(1)).toBe(true);
   });
+
+  it('generates one arm per class when asked for more than two', () => {
+    const points = generateSpiralData(300, 0.05, 5);
+    expect(points).toHaveLength(300);
+    expect(new Set(points.map((p) => p.label))).toEqual(new Set([0, 1, 2, 3, 4]));
+  });
 });
 
 describe('generateXORData', () => {
@@ -171,3 +178,22 @@ describe('generateLinearData', () => {
     }
   });
 });
+
+describe('assignSplits', () => {
+  it('holds out the requested fractions, rounding down', () => {
+    const splits = assignSplits(105, 0.2, 0.1, 1);
+    expect(splits).toHaveLength(105);
+    expect(splits.filter((s) => s === 'validation')).toHaveLength(21);
+    expect(splits.filter((s) => s === 'test')).toHaveLength(10);
+    expect(splits.filter((s) => s === 'train')).toHaveLength(74);
+  });
+
+  it('is reproducible for a seed and shuffles differently for another', () => {
+    expect(assignSplits(50, 0.3, 0.1, 7)).toEqual(assignSplits(50, 0.3, 0.1, 7));
+    expect(assignSplits(50, 0.3, 0.1, 7)).not.toEqual(assignSplits(50, 0.3, 0.1, 8));
+  });
+
+  it('trains on everything when nothing is held out', () => {
+    expect(assignSplits(10, 0, 0, 1).every((s) => s === 'train')).toBe(true);
+  });
+});
@@ -8,6 +8,10 @@ import {
   softmax,
   argmax,
   meanSquaredError,
+  solveLinearSystem,
+  shuffleInPlace,
+  createRng,
+  randomGaussian,
 } from '../math-utils';
 
 describe('clamp', () => {
@@ -202,3 +206,90 @@ describe('meanSquaredError', () => {
     expect(meanSquaredError([0], [1])).toBe(meanSquaredError([1], [0]));
   });
 });
+
+describe('solveLinearSystem', () => {
+  it('solves a 2x2 system', () => {
+    const x = solveLinearSystem(
+      [
+        [2, 1],
+        [1, 3],
+      ],
+      [3, 5],
+    );
+    expect(x).not.toBeNull();
+    expect(x![0]).toBeCloseTo(0.8, 10);
+    expect(x![1]).toBeCloseTo(1.4, 10);
+  });
+
+  it('pivots past a zero on the diagonal', () => {
+    const x = solveLinearSystem(
+      [
+        [0, 1],
+        [1, 0],
+      ],
+      [2, 3],
+    );
+    expect(x).toEqual([3, 2]);
+  });
+
+  it('returns null for a singular matrix', () => {
+    const x = solveLinearSystem(
+      [
+        [1, 2],
+        [2, 4],
+      ],
+      [1, 2],
+    );
+    expect(x).toBeNull();
+  });
+});
+
+describe('shuffleInPlace', () => {
+  it('keeps every element', () => {
+    const arr = [1, 2, 3, 4, 5, 6];
+    shuffleInPlace(arr);
+    expect([...arr].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('is deterministic for a given random source', () => {
+    const seq = [0.1, 0.7, 0.3, 0.9, 0.5];
+    const makeRandom = () => {
+      let i = 0;
+      return () => seq[i++ % seq.length];
+    };
+    const a = shuffleInPlace([1, 2, 3, 4, 5], makeRandom());
+    const b = shuffleInPlace([1, 2, 3, 4, 5], makeRandom());
+    expect(a).toEqual(b);
+  });
+});
+
+describe('createRng', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createRng(7);
+    const b = createRng(7);
+    for (let i = 0; i < 5; i++) expect(a()).toBe(b());
+  });
+
+  it('produces different sequences for different seeds', () => {
+    expect(createRng(1)()).not.toBe(createRng(2)());
+  });
+
+  it('stays within [0, 1)', () => {
+    const random = createRng(123);
+    for (let i = 0; i < 1000; i++) {
+      const v = random();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+});
+
+describe('randomGaussian', () => {
+  it('is reproducible with a seeded generator', () => {
+    expect(randomGaussian(0, 1, createRng(3))).toBe(randomGaussian(0, 1, createRng(3)));
+  });
+
+  it('stays finite when the generator returns 0', () => {
+    expect(Number.isFinite(randomGaussian(0, 1, () => 0))).toBe(true);
+  });
+});
@@ -1,5 +1,5 @@
-import type { Point2D } from '../ml/types';
-import { randomGaussian, randomRange } from './math-utils';
+import type { DataSplit, Point2D } from '../ml/types';
+import { createRng, randomGaussian, randomRange, shuffleInPlace } from './math-utils';
 
 export function generateCircleData(n = 200, noise = 0.1): Point2D[] {
   const points: Point2D[] = [];
@@ -16,13 +16,14 @@ export function generateCircleData(n = 200, noise = 0.1): Point2D[] {
   return points;
 }
 
-export function generateSpiralData(n = 200, noise = 0.05): Point2D[] {
+/** Interleaved spiral arms, one per class, evenly spaced in angle. */
+export function generateSpiralData(n = 200, noise = 0.05, classes = 2): Point2D[] {
   const points: Point2D[] = [];
-  const half = Math.floor(n / 2);
-  for (let c = 0; c < 2; c++) {
-    for (let i = 0; i < half; i++) {
-      const r = (i / half) * 0.8;
-      const t = (i / half) * 2 * Math.PI + c * Math.PI;
+  const perClass = Math.floor(n / classes);
+  for (let c = 0; c < classes; c++) {
+    for (let i = 0; i < perClass; i++) {
+      const r = (i / perClass) * 0.8;
+      const t = (i / perClass) * 2 * Math.PI + (c * 2 * Math.PI) / classes;
       points.push({
         x: r * Math.cos(t) + randomGaussian(0, noise),
         y: r * Math.sin(t) + randomGaussian(0, noise),
@@ -98,4 +99,28 @@ export function generateLinearData(n = 50, slope = 0.7, intercept = 0.1, noise =
   return points;
 }
 
+/**
+ * Assign n points to train, validation and test with a seeded shuffle, so each held-out set is a
+ * random sample that stays the same for the same seed. Held-out sizes round down.
+ */
+export function assignSplits(
+  n: number,
+  validationFraction: number,
+  testFraction: number,
+  seed: number,
+): DataSplit[] {
+  const order = shuffleInPlace(
+    Array.from({ length: n }, (_, i) => i),
+    createRng(seed),
+  );
+  const validationCount = Math.floor(n * validationFraction);
+  const testCount = Math.floor(n * testFraction);
+  const splits = new Array<DataSplit>(n).fill('train');
+  order.forEach((index, k) => {
+    if (k < validationCount) splits[index] = 'validation';
+    else if (k < validationCount + testCount) splits[index] = 'test';
+  });
+  return splits;
+}
+
 export type { Point2D };
@@ -23,9 +23,11 @@ export function randomRange(min: number, max: number): number {
   return Math.random() * (max - min) + min;
 }
 
-export function randomGaussian(mean = 0, std = 1): number {
-  const u1 = Math.random();
-  const u2 = Math.random();
+/** Box–Muller normal sample. Pass `random` (e.g. from `createRng`) to make it reproducible. */
+export function randomGaussian(mean = 0, std = 1, random: () => number = Math.random): number {
+  // 1 - u keeps the log argument in (0, 1]
+  const u1 = 1 - random();
+  const u2 = random();
   return mean + std * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 }
 
@@ -48,3 +50,52 @@ export function meanSquaredError(predicted: number[], actual: number[]): number
   }
   return sum / n;
 }
+
+/**
+ * Solve A·x = b by Gaussian elimination with partial pivoting.
+ * Returns null when A is singular (or numerically close to it).
+ */
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
+
+/** Fisher–Yates shuffle. Pass `random` to make the order reproducible. */
+export function shuffleInPlace<T>(arr: T[], random: () => number = Math.random): T[] {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+/** Seeded uniform generator on [0, 1) (mulberry32), for reproducible runs. */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
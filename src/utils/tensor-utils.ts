@@ -12,17 +12,22 @@ export function tensorToArray(tensor: tf.Tensor): Promise<number[]> {
   return tensor.data().then((d) => Array.from(d as Float32Array));
 }
 
+/**
+ * Inputs for a resolution × resolution grid of points, row-major from (rangeX[0], rangeY[0]).
+ * `transform` maps each point to the model's input vector.
+ */
 export function createPredictionGrid(
   resolution: number,
   rangeX: [number, number] = [-1, 1],
   rangeY: [number, number] = [-1, 1],
+  transform: (x: number, y: number) => number[] = (x, y) => [x, y],
 ): tf.Tensor2D {
   const grid: number[][] = [];
   for (let y = 0; y < resolution; y++) {
     for (let x = 0; x < resolution; x++) {
       const px = rangeX[0] + (x / (resolution - 1)) * (rangeX[1] - rangeX[0]);
       const py = rangeY[0] + (y / (resolution - 1)) * (rangeY[1] - rangeY[0]);
-      grid.push([px, py]);
+      grid.push(transform(px, py));
     }
   }
   return tf.tensor2d(grid);
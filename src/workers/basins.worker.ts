@@ -0,0 +1,13 @@
+import * as Comlink from 'comlink';
+import { computeBasins, type BasinMap, type BasinRequest } from '../ml/basins';
+
+const api = {
+  compute(request: BasinRequest, onProgress: (fraction: number) => void): BasinMap {
+    const map = computeBasins(request, onProgress);
+    return Comlink.transfer(map, [map.outcomes.buffer, map.steps.buffer]);
+  },
+};
+
+export type BasinWorkerAPI = typeof api;
+
+Comlink.expose(api);
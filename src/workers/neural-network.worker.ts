@@ -1,38 +1,90 @@
 import * as Comlink from 'comlink';
 import * as tf from '@tensorflow/tfjs';
 import { initTFInWorker } from './shared/tf-init';
-import { createNetwork, trainStep, predictGrid, getWeights } from '../ml/neural-network';
-import type { NetworkArchitecture } from '../ml/types';
+import {
+  createNetwork,
+  createOptimizer,
+  trainEpoch,
+  evaluate,
+  predictGrid,
+  getWeights,
+} from '../ml/neural-network';
+import { createRng } from '../utils/math-utils';
+import { featureTransform, RAW_FEATURES, type InputFeature } from '../ml/features';
+import type { EpochMetrics, NetworkArchitecture, TrainingConfig } from '../ml/types';
 
 let model: tf.LayersModel | null = null;
+// Input features of the current model; callers always pass raw [x, y] points
+let features: InputFeature[] = RAW_FEATURES;
+let optimizer: tf.Optimizer | null = null;
+// Settings the current optimizer was built with; changing either starts a fresh one
+let optimizerKey = '';
+// Draws the mini-batch order; reseeded with each new model so runs can be repeated
+let random: () => number = Math.random;
 let stopRequested = false;
 
+function toInputs(xs: number[][]): number[][] {
+  const transform = featureTransform(features);
+  return xs.map(([x, y]) => transform(x, y));
+}
+
+function disposeOptimizer() {
+  if (optimizer) {
+    optimizer.dispose();
+    optimizer = null;
+  }
+}
+
 const api = {
   async init() {
     return await initTFInWorker();
   },
 
-  async createModel(architecture: NetworkArchitecture) {
+  async createModel(architecture: NetworkArchitecture, seed: number) {
     if (model) {
       model.dispose();
     }
-    model = createNetwork(architecture);
+    disposeOptimizer();
+    features = architecture.features;
+    random = createRng(seed);
+    model = createNetwork(architecture, seed);
   },
 
   async train(
     xs: number[][],
     ys: number[],
-    config: { learningRate: number; epochs: number; batchSize: number },
-    onProgress: (data: { epoch: number; loss: number; accuracy: number }) => void,
+    config: TrainingConfig,
+    onProgress: (data: EpochMetrics) => void,
+    validation?: { xs: number[][]; ys: number[] },
   ) {
     if (!model) throw new Error('Model not created');
     stopRequested = false;
 
+    const key = `${config.optimizer}:${config.learningRate}`;
+    if (!optimizer || key !== optimizerKey) {
+      disposeOptimizer();
+      optimizer = createOptimizer(config.optimizer, config.learningRate);
+      optimizerKey = key;
+    }
+
+    const inputs = toInputs(xs);
+    const held =
+      validation && validation.xs.length > 0
+        ? { xs: toInputs(validation.xs), ys: validation.ys }
+        : null;
+
     for (let epoch = 0; epoch < config.epochs; epoch++) {
       if (stopRequested) break;
 
-      const result = trainStep(model, xs, ys, config.learningRate);
-      onProgress({ epoch: epoch + 1, loss: result.loss, accuracy: result.accuracy });
+      const result = trainEpoch(model, optimizer, inputs, ys, config.batchSize, random);
+      const scores = held ? evaluate(model, held.xs, held.ys) : null;
+      onProgress({
+        epoch: epoch + 1,
+        loss: result.loss,
+        accuracy: result.accuracy,
+        valLoss: scores?.loss ?? null,
+        valAccuracy: scores?.accuracy ?? null,
+      });
 
       // Yield to allow stop messages to be processed
       await new Promise((r) => setTimeout(r, 0));
@@ -43,9 +95,14 @@ const api = {
     stopRequested = true;
   },
 
+  async evaluate(xs: number[][], ys: number[]): Promise<{ loss: number; accuracy: number }> {
+    if (!model) throw new Error('Model not created');
+    return evaluate(model, toInputs(xs), ys);
+  },
+
   async predict(xs: number[][]): Promise<Float32Array> {
     if (!model) throw new Error('Model not created');
-    const input = tf.tensor2d(xs);
+    const input = tf.tensor2d(toInputs(xs));
     const output = model.predict(input) as tf.Tensor;
     const data = output.dataSync() as Float32Array;
     const result = new Float32Array(data);
@@ -60,7 +117,7 @@ const api = {
     rangeY: [number, number],
   ): Promise<Float32Array> {
     if (!model) throw new Error('Model not created');
-    const result = predictGrid(model, resolution, rangeX, rangeY);
+    const result = predictGrid(model, resolution, rangeX, rangeY, features);
     return Comlink.transfer(result, [result.buffer]);
   },
 
@@ -74,6 +131,7 @@ const api = {
       model.dispose();
       model = null;
     }
+    disposeOptimizer();
   },
 };
 